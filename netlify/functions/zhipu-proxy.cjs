@@ -1,122 +1,8 @@
 // Netlify Function for ZhipuAI API Proxy
 // Note: Node.js 18+ has built-in fetch API
 
-// 简单的内存存储用于限流（生产环境建议使用数据库）
-const rateLimitStore = new Map();
-
-// 限流配置 - 支持环境变量控制
-const RATE_LIMITS = {
-  DAILY_TOTAL: parseInt(process.env.RATE_LIMIT_DAILY_TOTAL) || 1000,    // 每日总请求限制
-  HOURLY_IP: parseInt(process.env.RATE_LIMIT_HOURLY_IP) || 100,       // 每IP每小时限制
-  PER_USER: parseInt(process.env.RATE_LIMIT_PER_USER) || 200,         // 每用户每日限制
-  
-  // 测试模式配置（小范围测试时使用）
-  get TEST_MODE() {
-    return process.env.RATE_LIMIT_TEST_MODE === 'true' || 
-           process.env.RATE_LIMIT_TEST_MODE === '1';
-  },
-  
-  // 根据模式返回实际限流值
-  getDailyTotal() {
-    return this.TEST_MODE ? 10000 : this.DAILY_TOTAL;
-  },
-  
-  getHourlyIP() {
-    return this.TEST_MODE ? 1000 : this.HOURLY_IP;
-  },
-  
-  getPerUser() {
-    return this.TEST_MODE ? 2000 : this.PER_USER;
-  }
-};
-
-// 清理过期的限流记录
-function cleanupExpiredRecords() {
-  const now = Date.now();
-  const oneHour = 60 * 60 * 1000;
-  const oneDay = 24 * 60 * 60 * 1000;
-  
-  for (const [key, data] of rateLimitStore.entries()) {
-    if (key.startsWith('ip_') && now - data.timestamp > oneHour) {
-      rateLimitStore.delete(key);
-    } else if (key.startsWith('total_') && now - data.timestamp > oneDay) {
-      rateLimitStore.delete(key);
-    } else if (key.startsWith('user_') && now - data.timestamp > oneDay) {
-      rateLimitStore.delete(key);
-    }
-  }
-}
-
-// 检查全局限流
-function checkGlobalRateLimit() {
-  const now = Date.now();
-  const today = new Date(now).toDateString();
-  const globalKey = `total_${today}`;
-  
-  let globalData = rateLimitStore.get(globalKey);
-  if (!globalData) {
-    globalData = { count: 0, timestamp: now };
-  }
-  
-  if (now - globalData.timestamp > 24 * 60 * 60 * 1000) {
-    globalData = { count: 0, timestamp: now };
-  }
-  
-  const dailyTotal = RATE_LIMITS.getDailyTotal();
-  if (globalData.count >= dailyTotal) {
-    return { allowed: false, reason: 'daily_limit_exceeded', remaining: 0 };
-  }
-  
-  return { allowed: true, remaining: dailyTotal - globalData.count };
-}
-
-// 检查IP限流
-function checkIPRateLimit(clientIP) {
-  const now = Date.now();
-  const ipKey = `ip_${clientIP}`;
-  
-  let ipData = rateLimitStore.get(ipKey);
-  if (!ipData) {
-    ipData = { count: 0, timestamp: now };
-  }
-  
-  if (now - ipData.timestamp > 60 * 60 * 1000) {
-    ipData = { count: 0, timestamp: now };
-  }
-  
-  const hourlyIP = RATE_LIMITS.getHourlyIP();
-  if (ipData.count >= hourlyIP) {
-    return { allowed: false, reason: 'ip_rate_limit_exceeded', remaining: 0 };
-  }
-  
-  return { allowed: true, remaining: hourlyIP - ipData.count };
-}
-
-// 更新限流计数器
-function updateRateCounters(clientIP, userId = null) {
-  const now = Date.now();
-  const today = new Date(now).toDateString();
-  
-  // 更新全局计数
-  const globalKey = `total_${today}`;
-  const globalData = rateLimitStore.get(globalKey) || { count: 0, timestamp: now };
-  globalData.count += 1;
-  rateLimitStore.set(globalKey, globalData);
-  
-  // 更新IP计数
-  const ipKey = `ip_${clientIP}`;
-  const ipData = rateLimitStore.get(ipKey) || { count: 0, timestamp: now };
-  ipData.count += 1;
-  rateLimitStore.set(ipKey, ipData);
-  
-  // 更新用户计数（如果有用户标识）
-  if (userId) {
-    const userKey = `user_${userId}`;
-    const userData = rateLimitStore.get(userKey) || { count: 0, timestamp: now };
-    userData.count += 1;
-    rateLimitStore.set(userKey, userData);
-  }
-}
+// 限流逻辑与流式代理共用
+const { RATE_LIMITS, connectRateLimitStore, checkRateLimit, updateRateCounters } = require('../shared/rate-limit.cjs');
 
 // 获取客户端IP
 function getClientIP(request) {
@@ -180,8 +66,8 @@ exports.handler = async (event, context) => {
     const clientIP = getClientIP(event);
     const userAgent = event.headers?.['user-agent'] || 'unknown';
     
-    // 清理过期记录
-    cleanupExpiredRecords();
+    // 限流计数存放在 Netlify Blobs 中，与流式代理共用
+    connectRateLimitStore(event);
     
     // 检查是否为开发模式（开发模式下跳过速率限制）
     const isDevelopment = process.env.NODE_ENV === 'development' || 
@@ -189,35 +75,20 @@ exports.handler = async (event, context) => {
                          process.env.NODE_ENV === undefined; // 本地开发服务器通常没有NODE_ENV
     
     // 初始化限流检查结果
-    let globalCheck = { allowed: true, remaining: RATE_LIMITS.getDailyTotal() };
-    let ipCheck = { allowed: true, remaining: RATE_LIMITS.getHourlyIP() };
+    let rateCheck = {
+      allowed: true,
+      rateLimit: { globalRemaining: RATE_LIMITS.getDailyTotal(), ipRemaining: RATE_LIMITS.getHourlyIP() }
+    };
     
     // 开发模式下不检查速率限制
     if (!isDevelopment) {
-      // 检查限流
-      globalCheck = checkGlobalRateLimit();
-      if (!globalCheck.allowed) {
-        logRequest(clientIP, userAgent, false, 'Global daily limit exceeded');
-        return {
-          statusCode: 429,
-          headers,
-          body: JSON.stringify({ 
-            error: 'Daily API limit exceeded',
-            remaining: 0
-          })
-        };
-      }
-      
-      ipCheck = checkIPRateLimit(clientIP);
-      if (!ipCheck.allowed) {
-        logRequest(clientIP, userAgent, false, 'IP rate limit exceeded');
+      rateCheck = await checkRateLimit(clientIP);
+      if (!rateCheck.allowed) {
+        logRequest(clientIP, userAgent, false, rateCheck.reason);
         return {
           statusCode: 429,
           headers,
-          body: JSON.stringify({ 
-            error: 'Rate limit exceeded for this IP',
-            remaining: ipCheck.remaining
-          })
+          body: JSON.stringify(rateCheck.body)
         };
       }
     } else {
@@ -239,7 +110,7 @@ exports.handler = async (event, context) => {
         })
       };
     }
-    const { messages, model = 'glm-4-flash' } = requestBody;
+    const { messages, model = 'glm-4-flash', temperature, max_tokens, response_format } = requestBody;
     
     // 验证必需的参数
     if (!messages || !Array.isArray(messages) || messages.length === 0) {
@@ -278,8 +149,10 @@ exports.handler = async (event, context) => {
       body: JSON.stringify({
         model,
         messages,
-        max_tokens: 200,
-        temperature: 0.8
+        // 默认200，回顾报告等长文本最多1000
+        max_tokens: Math.min(Number(max_tokens) || 200, 1000),
+        temperature: typeof temperature === 'number' ? temperature : 0.8,
+        ...(response_format ? { response_format } : {})
       })
     });
     
@@ -339,15 +212,11 @@ exports.handler = async (event, context) => {
     }
     
     // 更新限流计数器
-    updateRateCounters(clientIP);
+    await updateRateCounters(clientIP);
     
     // 记录成功请求
     logRequest(clientIP, userAgent, true);
     
-    // 计算剩余配额
-    const globalRemaining = Math.max(0, (globalCheck?.remaining ?? RATE_LIMITS.getDailyTotal()) - 1);
-    const ipRemaining = Math.max(0, (ipCheck?.remaining ?? RATE_LIMITS.getHourlyIP()) - 1);
-    
     // 返回响应
     return {
       statusCode: 200,
@@ -355,10 +224,7 @@ exports.handler = async (event, context) => {
       body: JSON.stringify({
         success: true,
         data: responseData,
-        rateLimit: {
-          globalRemaining,
-          ipRemaining
-        }
+        rateLimit: rateCheck.rateLimit
       })
     };
     
@@ -0,0 +1,127 @@
+// Netlify Function（v2 API）：流式转发智谱AI回应
+// 经典 handler 会缓冲整个响应体，这里返回 ReadableStream，SSE 分块原样透传给前端
+
+// 限流逻辑与 zhipu-proxy 共用
+import rateLimiter from '../shared/rate-limit.cjs';
+
+const { RATE_LIMITS, checkRateLimit, updateRateCounters } = rateLimiter;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  // 剩余配额放在响应头中，前端据此更新用量面板
+  'Access-Control-Expose-Headers': 'X-RateLimit-Global-Remaining, X-RateLimit-IP-Remaining'
+};
+
+function jsonResponse(status, body) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+export default async (req, context) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse(405, { error: 'Method not allowed' });
+  }
+
+  const isDevelopment = process.env.NODE_ENV === 'development' ||
+                       process.env.DEV === 'true' ||
+                       process.env.NODE_ENV === undefined;
+  const clientIP = context?.ip || req.headers.get('x-forwarded-for') || 'unknown';
+
+  // 检查限流，计数与 zhipu-proxy 共用（开发模式下跳过）
+  let rateCheck = {
+    allowed: true,
+    rateLimit: { globalRemaining: RATE_LIMITS.getDailyTotal(), ipRemaining: RATE_LIMITS.getHourlyIP() }
+  };
+  if (!isDevelopment) {
+    rateCheck = await checkRateLimit(clientIP);
+    if (!rateCheck.allowed) {
+      console.log('Stream Request:', JSON.stringify({ ip: clientIP, success: false, error: rateCheck.reason }));
+      return jsonResponse(429, rateCheck.body);
+    }
+  }
+
+  let requestBody;
+  try {
+    requestBody = await req.json();
+  } catch (parseError) {
+    return jsonResponse(400, {
+      error: 'Invalid request body',
+      message: 'Request body must be valid JSON'
+    });
+  }
+
+  const { messages, model = 'glm-4-flash' } = requestBody;
+  if (!messages || !Array.isArray(messages) || messages.length === 0) {
+    return jsonResponse(400, {
+      error: 'Invalid request parameters',
+      message: 'Messages parameter is required and must be a non-empty array'
+    });
+  }
+
+  const apiKey = process.env.ZHIPU_API_KEY;
+  if (!apiKey) {
+    return jsonResponse(500, {
+      error: 'Service configuration error',
+      message: 'API key not configured'
+    });
+  }
+
+  try {
+    const zhipuResponse = await fetch('https://open.bigmodel.cn/api/paas/v4/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        max_tokens: 200,
+        temperature: 0.8,
+        stream: true
+      }),
+      // 客户端取消时一并中止上游请求
+      signal: req.signal
+    });
+
+    if (!zhipuResponse.ok || !zhipuResponse.body) {
+      const errorText = await zhipuResponse.text().catch(() => 'Failed to read error response');
+      console.log('Stream Request:', JSON.stringify({ ip: clientIP, success: false, status: zhipuResponse.status }));
+      const status = zhipuResponse.status === 401 || zhipuResponse.status >= 500 ? 500 : zhipuResponse.status;
+      return jsonResponse(status, {
+        error: 'AI service error',
+        status: zhipuResponse.status,
+        message: status === 500 ? 'AI service temporarily unavailable' : errorText
+      });
+    }
+
+    await updateRateCounters(clientIP);
+
+    return new Response(zhipuResponse.body, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'X-RateLimit-Global-Remaining': String(rateCheck.rateLimit.globalRemaining),
+        'X-RateLimit-IP-Remaining': String(rateCheck.rateLimit.ipRemaining)
+      }
+    });
+  } catch (error) {
+    const isProduction = process.env.NODE_ENV === 'production';
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return jsonResponse(500, {
+      error: 'Internal server error',
+      message: isProduction ? 'Internal server error' : errorMessage,
+      timestamp: new Date().toISOString()
+    });
+  }
+};
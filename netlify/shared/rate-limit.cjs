@@ -0,0 +1,197 @@
+// 代理函数共用的限流：每日全站总量 + 每IP每小时
+// 计数存放在 Netlify Blobs 中，zhipu-proxy 和 zhipu-stream 的各个实例共用同一份配额
+// 没有 Blobs 环境时（本地开发服务器）退回进程内存储，同一进程内的端点同样共用
+// 读取再写回不是原子操作，并发请求时可能少计几次，对软限流可以接受
+
+const { connectLambda, getStore } = require('@netlify/blobs');
+
+const STORE_NAME = 'rate-limit';
+
+// 进程内存储，接口与 Blobs store 一致
+const memoryStore = new Map();
+const memoryCounterStore = {
+  async get(key) {
+    return memoryStore.get(key) || null;
+  },
+  async setJSON(key, value) {
+    memoryStore.set(key, value);
+  }
+};
+
+// 限流配置 - 支持环境变量控制
+const RATE_LIMITS = {
+  DAILY_TOTAL: parseInt(process.env.RATE_LIMIT_DAILY_TOTAL) || 1000,    // 每日总请求限制
+  HOURLY_IP: parseInt(process.env.RATE_LIMIT_HOURLY_IP) || 100,       // 每IP每小时限制
+  PER_USER: parseInt(process.env.RATE_LIMIT_PER_USER) || 200,         // 每用户每日限制
+
+  // 测试模式配置（小范围测试时使用）
+  get TEST_MODE() {
+    return process.env.RATE_LIMIT_TEST_MODE === 'true' ||
+           process.env.RATE_LIMIT_TEST_MODE === '1';
+  },
+
+  // 根据模式返回实际限流值
+  getDailyTotal() {
+    return this.TEST_MODE ? 10000 : this.DAILY_TOTAL;
+  },
+
+  getHourlyIP() {
+    return this.TEST_MODE ? 1000 : this.HOURLY_IP;
+  },
+
+  getPerUser() {
+    return this.TEST_MODE ? 2000 : this.PER_USER;
+  }
+};
+
+const ONE_HOUR = 60 * 60 * 1000;
+const ONE_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * 经典 handler（Lambda 兼容模式）需要先用 event 连接 Blobs，v2 函数无需调用
+ */
+function connectRateLimitStore(event) {
+  if (event?.blobs) {
+    connectLambda(event);
+  }
+}
+
+function getCounterStore() {
+  try {
+    return getStore({ name: STORE_NAME, consistency: 'strong' });
+  } catch {
+    return memoryCounterStore;
+  }
+}
+
+// 清理进程内存储中过期的限流记录（Blobs 中每个键只有一份，过期后读取时重置）
+function cleanupExpiredRecords() {
+  const now = Date.now();
+
+  for (const [key, data] of memoryStore.entries()) {
+    if (key.startsWith('ip_') && now - data.timestamp > ONE_HOUR) {
+      memoryStore.delete(key);
+    } else if (key.startsWith('total_') && now - data.timestamp > ONE_DAY) {
+      memoryStore.delete(key);
+    } else if (key.startsWith('user_') && now - data.timestamp > ONE_DAY) {
+      memoryStore.delete(key);
+    }
+  }
+}
+
+function getGlobalKey(now) {
+  return `total_${new Date(now).toISOString().slice(0, 10)}`;
+}
+
+function getIPKey(clientIP) {
+  return `ip_${encodeURIComponent(clientIP)}`;
+}
+
+// 读取计数，窗口已过期时从零开始
+async function readCounter(store, key, windowMs, now) {
+  let data = null;
+  try {
+    data = await store.get(key, { type: 'json' });
+  } catch (error) {
+    console.error('读取限流计数失败:', error.message);
+  }
+  if (!data || now - data.timestamp > windowMs) {
+    return { count: 0, timestamp: now };
+  }
+  return data;
+}
+
+async function incrementCounter(store, key, windowMs, now) {
+  const data = await readCounter(store, key, windowMs, now);
+  await store.setJSON(key, { count: data.count + 1, timestamp: data.timestamp });
+}
+
+// 检查全局限流
+async function checkGlobalRateLimit(store, now) {
+  const globalData = await readCounter(store, getGlobalKey(now), ONE_DAY, now);
+
+  const dailyTotal = RATE_LIMITS.getDailyTotal();
+  if (globalData.count >= dailyTotal) {
+    return { allowed: false, reason: 'daily_limit_exceeded', remaining: 0 };
+  }
+
+  return { allowed: true, remaining: dailyTotal - globalData.count };
+}
+
+// 检查IP限流
+async function checkIPRateLimit(store, clientIP, now) {
+  const ipData = await readCounter(store, getIPKey(clientIP), ONE_HOUR, now);
+
+  const hourlyIP = RATE_LIMITS.getHourlyIP();
+  if (ipData.count >= hourlyIP) {
+    return { allowed: false, reason: 'ip_rate_limit_exceeded', remaining: 0 };
+  }
+
+  return { allowed: true, remaining: hourlyIP - ipData.count };
+}
+
+// 更新限流计数器
+async function updateRateCounters(clientIP, userId = null) {
+  const store = getCounterStore();
+  const now = Date.now();
+
+  try {
+    // 更新全局计数
+    await incrementCounter(store, getGlobalKey(now), ONE_DAY, now);
+
+    // 更新IP计数
+    await incrementCounter(store, getIPKey(clientIP), ONE_HOUR, now);
+
+    // 更新用户计数（如果有用户标识）
+    if (userId) {
+      await incrementCounter(store, `user_${encodeURIComponent(userId)}`, ONE_DAY, now);
+    }
+  } catch (error) {
+    // 计数失败不影响已经成功的请求
+    console.error('更新限流计数失败:', error.message);
+  }
+}
+
+/**
+ * 检查全站和IP限流（不计数）
+ * 超出时返回 429 响应体，否则返回本次请求成功后的剩余配额
+ */
+async function checkRateLimit(clientIP) {
+  cleanupExpiredRecords();
+
+  const store = getCounterStore();
+  const now = Date.now();
+
+  const globalCheck = await checkGlobalRateLimit(store, now);
+  if (!globalCheck.allowed) {
+    return {
+      allowed: false,
+      reason: 'Global daily limit exceeded',
+      body: { error: 'Daily API limit exceeded', remaining: 0 }
+    };
+  }
+
+  const ipCheck = await checkIPRateLimit(store, clientIP, now);
+  if (!ipCheck.allowed) {
+    return {
+      allowed: false,
+      reason: 'IP rate limit exceeded',
+      body: { error: 'Rate limit exceeded for this IP', remaining: ipCheck.remaining }
+    };
+  }
+
+  return {
+    allowed: true,
+    rateLimit: {
+      globalRemaining: Math.max(0, globalCheck.remaining - 1),
+      ipRemaining: Math.max(0, ipCheck.remaining - 1)
+    }
+  };
+}
+
+module.exports = {
+  RATE_LIMITS,
+  connectRateLimitStore,
+  checkRateLimit,
+  updateRateCounters
+};
@@ -14,58 +14,15 @@ app.use((req, res, next) => {
   res.header('Access-Control-Allow-Origin', '*');
   res.header('Access-Control-Allow-Headers', 'Content-Type');
   res.header('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.header('Access-Control-Expose-Headers', 'X-RateLimit-Global-Remaining, X-RateLimit-IP-Remaining');
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
   }
   next();
 });
 
-// 简单的内存存储用于限流
-const rateLimitStore = new Map();
-const RATE_LIMITS = {
-  HOURLY_IP: parseInt(process.env.RATE_LIMIT_HOURLY_IP) || 100,
-  DAILY_TOTAL: parseInt(process.env.RATE_LIMIT_DAILY_TOTAL) || 1000,
-  
-  // 测试模式配置（小范围测试时使用）
-  get TEST_MODE() {
-    return process.env.RATE_LIMIT_TEST_MODE === 'true' || 
-           process.env.RATE_LIMIT_TEST_MODE === '1';
-  },
-  
-  // 根据模式返回实际限流值
-  getHourlyIP() {
-    return this.TEST_MODE ? 1000 : this.HOURLY_IP;
-  },
-  
-  getDailyTotal() {
-    return this.TEST_MODE ? 10000 : this.DAILY_TOTAL;
-  }
-};
-
-function checkRateLimit(clientIP) {
-  const now = Date.now();
-  const hourKey = `hour_${clientIP}_${Math.floor(now / (60 * 60 * 1000))}`;
-  const dayKey = `day_${Math.floor(now / (24 * 60 * 60 * 1000))}`;
-  
-  const hourlyIP = RATE_LIMITS.getHourlyIP();
-  const dailyTotal = RATE_LIMITS.getDailyTotal();
-  
-  let hourCount = rateLimitStore.get(hourKey) || 0;
-  let dayCount = rateLimitStore.get(dayKey) || 0;
-  
-  if (hourCount >= hourlyIP) {
-    return { allowed: false, reason: 'IP rate limit exceeded' };
-  }
-  
-  if (dayCount >= dailyTotal) {
-    return { allowed: false, reason: 'Daily limit exceeded' };
-  }
-  
-  rateLimitStore.set(hourKey, hourCount + 1);
-  rateLimitStore.set(dayKey, dayCount + 1);
-  
-  return { allowed: true };
-}
+// 限流与线上函数共用同一模块；没有 Netlify Blobs 环境时计数存放在本进程内，两个端点共用
+const { RATE_LIMITS, checkRateLimit, updateRateCounters } = require('../netlify/shared/rate-limit.cjs');
 
 // 主要的AI代理端点
 app.post('/.netlify/functions/zhipu-proxy', async (req, res) => {
@@ -78,11 +35,9 @@ app.post('/.netlify/functions/zhipu-proxy', async (req, res) => {
     // 开发模式下跳过限流检查
     if (!isDevMode) {
       // 检查限流
-      const rateLimit = checkRateLimit(clientIP);
+      const rateLimit = await checkRateLimit(clientIP);
       if (!rateLimit.allowed) {
-        return res.status(429).json({
-          error: rateLimit.reason
-        });
+        return res.status(429).json(rateLimit.body);
       }
     } else {
       console.log('✅ 开发模式：跳过速率限制检查');
@@ -100,7 +55,7 @@ app.post('/.netlify/functions/zhipu-proxy', async (req, res) => {
     }
     
     const model = process.env.ZHIPU_MODEL || 'glm-4-flash';
-    const { messages } = req.body;
+    const { messages, temperature, max_tokens, response_format } = req.body;
     
     // 验证messages参数
     if (!messages || !Array.isArray(messages) || messages.length === 0) {
@@ -123,8 +78,9 @@ app.post('/.netlify/functions/zhipu-proxy', async (req, res) => {
       body: JSON.stringify({
         model,
         messages,
-        max_tokens: 200,
-        temperature: 0.8
+        max_tokens: Math.min(Number(max_tokens) || 200, 1000),
+        temperature: typeof temperature === 'number' ? temperature : 0.8,
+        ...(response_format ? { response_format } : {})
       })
     });
     
@@ -161,6 +117,101 @@ app.post('/.netlify/functions/zhipu-proxy', async (req, res) => {
   }
 });
 
+// 流式AI代理端点：把智谱AI的SSE分块原样转发给前端
+app.post('/.netlify/functions/zhipu-stream', async (req, res) => {
+  // 与线上流式函数相同的限流
+  const clientIP = req.ip || req.connection.remoteAddress || 'unknown';
+  const rateCheck = await checkRateLimit(clientIP);
+  if (!rateCheck.allowed) {
+    console.log('⛔ 流式请求超出限流:', rateCheck.reason);
+    return res.status(429).json(rateCheck.body);
+  }
+
+  const apiKey = process.env.ZHIPU_API_KEY;
+  if (!apiKey || apiKey === 'your-zhipu-api-key-here') {
+    console.log('⚠️ API密钥未配置或使用占位符');
+    return res.status(500).json({
+      error: '开发服务器配置错误',
+      message: 'API key not configured'
+    });
+  }
+
+  const model = process.env.ZHIPU_MODEL || 'glm-4-flash';
+  const { messages } = req.body;
+  if (!messages || !Array.isArray(messages) || messages.length === 0) {
+    return res.status(400).json({
+      error: '请求参数错误',
+      message: 'messages参数是必需的，且必须是非空数组'
+    });
+  }
+
+  // 前端取消或断开时中止上游请求
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+
+  try {
+    console.log('🤖 流式调用智谱AI:', { model, messageCount: messages.length });
+    const response = await fetch('https://open.bigmodel.cn/api/paas/v4/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        max_tokens: 200,
+        temperature: 0.8,
+        stream: true
+      }),
+      signal: controller.signal
+    });
+
+    if (!response.ok || !response.body) {
+      const errorText = await response.text();
+      console.error('❌ 智谱AI API错误:', response.status, errorText);
+      return res.status(response.status).json({
+        error: '智谱AI服务错误',
+        status: response.status,
+        message: errorText
+      });
+    }
+
+    await updateRateCounters(clientIP);
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-RateLimit-Global-Remaining': String(rateCheck.rateLimit.globalRemaining),
+      'X-RateLimit-IP-Remaining': String(rateCheck.rateLimit.ipRemaining)
+    });
+
+    const reader = response.body.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      res.write(value);
+    }
+    res.end();
+    console.log('✅ 智谱AI流式响应完成');
+  } catch (error) {
+    if (controller.signal.aborted) {
+      console.log('⏹️ 客户端已取消流式请求');
+      return;
+    }
+    console.error('❌ 流式请求错误:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      });
+    } else {
+      res.end();
+    }
+  }
+});
+
 // 健康检查端点
 app.get('/health', (req, res) => {
   const apiKey = process.env.ZHIPU_API_KEY;
@@ -174,6 +225,7 @@ app.get('/health', (req, res) => {
 app.listen(PORT, () => {
   console.log(`🚀 本地开发服务器运行在 http://localhost:${PORT}`);
   console.log(`📡 AI代理端点: http://localhost:${PORT}/.netlify/functions/zhipu-proxy`);
+  console.log(`🌊 流式代理端点: http://localhost:${PORT}/.netlify/functions/zhipu-stream`);
   console.log(`❤️  健康检查: http://localhost:${PORT}/health`);
   
   // 显示限流配置
@@ -0,0 +1,66 @@
+// 测试语料运行脚本：编译 src/test 下的语料文件并运行其中的 run*Corpus 函数
+// 运行方式：node scripts/test-corpus.cjs crisis（对应 src/test/test-crisis.ts）
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const rootDir = path.resolve(__dirname, '..');
+const outDir = path.join(rootDir, 'node_modules', '.tmp', 'test-corpus');
+
+function fail(message) {
+  console.error(`❌ ${message}`);
+  process.exit(1);
+}
+
+const name = process.argv[2];
+if (!name) {
+  fail('请指定语料名称，如 node scripts/test-corpus.cjs crisis');
+}
+
+const entry = path.join(rootDir, 'src', 'test', `test-${name}.ts`);
+if (!fs.existsSync(entry)) {
+  fail(`找不到语料文件: ${path.relative(rootDir, entry)}`);
+}
+
+// 编译为 CommonJS，省去为相对导入补全扩展名
+fs.rmSync(outDir, { recursive: true, force: true });
+const program = ts.createProgram([entry], {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.CommonJS,
+  moduleResolution: ts.ModuleResolutionKind.Node10,
+  esModuleInterop: true,
+  skipLibCheck: true,
+  rootDir: path.join(rootDir, 'src'),
+  outDir,
+});
+const emitResult = program.emit();
+const diagnostics = ts.getPreEmitDiagnostics(program).concat(emitResult.diagnostics)
+  .filter(diagnostic => diagnostic.category === ts.DiagnosticCategory.Error);
+if (diagnostics.length > 0) {
+  console.error(ts.formatDiagnostics(diagnostics, {
+    getCanonicalFileName: fileName => fileName,
+    getCurrentDirectory: () => rootDir,
+    getNewLine: () => '\n',
+  }));
+  fail('语料编译失败');
+}
+// 项目 package.json 声明了 type: module，这里改回 CommonJS
+fs.writeFileSync(path.join(outDir, 'package.json'), JSON.stringify({ type: 'commonjs' }));
+
+const corpus = require(path.join(outDir, 'test', `test-${name}.js`));
+const runners = Object.keys(corpus).filter(key => /^run\w*Corpus$/.test(key) && typeof corpus[key] === 'function');
+if (runners.length === 0) {
+  fail(`test-${name}.ts 中没有导出 run*Corpus 函数`);
+}
+
+let success = true;
+for (const runner of runners) {
+  const result = corpus[runner]();
+  success = success && Boolean(result && result.success);
+}
+
+if (!success) {
+  fail('部分语料未通过');
+}
+console.log('✅ 全部语料通过');
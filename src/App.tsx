@@ -1,16 +1,35 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { HomeView } from './views/HomeView';
 import { HistoryView } from './views/HistoryView';
 import { InsightsView } from './views/InsightsView';
 import { SettingsView } from './views/SettingsView';
 import { AIConfigView } from './views/AIConfigView';
+import { TrashView } from './views/TrashView';
 import { BottomNav } from './components/BottomNav';
+import { LockScreen } from './components/LockScreen';
 import { AnimationProvider } from './contexts/AnimationContext';
+import { JournalVault, AppLock } from './lib/security';
+import { useAppLocked } from './hooks/use-app-lock';
+import { startModelHealthWatch } from './lib/modelDiscovery';
+import { startAIQueueWatch } from './lib/aiQueue';
 import type { View } from './types';
 
 function App() {
   const [currentView, setCurrentView] = useState<View>('home');
 
+  // 日记库空闲自动锁定
+  useEffect(() => JournalVault.getInstance().startIdleWatch(), []);
+
+  // 应用锁：空闲或切到后台时自动锁定，锁屏覆盖在视图之上以保留未保存的输入
+  const appLocked = useAppLocked();
+  useEffect(() => AppLock.getInstance().startWatch(), []);
+
+  // 已配置模型的后台健康复查
+  useEffect(() => startModelHealthWatch(), []);
+
+  // 离线时写下的记录，联网后补上AI回应
+  useEffect(() => startAIQueueWatch(), []);
+
   return (
     <AnimationProvider>
       <div className="min-h-screen pb-[80px] pb-[calc(80px+env(safe-area-inset-bottom))]">
@@ -22,11 +41,22 @@ function App() {
         {currentView === 'history' && <HistoryView />}
         {currentView === 'insights' && <InsightsView />}
         {currentView === 'settings' && (
-          <SettingsView />
+          <SettingsView
+            onNavigateToTrash={() => setCurrentView('trash')}
+            onNavigateToAIConfig={() => setCurrentView('ai-config')}
+          />
+        )}
+        {currentView === 'ai-config' && (
+          <AIConfigView onBack={() => setCurrentView('settings')} />
+        )}
+        {currentView === 'trash' && (
+          <TrashView onBack={() => setCurrentView('settings')} />
         )}
         
         {/* 底部导航 */}
         <BottomNav currentView={currentView} onViewChange={setCurrentView} />
+        
+        {appLocked && <LockScreen />}
       </div>
     </AnimationProvider>
   );
@@ -0,0 +1,299 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Cpu, Check, Plus, Trash2, Search, ChevronUp, ChevronDown } from 'lucide-react';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { aiSettingsDB } from '../lib/aiSettingsDB';
+import { PROVIDER_ADAPTERS, getProviderAdapter, validateModelConfig } from '../lib/aiProviders';
+import { fetchModelsFromProvider, recheckSavedModels } from '../lib/modelDiscovery';
+import type { AIModelConfig, AIProvider, AIServiceSettings } from '../types';
+
+interface AIModelSettingsPanelProps {
+  onMessage: (message: string, type: 'success' | 'error' | 'info') => void;
+  onChange?: (settings: AIServiceSettings) => void;
+}
+
+const PROVIDERS = Object.keys(PROVIDER_ADAPTERS) as AIProvider[];
+
+const inputClassName = 'w-full p-12 rounded-lg border-2 border-neutral-mist text-body focus:outline-none focus:border-primary-500 transition-colors';
+
+const emptyForm = (provider: AIProvider = 'deepseek') => ({
+  provider,
+  name: '',
+  model: getProviderAdapter(provider).defaultModel,
+  apiUrl: '',
+  apiKey: '',
+});
+
+/**
+ * 模型配置：添加服务商模型或自定义OpenAI兼容接口，并选择用于生成回应的模型
+ */
+export const AIModelSettingsPanel: React.FC<AIModelSettingsPanelProps> = ({ onMessage, onChange }) => {
+  const [settings, setSettings] = useState<AIServiceSettings | null>(null);
+  const [showAdd, setShowAdd] = useState(false);
+  const [form, setForm] = useState(emptyForm());
+  const [discovered, setDiscovered] = useState<string[]>([]);
+  const [discovering, setDiscovering] = useState(false);
+
+  const loadSettings = useCallback(async () => {
+    const current = await aiSettingsDB.get();
+    setSettings(current);
+    onChange?.(current);
+  }, [onChange]);
+
+  useEffect(() => {
+    loadSettings();
+
+    // 后台复查写回状态后刷新
+    window.addEventListener('ai-models-updated', loadSettings);
+    return () => window.removeEventListener('ai-models-updated', loadSettings);
+  }, [loadSettings]);
+
+  const handleProviderChange = (provider: AIProvider) => {
+    setForm({ ...emptyForm(provider), name: form.name, apiKey: form.apiKey });
+    setDiscovered([]);
+  };
+
+  const handleDiscover = async () => {
+    setDiscovering(true);
+    try {
+      const models = await fetchModelsFromProvider(form.provider, form.apiKey.trim(), form.apiUrl.trim() || undefined);
+      setDiscovered(models.map(model => model.id));
+      if (models.length === 0) {
+        onMessage('未获取到模型列表，请检查地址和密钥，或手动填写模型名称', 'info');
+      } else if (!form.model) {
+        setForm({ ...form, model: models[0].id });
+      }
+    } finally {
+      setDiscovering(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const adapter = getProviderAdapter(form.provider);
+    const model: AIModelConfig = {
+      id: `model_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      provider: form.provider,
+      name: form.name.trim() || `${adapter.label} ${form.model}`,
+      model: form.model.trim(),
+      apiUrl: form.apiUrl.trim() || undefined,
+      apiKey: form.apiKey.trim() || undefined,
+      available: true,
+      status: 'unknown',
+      isBuiltin: false,
+    };
+
+    const invalid = validateModelConfig(model);
+    if (invalid) {
+      onMessage(invalid === 'API key not configured' ? '请填写 API 密钥' : invalid, 'error');
+      return;
+    }
+
+    await aiSettingsDB.addModel(model);
+    await aiSettingsDB.selectModel(model.id);
+    setShowAdd(false);
+    await loadSettings();
+    onMessage(`已添加并切换到 ${model.name}`, 'success');
+    // 新模型尚未检测，立即探测一次
+    recheckSavedModels().catch(error => console.error('模型状态检测失败:', error));
+  };
+
+  const handleSelect = async (id?: string) => {
+    if (id) {
+      await aiSettingsDB.selectModel(id);
+    } else {
+      await aiSettingsDB.update({ selectedModelId: undefined, isConfigured: false });
+    }
+    await loadSettings();
+  };
+
+  const handleMove = async (model: AIModelConfig, direction: -1 | 1) => {
+    await aiSettingsDB.moveModel(model.id, direction);
+    await loadSettings();
+  };
+
+  const handleToggleFailover = async () => {
+    await aiSettingsDB.update({ failoverEnabled: settings?.failoverEnabled === false });
+    await loadSettings();
+  };
+
+  const handleDelete = async (model: AIModelConfig) => {
+    await aiSettingsDB.deleteModel(model.id);
+    await loadSettings();
+    onMessage(`已删除 ${model.name}`, 'info');
+  };
+
+  const selectedId = settings?.selectedModelId;
+
+  const renderOption = (key: string, title: string, subtitle: string, selected: boolean, onSelect: () => void, model?: AIModelConfig) => (
+    <div key={key} className="flex items-center justify-between p-16 border-b border-neutral-mist last:border-b-0">
+      <button onClick={onSelect} className="flex items-center gap-12 text-left flex-1 min-w-0">
+        <div className={`w-5 h-5 rounded-full border-2 flex items-center justify-center flex-shrink-0 ${
+          selected ? 'border-primary-500 bg-primary-500' : 'border-neutral-mist'
+        }`}>
+          {selected && <Check className="w-3 h-3 text-white" />}
+        </div>
+        <div className="min-w-0">
+          <div className="text-body text-neutral-dark truncate">{title}</div>
+          <div className="text-caption text-neutral-stone truncate">{subtitle}</div>
+          {/* 所选模型检测未通过时仍会优先使用，这里提示状态 */}
+          {selected && model?.status === 'disabled' && (
+            <div className="text-caption text-semantic-error truncate">
+              状态检测未通过，仍会优先尝试{model.lastError ? ` · ${model.lastError}` : ''}
+            </div>
+          )}
+        </div>
+      </button>
+      {model && (
+        <div className="flex items-center flex-shrink-0">
+          <button
+            onClick={() => handleMove(model, -1)}
+            className="p-8 rounded-full text-neutral-stone hover:text-neutral-dark hover:bg-neutral-cloud transition-colors"
+            aria-label="上移"
+          >
+            <ChevronUp className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => handleMove(model, 1)}
+            className="p-8 rounded-full text-neutral-stone hover:text-neutral-dark hover:bg-neutral-cloud transition-colors"
+            aria-label="下移"
+          >
+            <ChevronDown className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => handleDelete(model)}
+            className="p-8 rounded-full text-neutral-stone hover:text-semantic-error hover:bg-neutral-cloud transition-colors"
+            aria-label="删除模型"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="mb-32 rounded-xl bg-white/50 border border-neutral-mist overflow-hidden">
+      <div className="flex items-center justify-between p-24 border-b border-neutral-mist">
+        <div className="flex items-center gap-12">
+          <Cpu className="w-5 h-5 text-neutral-stone" />
+          <div>
+            <div className="text-body text-neutral-dark">回应模型</div>
+            <div className="text-caption text-neutral-stone">可接入自己的服务商或OpenAI兼容接口</div>
+          </div>
+        </div>
+        <button
+          onClick={() => {
+            setForm(emptyForm());
+            setDiscovered([]);
+            setShowAdd(true);
+          }}
+          className="flex items-center gap-4 px-16 py-8 rounded-full bg-primary-50 text-primary-700 text-body-small hover:bg-primary-100 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          添加
+        </button>
+      </div>
+
+      {/* 失败时按顺序切换到其他模型 */}
+      {settings && settings.models.length > 0 && (
+        <div className="flex items-center justify-between p-16 border-b border-neutral-mist">
+          <div>
+            <div className="text-body-small text-neutral-dark">自动切换备用模型</div>
+            <div className="text-caption text-neutral-stone">所选模型失败时按下方顺序依次尝试，最后使用内置代理；选择本地模型时只在本地模型之间切换</div>
+          </div>
+          <button
+            onClick={handleToggleFailover}
+            className={`
+              relative w-12 h-7 rounded-full transition-colors duration-normal flex-shrink-0
+              ${settings.failoverEnabled !== false ? 'bg-primary-500' : 'bg-neutral-mist'}
+            `}
+          >
+            <div className={`
+              absolute top-1 w-5 h-5 rounded-full bg-white shadow-sm transition-transform duration-normal
+              ${settings.failoverEnabled !== false ? 'translate-x-[22px]' : 'translate-x-1'}
+            `} />
+          </button>
+        </div>
+      )}
+
+      {renderOption('proxy', '内置代理服务', '智谱GLM-4-Flash · 无需配置', !selectedId, () => handleSelect())}
+      {settings?.models.map(model => renderOption(
+        model.id,
+        model.name,
+        `${getProviderAdapter(model.provider).label} · ${model.model}${model.apiUrl ? ` · ${model.apiUrl}` : ''}`,
+        selectedId === model.id,
+        () => handleSelect(model.id),
+        model
+      ))}
+
+      <Modal isOpen={showAdd} onClose={() => setShowAdd(false)} title="添加模型" size="md">
+        <div className="p-6 space-y-4">
+          <select
+            value={form.provider}
+            onChange={(e) => handleProviderChange(e.target.value as AIProvider)}
+            className={inputClassName}
+          >
+            {PROVIDERS.map(provider => (
+              <option key={provider} value={provider}>{getProviderAdapter(provider).label}</option>
+            ))}
+          </select>
+          <input
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="显示名称（可选）"
+            className={inputClassName}
+          />
+          <div className="flex gap-8">
+            <input
+              value={form.model}
+              onChange={(e) => setForm({ ...form, model: e.target.value })}
+              placeholder="模型名称，如 gpt-4o-mini"
+              list="discovered-models"
+              className={inputClassName}
+            />
+            {getProviderAdapter(form.provider).supportsModelList && (
+              <Button
+                variant="secondary"
+                size="sm"
+                icon={<Search className="w-4 h-4" />}
+                onClick={handleDiscover}
+                loading={discovering}
+              >
+                获取
+              </Button>
+            )}
+          </div>
+          <datalist id="discovered-models">
+            {discovered.map(id => <option key={id} value={id} />)}
+          </datalist>
+          <input
+            value={form.apiUrl}
+            onChange={(e) => setForm({ ...form, apiUrl: e.target.value })}
+            placeholder={getProviderAdapter(form.provider).defaultApiUrl || '接口地址，如 https://example.com/v1'}
+            className={inputClassName}
+          />
+          <input
+            type="password"
+            value={form.apiKey}
+            onChange={(e) => setForm({ ...form, apiKey: e.target.value })}
+            placeholder={getProviderAdapter(form.provider).requiresApiKey ? 'API 密钥' : 'API 密钥（可选）'}
+            className={inputClassName}
+          />
+          <p className="text-caption text-neutral-stone">
+            {getProviderAdapter(form.provider).isLocal
+              ? '请填写本机地址，并允许本页面跨域访问（如 Ollama 需设置 OLLAMA_ORIGINS）。记录内容不会离开这台设备。'
+              : '密钥只保存在本设备，选择此模型后记录内容会直接发送到该服务商。'}
+          </p>
+          <div className="flex justify-end gap-3">
+            <Button variant="secondary" size="sm" onClick={() => setShowAdd(false)}>
+              取消
+            </Button>
+            <Button size="sm" onClick={handleAdd}>
+              添加
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
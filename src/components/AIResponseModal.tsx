@@ -1,6 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Sparkles, X } from 'lucide-react';
+import { Sparkles, X, MessagesSquare } from 'lucide-react';
 import { useAnimation } from '../contexts/AnimationContext';
 import { ANIMATIONS } from '../lib/animations';
 
@@ -8,6 +8,7 @@ interface AIResponseModalProps {
   isOpen: boolean;
   response: string;
   onClose: () => void;
+  onContinue?: () => void; // 继续就这条记录对话
   autoCloseDelay?: number; // 自动关闭延迟时间，默认5秒
 }
 
@@ -15,6 +16,7 @@ export const AIResponseModal: React.FC<AIResponseModalProps> = ({
   isOpen,
   response,
   onClose,
+  onContinue,
   autoCloseDelay = 5000
 }) => {
   const [remainingTime, setRemainingTime] = useState(autoCloseDelay / 1000);
@@ -197,6 +199,15 @@ export const AIResponseModal: React.FC<AIResponseModalProps> = ({
                 duration: getDuration(0.3),
               }}
             >
+              {onContinue && (
+                <button
+                  onClick={onContinue}
+                  className="w-full mb-3 flex items-center justify-center gap-2 py-2 rounded-xl bg-blue-50 text-blue-600 text-sm font-medium hover:bg-blue-100 transition-colors"
+                >
+                  <MessagesSquare className="w-4 h-4" />
+                  继续聊聊
+                </button>
+              )}
               <p className="text-xs text-gray-400 text-center">
                 AI回复已保存在你的记录中，随时可以查看
               </p>
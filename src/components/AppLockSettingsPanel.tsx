@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import { Smartphone } from 'lucide-react';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { AppLock } from '../lib/security';
+import type { AppLockConfig, AppLockMethod } from '../lib/security';
+
+interface AppLockSettingsPanelProps {
+  onMessage: (message: string, type: 'success' | 'error' | 'info') => void;
+}
+
+type AppLockDialog = 'setup' | 'disable' | null;
+
+const PIN_PATTERN = /^\d{4,8}$/;
+const MIN_PASSPHRASE_LENGTH = 6;
+const IDLE_OPTIONS = [1, 5, 15, 30, 0];
+
+const inputClassName = 'w-full p-12 rounded-lg border-2 border-neutral-mist text-body focus:outline-none focus:border-primary-500 transition-colors';
+
+/**
+ * 应用锁设置：PIN/口令、空闲自动锁定和切到后台锁定
+ */
+export const AppLockSettingsPanel: React.FC<AppLockSettingsPanelProps> = ({ onMessage }) => {
+  const appLock = AppLock.getInstance();
+  const [config, setConfig] = useState<AppLockConfig | null>(appLock.getConfig());
+  const [dialog, setDialog] = useState<AppLockDialog>(null);
+  const [working, setWorking] = useState(false);
+  const [form, setForm] = useState({ current: '', next: '', confirm: '', method: 'pin' as AppLockMethod });
+
+  const refresh = () => {
+    const current = appLock.getConfig();
+    setConfig(current ? { ...current } : null);
+  };
+
+  const openDialog = (type: AppLockDialog) => {
+    setForm({ current: '', next: '', confirm: '', method: config?.method || 'pin' });
+    setDialog(type);
+  };
+
+  const validate = () => {
+    if (form.method === 'pin' && !PIN_PATTERN.test(form.next)) {
+      onMessage('PIN 需为 4-8 位数字', 'error');
+      return false;
+    }
+    if (form.method === 'passphrase' && form.next.length < MIN_PASSPHRASE_LENGTH) {
+      onMessage(`口令至少需要 ${MIN_PASSPHRASE_LENGTH} 个字符`, 'error');
+      return false;
+    }
+    if (form.next !== form.confirm) {
+      onMessage('两次输入不一致', 'error');
+      return false;
+    }
+    return true;
+  };
+
+  const handleSubmit = async () => {
+    setWorking(true);
+    try {
+      // 已启用时修改或关闭都需要先验证当前PIN/口令
+      if (config?.enabled && !(await appLock.verify(form.current))) {
+        onMessage('当前 PIN 或口令不正确', 'error');
+        return;
+      }
+      if (dialog === 'setup') {
+        if (!validate()) return;
+        await appLock.setSecret(form.next, form.method);
+        onMessage(config?.enabled ? '应用锁已更新' : '应用锁已开启', 'success');
+      } else if (dialog === 'disable') {
+        await appLock.disable();
+        onMessage('应用锁已关闭', 'info');
+      }
+      setDialog(null);
+      refresh();
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleUpdate = async (updates: Partial<Pick<AppLockConfig, 'idleTimeoutMinutes' | 'lockOnBackground'>>) => {
+    await appLock.updateConfig(updates);
+    refresh();
+  };
+
+  return (
+    <>
+      {/* 应用锁开关 */}
+      <div className="flex items-center justify-between p-24 border-b border-neutral-mist">
+        <div className="flex items-center gap-12">
+          <Smartphone className="w-5 h-5 text-neutral-stone" />
+          <div>
+            <div className="text-body text-neutral-dark">应用锁</div>
+            <div className="text-caption text-neutral-stone">
+              {config?.enabled
+                ? `已开启 · 使用${config.method === 'pin' ? ' PIN ' : '口令'}解锁`
+                : '打开应用时需要验证'}
+            </div>
+          </div>
+        </div>
+        {config?.enabled ? (
+          <button
+            onClick={() => appLock.lock()}
+            className="px-16 py-8 rounded-full bg-primary-50 text-primary-700 text-body-small hover:bg-primary-100 transition-colors"
+          >
+            立即锁定
+          </button>
+        ) : (
+          <button
+            onClick={() => openDialog('setup')}
+            className="px-16 py-8 rounded-full bg-primary-50 text-primary-700 text-body-small hover:bg-primary-100 transition-colors"
+          >
+            开启
+          </button>
+        )}
+      </div>
+
+      {config?.enabled && (
+        <div className="p-24 border-b border-neutral-mist space-y-16">
+          {/* 空闲自动锁定 */}
+          <div className="flex items-center justify-between">
+            <span className="text-body-small text-neutral-dark">空闲自动锁定</span>
+            <select
+              value={config.idleTimeoutMinutes}
+              onChange={(e) => handleUpdate({ idleTimeoutMinutes: Number(e.target.value) })}
+              className="px-12 py-4 rounded-lg border border-neutral-mist text-caption focus:outline-none focus:ring-2 focus:ring-primary-300"
+            >
+              {IDLE_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>
+                  {minutes === 0 ? '从不' : `${minutes} 分钟`}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* 切到后台时锁定 */}
+          <div className="flex items-center justify-between">
+            <span className="text-body-small text-neutral-dark">切到后台时锁定</span>
+            <button
+              onClick={() => handleUpdate({ lockOnBackground: !config.lockOnBackground })}
+              className={`
+                relative w-12 h-7 rounded-full transition-colors duration-normal
+                ${config.lockOnBackground ? 'bg-primary-500' : 'bg-neutral-mist'}
+              `}
+            >
+              <div className={`
+                absolute top-1 w-5 h-5 rounded-full bg-white shadow-sm transition-transform duration-normal
+                ${config.lockOnBackground ? 'translate-x-[22px]' : 'translate-x-1'}
+              `} />
+            </button>
+          </div>
+
+          <div className="flex gap-12">
+            <button
+              onClick={() => openDialog('setup')}
+              className="text-caption text-primary-500 hover:text-primary-600 underline"
+            >
+              更换 PIN/口令
+            </button>
+            <button
+              onClick={() => openDialog('disable')}
+              className="text-caption text-semantic-error hover:opacity-80 underline"
+            >
+              关闭应用锁
+            </button>
+          </div>
+        </div>
+      )}
+
+      <Modal
+        isOpen={dialog !== null}
+        onClose={() => !working && setDialog(null)}
+        title={dialog === 'disable' ? '关闭应用锁' : config?.enabled ? '更换 PIN/口令' : '开启应用锁'}
+        size="sm"
+      >
+        <div className="p-6 space-y-4">
+          {config?.enabled && (
+            <input
+              type="password"
+              value={form.current}
+              onChange={(e) => setForm({ ...form, current: e.target.value })}
+              placeholder="当前 PIN 或口令"
+              className={inputClassName}
+            />
+          )}
+          {dialog === 'setup' && (
+            <>
+              <div className="flex gap-8">
+                {(['pin', 'passphrase'] as AppLockMethod[]).map(method => (
+                  <button
+                    key={method}
+                    onClick={() => setForm({ ...form, method, next: '', confirm: '' })}
+                    className={`px-12 py-4 rounded-full text-caption transition-colors ${
+                      form.method === method
+                        ? 'bg-primary-500 text-white'
+                        : 'bg-neutral-cloud text-neutral-earth hover:bg-primary-50'
+                    }`}
+                  >
+                    {method === 'pin' ? '数字 PIN' : '口令'}
+                  </button>
+                ))}
+              </div>
+              <input
+                type="password"
+                inputMode={form.method === 'pin' ? 'numeric' : undefined}
+                value={form.next}
+                onChange={(e) => setForm({ ...form, next: e.target.value })}
+                placeholder={form.method === 'pin' ? '4-8 位数字' : '新口令'}
+                className={inputClassName}
+              />
+              <input
+                type="password"
+                inputMode={form.method === 'pin' ? 'numeric' : undefined}
+                value={form.confirm}
+                onChange={(e) => setForm({ ...form, confirm: e.target.value })}
+                placeholder="再次输入"
+                className={inputClassName}
+              />
+            </>
+          )}
+          <div className="flex justify-end gap-3">
+            <Button variant="secondary" size="sm" onClick={() => setDialog(null)} disabled={working}>
+              取消
+            </Button>
+            <Button size="sm" onClick={handleSubmit} loading={working}>
+              确定
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </>
+  );
+};
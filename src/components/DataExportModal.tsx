@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { X, Download, Calendar, FileText, Database } from 'lucide-react';
+import { X, Download, Calendar, FileText, Database, Lock } from 'lucide-react';
 import { exportDB, type ExportOptions, type ExportData } from '../lib/storage';
-import { recordsDB } from '../lib/storage';
+import { recordsDB, isRecordLocked } from '../lib/storage';
+import { VaultUnlockModal } from './VaultUnlockModal';
 
 interface DataExportModalProps {
   isOpen: boolean;
@@ -18,6 +19,10 @@ export const DataExportModal: React.FC<DataExportModalProps> = ({ isOpen, onClos
   const [isExporting, setIsExporting] = useState(false);
   const [preview, setPreview] = useState<ExportData | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [showUnlock, setShowUnlock] = useState(false);
+
+  // 日记库锁定时加密记录没有正文，需先解锁再导出，避免备份中缺少内容
+  const lockedCount = preview ? preview.records.filter(isRecordLocked).length : 0;
 
   // 获取最早和最晚记录日期
   useEffect(() => {
@@ -69,7 +74,7 @@ export const DataExportModal: React.FC<DataExportModalProps> = ({ isOpen, onClos
   };
 
   const handleExport = async () => {
-    if (!preview) return;
+    if (!preview || lockedCount > 0) return;
 
     setIsExporting(true);
     setError(null);
@@ -274,6 +279,22 @@ export const DataExportModal: React.FC<DataExportModalProps> = ({ isOpen, onClos
             </div>
           )}
 
+          {/* 加密记录锁定提示 */}
+          {lockedCount > 0 && (
+            <div className="p-16 rounded-xl bg-primary-50 text-body-small text-neutral-earth">
+              <div className="flex items-center gap-8 mb-8">
+                <Lock className="w-4 h-4 text-primary-700" />
+                <span>有 {lockedCount} 条加密记录处于锁定状态，导出后将没有正文。请先解锁日记库再导出。</span>
+              </div>
+              <button
+                onClick={() => setShowUnlock(true)}
+                className="px-16 py-8 rounded-full bg-white text-primary-700 hover:bg-primary-100 transition-colors"
+              >
+                解锁日记库
+              </button>
+            </div>
+          )}
+
           {/* 错误信息 */}
           {error && (
             <div className="p-16 rounded-xl bg-red-50 text-red-600 text-body-small">
@@ -292,7 +313,7 @@ export const DataExportModal: React.FC<DataExportModalProps> = ({ isOpen, onClos
             
             <button
               onClick={handleExport}
-              disabled={isExporting || !preview}
+              disabled={isExporting || !preview || lockedCount > 0}
               className="flex-1 px-24 py-16 rounded-full bg-primary-500 text-white hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-8"
             >
               {isExporting ? (
@@ -310,6 +331,8 @@ export const DataExportModal: React.FC<DataExportModalProps> = ({ isOpen, onClos
           </div>
         </div>
       </div>
+
+      <VaultUnlockModal isOpen={showUnlock} onClose={() => setShowUnlock(false)} onUnlocked={loadPreview} />
     </div>
   );
 };
\ No newline at end of file
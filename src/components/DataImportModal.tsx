@@ -1,13 +1,14 @@
 import React, { useState, useRef } from 'react';
 import { X, Upload, FileText, AlertTriangle, CheckCircle, Database } from 'lucide-react';
-import { recordsDB, tagsDB, settingsDB, statsDB, recordStore, tagStore, DEFAULT_TAGS } from '../lib/storage';
+import { recordsDB, tagsDB, settingsDB, statsDB, trashDB, revisionsDB, tagStore, DEFAULT_TAGS } from '../lib/storage';
 import type { ExportData } from '../lib/storage';
+import { migrateRecord, migrateTag } from '../lib/migrations';
 import type { DailyRecord, Tag, UserSettings, UserStats } from '../types';
 
 interface DataImportModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onImportComplete?: () => void;
+  onImportComplete?: (undo?: () => Promise<void>) => void;
 }
 
 interface ImportPreview {
@@ -219,23 +220,38 @@ export const DataImportModal: React.FC<DataImportModalProps> = ({
       const results = {
         recordsImported: 0,
         recordsSkipped: 0,
+        revisionsImported: 0,
         tagsImported: 0,
         tagsSkipped: 0,
         settingsImported: false,
         statsImported: false
       };
 
+      // 旧版本导出文件没有结构版本号，视为版本0
+      const sourceSchemaVersion = preview.data.exportInfo.schemaVersion ?? 0;
+
+      // 覆盖导入前的数据快照，用于撤销
+      let undo: (() => Promise<void>) | undefined;
+
       // 如果是完全覆盖策略，先清空现有数据
       if (importOptions.strategy === 'overwrite') {
         try {
-          // 清空所有记录
-          const allRecords = await recordsDB.getAll();
-          for (const record of allRecords) {
-            await recordStore.removeItem(record.id);
-          }
+          const previousTags = await tagsDB.getAll();
+          const previousSettings = await settingsDB.get();
+
+          // 现有记录整体移入回收站
+          const batchId = await recordsDB.trashAll();
           
           // 清空所有标签（保留默认标签）
           await tagStore.setItem('tags', DEFAULT_TAGS);
+
+          undo = async () => {
+            await recordsDB.clear();
+            await trashDB.restoreBatch(batchId);
+            await tagStore.setItem('tags', previousTags);
+            await settingsDB.update(previousSettings);
+            await statsDB.calculateStats();
+          };
           
         } catch (error) {
           setImportResult({
@@ -252,18 +268,8 @@ export const DataImportModal: React.FC<DataImportModalProps> = ({
       if (importOptions.importRecords && preview.data.records) {
         for (const record of preview.data.records) {
           try {
-            // 确保记录有必要的字段
-            const validatedRecord = {
-              ...record,
-              // 确保这些字段存在，如果不存在则使用默认值
-              id: record.id || `record_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-              date: record.date || new Date().toISOString(),
-              createdAt: record.createdAt || Date.now(),
-              content: record.content || '',
-              tags: Array.isArray(record.tags) ? record.tags : [],
-              isPrivate: Boolean(record.isPrivate),
-              isFavorite: Boolean(record.isFavorite),
-            };
+            // 按备份文件的结构版本升级记录
+            const validatedRecord = migrateRecord(record, sourceSchemaVersion);
 
             const existingRecord = await recordsDB.getById(validatedRecord.id);
             
@@ -277,15 +283,14 @@ export const DataImportModal: React.FC<DataImportModalProps> = ({
                   results.recordsImported++;
                   break;
                 case 'overwrite':
-                  await recordsDB.delete(validatedRecord.id);
                   // 直接存储，不使用create方法避免重新生成ID和时间
-                  await recordStore.setItem(validatedRecord.id, validatedRecord);
+                  await recordsDB.put(validatedRecord);
                   results.recordsImported++;
                   break;
               }
             } else {
               // 直接存储，不使用create方法避免重新生成ID和时间
-              await recordStore.setItem(validatedRecord.id, validatedRecord);
+              await recordsDB.put(validatedRecord);
               results.recordsImported++;
             }
           } catch (error) {
@@ -295,18 +300,21 @@ export const DataImportModal: React.FC<DataImportModalProps> = ({
         }
       }
 
+      // 导入修订历史
+      if (importOptions.importRecords && Array.isArray(preview.data.revisions)) {
+        try {
+          results.revisionsImported = await revisionsDB.importMany(preview.data.revisions);
+        } catch (error) {
+          console.error('Error importing revisions:', error);
+        }
+      }
+
       // 导入标签
       if (importOptions.importTags && preview.data.tags) {
         for (const tag of preview.data.tags) {
           try {
-            // 确保标签有必要的字段
-            const validatedTag = {
-              ...tag,
-              id: tag.id || `tag_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-              name: tag.name || '未命名标签',
-              color: tag.color || 'linear-gradient(135deg, #667eea, #764ba2)',
-              isCustom: Boolean(tag.isCustom),
-            };
+            // 按备份文件的结构版本升级标签
+            const validatedTag = migrateTag(tag, sourceSchemaVersion);
 
             const existingTag = await tagsDB.getById(validatedTag.id);
             
@@ -396,7 +404,7 @@ export const DataImportModal: React.FC<DataImportModalProps> = ({
       // 延迟关闭并刷新
       setTimeout(() => {
         onClose();
-        onImportComplete?.();
+        onImportComplete?.(undo);
       }, 2000);
 
     } catch (error) {
@@ -522,6 +530,9 @@ export const DataImportModal: React.FC<DataImportModalProps> = ({
                     <div className="space-y-4 text-body-small text-neutral-stone">
                       <div>导出时间: {new Date(preview.data.exportInfo.exportDate).toLocaleString('zh-CN')}</div>
                       <div>记录数量: {preview.data.records.length} 条</div>
+                      {preview.data.revisions && preview.data.revisions.length > 0 && (
+                        <div>修订历史: {preview.data.revisions.length} 条</div>
+                      )}
                       <div>标签数量: {preview.data.tags?.length || 0} 个</div>
                       <div>时间范围: {new Date(preview.data.exportInfo.dateRange.start).toLocaleDateString('zh-CN')} 至 {new Date(preview.data.exportInfo.dateRange.end).toLocaleDateString('zh-CN')}</div>
                       
@@ -606,7 +617,7 @@ export const DataImportModal: React.FC<DataImportModalProps> = ({
                           value: 'overwrite', 
                           label: '完全覆盖', 
                           desc: '清空现有数据，导入所有内容',
-                          detail: '⚠️ 警告：将删除所有现有记录和设置！',
+                          detail: '⚠️ 警告：现有记录将移入回收站，标签和设置将被替换！',
                           warning: true
                         }
                       ].map((option) => (
@@ -646,7 +657,7 @@ export const DataImportModal: React.FC<DataImportModalProps> = ({
                           <span className="text-body-small font-medium">确认完全覆盖</span>
                         </div>
                         <div className="text-body-small text-red-500 mt-4">
-                          此操作将清空所有现有数据（记录、标签、设置），请确保已备份重要数据。
+                          此操作将清空所有现有数据（记录、标签、设置），导入后可立即撤销，记录也可在回收站中恢复。
                         </div>
                       </div>
                     )}
@@ -725,6 +736,9 @@ export const DataImportModal: React.FC<DataImportModalProps> = ({
                   {importResult.details.recordsSkipped > 0 && (
                     <div>记录跳过: {importResult.details.recordsSkipped} 条</div>
                   )}
+                  {importResult.details.revisionsImported > 0 && (
+                    <div>修订历史导入: {importResult.details.revisionsImported} 条</div>
+                  )}
                   <div>标签导入: {importResult.details.tagsImported} 个</div>
                   {importResult.details.settingsImported && (
                     <div>设置已更新</div>
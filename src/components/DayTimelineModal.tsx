@@ -0,0 +1,142 @@
+import React, { useState, useEffect } from 'react';
+import { Clock, TrendingUp, TrendingDown, Minus, Lock } from 'lucide-react';
+import { Modal } from './Modal';
+import { recordsDB, DEFAULT_TAGS, isRecordLocked } from '../lib/storage';
+import { aggregateDay, getTimeOfDay } from '../lib/dailyAggregate';
+import { parseDayKey } from '../lib/dates';
+import type { DailyAggregate, DailyRecord, EmotionAnalysis } from '../types';
+
+interface DayTimelineModalProps {
+  isOpen: boolean;
+  day: string | null; // 本地日历日 YYYY-MM-DD
+  onClose: () => void;
+}
+
+const EMOTION_LABELS: Array<{ key: keyof EmotionAnalysis; label: string; color: string }> = [
+  { key: 'calmness', label: '平静', color: 'bg-blue-400' },
+  { key: 'positivity', label: '积极', color: 'bg-green-400' },
+  { key: 'energy', label: '能量', color: 'bg-orange-400' },
+];
+
+// 两条记录之间积极度变化超过此值视为明显起伏
+const SWING_THRESHOLD = 15;
+
+function formatTime(date: string): string {
+  return new Date(date).toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit', hour12: false });
+}
+
+function getTagName(tagId: string): string {
+  return DEFAULT_TAGS.find(tag => tag.id === tagId)?.name || tagId;
+}
+
+const EmotionBars: React.FC<{ values: Partial<EmotionAnalysis> }> = ({ values }) => (
+  <div className="grid grid-cols-3 gap-8">
+    {EMOTION_LABELS.map(({ key, label, color }) => (
+      <div key={key}>
+        <div className="flex justify-between text-caption text-neutral-stone mb-2">
+          <span>{label}</span>
+          <span>{values[key] ?? '-'}</span>
+        </div>
+        <div className="h-1.5 rounded-full bg-neutral-cloud overflow-hidden">
+          <div className={`h-full ${color}`} style={{ width: `${values[key] ?? 0}%` }} />
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+/**
+ * 单日时间线：按时间展示当天每条记录、情绪起伏和当天汇总
+ */
+export const DayTimelineModal: React.FC<DayTimelineModalProps> = ({ isOpen, day, onClose }) => {
+  const [records, setRecords] = useState<DailyRecord[]>([]);
+  const [aggregate, setAggregate] = useState<DailyAggregate | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !day) return;
+    recordsDB.getByDay(day).then(dayRecords => {
+      setRecords(dayRecords);
+      setAggregate(aggregateDay(day, dayRecords));
+    });
+  }, [isOpen, day]);
+
+  const title = day
+    ? parseDayKey(day).toLocaleDateString('zh-CN', { month: 'long', day: 'numeric', weekday: 'short' })
+    : '';
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={title} description="当天的心情时间线" size="lg">
+      <div className="p-6 space-y-6">
+        {/* 当天汇总 */}
+        {aggregate && aggregate.count > 0 && (
+          <div className="p-16 rounded-xl bg-gradient-to-br from-primary-50 to-secondary-100 space-y-12">
+            <div className="flex items-center justify-between text-body-small text-neutral-dark">
+              <span>共 {aggregate.count} 条记录</span>
+              {aggregate.primaryEmotion && <span>主要情绪：{getTagName(aggregate.primaryEmotion)}</span>}
+            </div>
+            {aggregate.positivity !== undefined && <EmotionBars values={aggregate} />}
+            {aggregate.swing && (
+              <div className="text-caption text-neutral-stone">
+                当天起伏：平静 ±{aggregate.swing.calmness} · 积极 ±{aggregate.swing.positivity} · 能量 ±{aggregate.swing.energy}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* 时间线 */}
+        {records.length > 0 ? (
+          <ol className="relative border-l-2 border-primary-100 ml-8 space-y-6">
+            {records.map((record, index) => {
+              const previous = records.slice(0, index).reverse().find(r => r.emotionAnalysis);
+              const delta = previous && record.emotionAnalysis
+                ? record.emotionAnalysis.positivity - previous.emotionAnalysis!.positivity
+                : null;
+              return (
+                <li key={record.id} className="ml-16">
+                  <span className="absolute -left-[7px] mt-1 w-3 h-3 rounded-full bg-primary-500" />
+                  <div className="flex items-center gap-8 text-caption text-neutral-stone mb-4">
+                    <Clock className="w-3 h-3" />
+                    <span>{getTimeOfDay(record.date)} {formatTime(record.date)}</span>
+                    {delta !== null && (
+                      <span className="flex items-center gap-2">
+                        {delta >= SWING_THRESHOLD
+                          ? <TrendingUp className="w-3 h-3 text-green-500" />
+                          : delta <= -SWING_THRESHOLD
+                            ? <TrendingDown className="w-3 h-3 text-red-500" />
+                            : <Minus className="w-3 h-3" />}
+                        {delta > 0 ? `+${delta}` : delta}
+                      </span>
+                    )}
+                  </div>
+                  {record.tags.length > 0 && (
+                    <div className="text-caption text-primary-700 mb-4">
+                      {record.tags.map(getTagName).join('、')}
+                    </div>
+                  )}
+                  <p className="text-body-small text-neutral-dark leading-relaxed mb-8">
+                    {isRecordLocked(record) ? (
+                      <span className="inline-flex items-center gap-4 text-neutral-stone">
+                        <Lock className="w-3 h-3" />
+                        此记录已加密
+                      </span>
+                    ) : (
+                      `${record.content.slice(0, 80)}${record.content.length > 80 ? '...' : ''}`
+                    )}
+                  </p>
+                  {record.emotionAnalysis && <EmotionBars values={record.emotionAnalysis} />}
+                  {record.emotionAnalysis?.emotions && record.emotionAnalysis.emotions.length > 0 && (
+                    <div className="text-caption text-neutral-stone mt-4">
+                      识别到的情绪：{record.emotionAnalysis.emotions.join('、')}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        ) : (
+          <p className="text-center text-body-small text-neutral-stone py-8">这一天没有记录</p>
+        )}
+      </div>
+    </Modal>
+  );
+};
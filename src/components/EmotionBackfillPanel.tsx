@@ -0,0 +1,89 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Sparkles } from 'lucide-react';
+import { backfillEmotionAnalysis, countPendingEmotionBackfill } from '../lib/emotionBackfill';
+import type { BackfillProgress } from '../lib/emotionBackfill';
+
+interface EmotionBackfillPanelProps {
+  onMessage: (message: string, type: 'success' | 'error' | 'info') => void;
+}
+
+/**
+ * 历史情绪重新分析：把旧记录的关键词评分替换为AI分析结果
+ */
+export const EmotionBackfillPanel: React.FC<EmotionBackfillPanelProps> = ({ onMessage }) => {
+  const [pending, setPending] = useState<number | null>(null);
+  const [progress, setProgress] = useState<BackfillProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    loadPending();
+
+    window.addEventListener('data-imported', loadPending);
+    return () => {
+      window.removeEventListener('data-imported', loadPending);
+      abortRef.current?.abort();
+    };
+  }, []);
+
+  const loadPending = async () => {
+    setPending(await countPendingEmotionBackfill());
+  };
+
+  const handleStart = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const result = await backfillEmotionAnalysis({ onProgress: setProgress, signal: controller.signal });
+      if (controller.signal.aborted) {
+        onMessage(`已停止，已重新分析 ${result.updated} 条记录`, 'info');
+      } else if (result.updated < result.total) {
+        onMessage(`已重新分析 ${result.updated} 条，其余记录暂时无法分析，可稍后重试`, 'info');
+      } else {
+        onMessage(`已重新分析 ${result.updated} 条记录`, 'success');
+      }
+    } catch (error) {
+      console.error('情绪重新分析失败:', error);
+      onMessage('情绪重新分析失败', 'error');
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+      await loadPending();
+    }
+  };
+
+  const running = progress !== null;
+
+  return (
+    <div className="flex items-center justify-between p-24 border-b border-neutral-mist">
+      <div className="flex items-center gap-12">
+        <Sparkles className="w-5 h-5 text-neutral-stone" />
+        <div>
+          <div className="text-body text-neutral-dark">重新分析历史情绪</div>
+          <div className="text-caption text-neutral-stone">
+            {running
+              ? `正在分析 ${progress.done}/${progress.total}`
+              : pending
+                ? `${pending} 条记录使用旧的关键词评分，私密记录只在本机分析`
+                : '所有可分析的记录均已更新'}
+          </div>
+        </div>
+      </div>
+      {running ? (
+        <button
+          onClick={() => abortRef.current?.abort()}
+          className="px-16 py-8 rounded-full bg-neutral-cloud text-neutral-earth text-body-small hover:bg-neutral-mist transition-colors"
+        >
+          停止
+        </button>
+      ) : (
+        <button
+          onClick={handleStart}
+          disabled={!pending}
+          className="px-16 py-8 rounded-full bg-primary-50 text-primary-700 text-body-small hover:bg-primary-100 transition-colors disabled:opacity-50"
+        >
+          开始
+        </button>
+      )}
+    </div>
+  );
+};
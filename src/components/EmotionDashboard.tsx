@@ -1,10 +1,13 @@
 import React from 'react';
 import { TrendingUp, TrendingDown, Minus, Flame, PenTool, Sparkles } from 'lucide-react';
-import type { DailyRecord, Tag } from '../types';
+import type { DailyAggregate, DailyRecord, StreakSummary, Tag } from '../types';
+import { aggregateForDay } from '../lib/dailyAggregate';
+import { computeStreakFromRecords } from '../lib/streaks';
 
 interface EmotionDashboardProps {
   records: DailyRecord[];
   tags: Tag[];
+  streak?: StreakSummary; // records 只包含部分记录时，由调用方传入全量的连续统计
 }
 
 interface EmotionData {
@@ -15,54 +18,39 @@ interface EmotionData {
 
 interface AchievementData {
   continuousDays: number;
+  freezesAvailable: number;
   weekRecords: number;
   totalRecords: number;
 }
 
-export const EmotionDashboard: React.FC<EmotionDashboardProps> = ({ records, tags }) => {
-  // 获取今日情绪状态
+export const EmotionDashboard: React.FC<EmotionDashboardProps> = ({ records, tags, streak }) => {
+  // 获取今日情绪状态（汇总当天所有记录）
   const getTodayEmotion = () => {
-    const today = new Date();
-    const todayRecords = records.filter(record => {
-      const recordDate = new Date(record.date);
-      return recordDate.toDateString() === today.toDateString();
-    });
-
-    if (todayRecords.length === 0) return null;
+    const aggregate = aggregateForDay(records, new Date());
+    if (!aggregate) return null;
     
-    const latestRecord = todayRecords[todayRecords.length - 1];
-    const selectedTagId = latestRecord.tags[0];
-    const selectedTag = tags.find(tag => tag.id === selectedTagId);
+    const selectedTag = tags.find(tag => tag.id === aggregate.primaryEmotion);
     
     return {
       tag: selectedTag,
-      record: latestRecord,
-      content: latestRecord.content
+      aggregate
     };
   };
 
-  // 获取昨日情绪对比
-  const getYesterdayComparison = (todayRecord?: DailyRecord) => {
-    if (!todayRecord || !todayRecord.emotionAnalysis) return null;
+  // 获取昨日情绪对比（比较两天的汇总情绪值）
+  const getYesterdayComparison = (todayAggregate?: DailyAggregate) => {
+    if (!todayAggregate || todayAggregate.positivity === undefined) return null;
 
     const yesterday = new Date();
     yesterday.setDate(yesterday.getDate() - 1);
     
-    const yesterdayRecords = records.filter(record => {
-      const recordDate = new Date(record.date);
-      return recordDate.toDateString() === yesterday.toDateString() && record.emotionAnalysis;
-    });
-
-    if (yesterdayRecords.length === 0) return null;
-
-    const yesterdayRecord = yesterdayRecords[yesterdayRecords.length - 1];
-    const todayAnalysis = todayRecord.emotionAnalysis;
-    const yesterdayAnalysis = yesterdayRecord.emotionAnalysis!;
+    const yesterdayAggregate = aggregateForDay(records, yesterday);
+    if (!yesterdayAggregate || yesterdayAggregate.positivity === undefined) return null;
 
     // 比较主要情绪指标
-    const calmnessDiff = todayAnalysis.calmness - yesterdayAnalysis.calmness;
-    const positivityDiff = todayAnalysis.positivity - yesterdayAnalysis.positivity;
-    const energyDiff = todayAnalysis.energy - yesterdayAnalysis.energy;
+    const calmnessDiff = todayAggregate.calmness! - yesterdayAggregate.calmness!;
+    const positivityDiff = todayAggregate.positivity - yesterdayAggregate.positivity;
+    const energyDiff = todayAggregate.energy! - yesterdayAggregate.energy!;
 
     // 简单的情绪趋势判断
     const avgDiff = (calmnessDiff + positivityDiff + energyDiff) / 3;
@@ -82,8 +70,7 @@ export const EmotionDashboard: React.FC<EmotionDashboardProps> = ({ records, tag
     const weekStart = new Date(today);
     weekStart.setDate(today.getDate() - today.getDay()); // 本周开始（周日）
     
-    // 计算连续天数（简化版，实际应该检查是否真的连续）
-    const continuousDays = records.length > 0 ? Math.min(30, records.length) : 0;
+    const { current: continuousDays, freezesAvailable } = streak || computeStreakFromRecords(records);
     
     // 本周记录数
     const weekRecords = records.filter(record => {
@@ -93,6 +80,7 @@ export const EmotionDashboard: React.FC<EmotionDashboardProps> = ({ records, tag
 
     return {
       continuousDays,
+      freezesAvailable,
       weekRecords,
       totalRecords: records.length
     };
@@ -135,7 +123,7 @@ export const EmotionDashboard: React.FC<EmotionDashboardProps> = ({ records, tag
   };
 
   const todayEmotion = getTodayEmotion();
-  const comparison = todayEmotion ? getYesterdayComparison(todayEmotion.record) : null;
+  const comparison = todayEmotion ? getYesterdayComparison(todayEmotion.aggregate) : null;
   const achievements = getAchievements();
   const weekEmotions = getWeekEmotionDistribution();
 
@@ -184,6 +172,12 @@ export const EmotionDashboard: React.FC<EmotionDashboardProps> = ({ records, tag
                 <div className="text-h3 font-semibold text-neutral-dark mb-4">
                   今天是{todayEmotion.tag?.name || '记录'}的一天
                 </div>
+                {todayEmotion.aggregate.count > 1 && (
+                  <div className="text-caption text-neutral-stone mb-4">
+                    今天记录了 {todayEmotion.aggregate.count} 次
+                    {todayEmotion.aggregate.swing && todayEmotion.aggregate.swing.positivity >= 30 && '，心情起伏较大'}
+                  </div>
+                )}
                 {comparison && (
                   <div className="flex items-center gap-8 text-body-small text-neutral-stone">
                     {getTrendIcon(comparison.trend)}
@@ -210,7 +204,9 @@ export const EmotionDashboard: React.FC<EmotionDashboardProps> = ({ records, tag
           <div className="text-display font-bold text-neutral-dark mb-4">
             {achievements.continuousDays}
           </div>
-          <div className="text-caption text-neutral-stone">连续天数</div>
+          <div className="text-caption text-neutral-stone">
+            连续天数{achievements.freezesAvailable > 0 && ` · 🛡️${achievements.freezesAvailable}`}
+          </div>
         </div>
         
         <div className="p-16 rounded-xl bg-white/90 backdrop-blur-sm shadow-sm text-center">
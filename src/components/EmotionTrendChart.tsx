@@ -2,6 +2,7 @@ import * as React from 'react';
 import { useState } from 'react';
 import * as Recharts from 'recharts';
 import type { DailyRecord } from '../types';
+import { parseDayKey } from '../lib/dates';
 
 // 使用unknown作为中间类型进行安全的类型断言
 const LineChart = Recharts.LineChart as unknown as React.ElementType;
@@ -98,7 +99,7 @@ export const EmotionTrendChart: React.FC<EmotionTrendChartProps> = ({ records, d
     if (!data) return [];
     
     return data.map(day => {
-      const date = new Date(day.date);
+      const date = parseDayKey(day.date);
       const dateStr = date.toLocaleDateString('zh-CN', { month: 'short', day: 'numeric' });
       const weekday = date.toLocaleDateString('zh-CN', { weekday: 'short' });
       
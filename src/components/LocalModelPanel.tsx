@@ -0,0 +1,156 @@
+import React, { useState, useEffect } from 'react';
+import { Laptop, Plug, Check } from 'lucide-react';
+import { Button } from './Button';
+import { aiSettingsDB } from '../lib/aiSettingsDB';
+import { getProviderAdapter } from '../lib/aiProviders';
+import { checkLocalServer, recheckSavedModels, testLocalModel } from '../lib/modelDiscovery';
+import type { LocalServerCheck, ModelHealth } from '../lib/modelDiscovery';
+import type { AIModelConfig } from '../types';
+
+interface LocalModelPanelProps {
+  models: AIModelConfig[];
+  selectedModelId?: string;
+  onMessage: (message: string, type: 'success' | 'error' | 'info') => void;
+}
+
+const inputClassName = 'w-full p-12 rounded-lg border-2 border-neutral-mist text-body focus:outline-none focus:border-primary-500 transition-colors';
+
+/**
+ * 本地模型：连接本机的 OpenAI 兼容服务（如 Ollama、LM Studio），测试连接并选择模型
+ */
+export const LocalModelPanel: React.FC<LocalModelPanelProps> = ({ models, selectedModelId, onMessage }) => {
+  const adapter = getProviderAdapter('local');
+  const savedUrl = models.find(model => model.provider === 'local')?.apiUrl;
+  const [apiUrl, setApiUrl] = useState(savedUrl || adapter.defaultApiUrl);
+  const [checking, setChecking] = useState(false);
+  const [result, setResult] = useState<LocalServerCheck | null>(null);
+  const [testing, setTesting] = useState<string | null>(null);
+  const [tests, setTests] = useState<{ [model: string]: ModelHealth }>({});
+
+  // 设置加载完成后填入已保存的地址
+  useEffect(() => {
+    if (savedUrl) setApiUrl(savedUrl);
+  }, [savedUrl]);
+
+  const findSaved = (model: string) => models.find(item =>
+    item.provider === 'local' && item.model === model && (item.apiUrl || adapter.defaultApiUrl) === (apiUrl.trim() || adapter.defaultApiUrl)
+  );
+
+  const handleCheck = async () => {
+    setChecking(true);
+    setTests({});
+    try {
+      setResult(await checkLocalServer(apiUrl));
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleTest = async (model: string) => {
+    setTesting(model);
+    try {
+      const health = await testLocalModel(apiUrl, model);
+      setTests(current => ({ ...current, [model]: health }));
+    } finally {
+      setTesting(null);
+    }
+  };
+
+  const handleUse = async (model: string) => {
+    const saved = findSaved(model);
+    if (saved) {
+      await aiSettingsDB.selectModel(saved.id);
+    } else {
+      const config: AIModelConfig = {
+        id: `model_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        provider: 'local',
+        name: `${adapter.label} ${model}`,
+        model,
+        apiUrl: apiUrl.trim() || undefined,
+        available: true,
+        status: 'unknown',
+        isBuiltin: false,
+      };
+      await aiSettingsDB.addModel(config);
+      await aiSettingsDB.selectModel(config.id);
+    }
+    window.dispatchEvent(new CustomEvent('ai-models-updated'));
+    onMessage(`已切换到本地模型 ${model}`, 'success');
+    recheckSavedModels().catch(error => console.error('模型状态检测失败:', error));
+  };
+
+  return (
+    <div className="mb-32 rounded-xl bg-white/50 border border-neutral-mist overflow-hidden">
+      <div className="flex items-center gap-12 p-24 border-b border-neutral-mist">
+        <Laptop className="w-5 h-5 text-neutral-stone" />
+        <div>
+          <div className="text-body text-neutral-dark">本地模型</div>
+          <div className="text-caption text-neutral-stone">连接本机运行的 Ollama、LM Studio 等 OpenAI 兼容服务，选择后所有AI功能都在本机完成</div>
+        </div>
+      </div>
+
+      <div className="p-16 space-y-2 border-b border-neutral-mist">
+        <div className="flex gap-8">
+          <input
+            value={apiUrl}
+            onChange={(e) => setApiUrl(e.target.value)}
+            placeholder={adapter.defaultApiUrl}
+            className={inputClassName}
+          />
+          <Button
+            variant="secondary"
+            size="sm"
+            icon={<Plug className="w-4 h-4" />}
+            onClick={handleCheck}
+            loading={checking}
+          >
+            测试连接
+          </Button>
+        </div>
+        {result?.error && <p className="text-caption text-semantic-error">{result.error}</p>}
+        {result && !result.error && (
+          <p className="text-caption text-neutral-stone">
+            {result.models.length > 0
+              ? `已连接 · ${result.latency}ms · 找到 ${result.models.length} 个模型`
+              : '已连接，但服务中还没有模型，请先下载一个模型'}
+          </p>
+        )}
+      </div>
+
+      {result?.models.map(info => {
+        const saved = findSaved(info.id);
+        const selected = Boolean(saved && saved.id === selectedModelId);
+        const health = tests[info.id];
+        return (
+          <div key={info.id} className="flex items-center justify-between gap-12 p-16 border-b border-neutral-mist last:border-b-0">
+            <div className="min-w-0">
+              <div className="text-body text-neutral-dark truncate">{info.name}</div>
+              <div className={`text-caption ${health?.error ? 'text-semantic-error' : 'text-neutral-stone'}`}>
+                {testing === info.id
+                  ? '测试中，首次加载模型可能需要几分钟...'
+                  : health
+                  ? health.error || `回应正常 · ${(health.latency / 1000).toFixed(1)}秒`
+                  : info.description || '尚未测试'}
+              </div>
+            </div>
+            <div className="flex items-center gap-8 flex-shrink-0">
+              <Button variant="ghost" size="sm" onClick={() => handleTest(info.id)} disabled={testing !== null}>
+                测试
+              </Button>
+              {selected ? (
+                <span className="flex items-center gap-4 text-caption text-primary-700">
+                  <Check className="w-4 h-4" />
+                  使用中
+                </span>
+              ) : (
+                <Button size="sm" onClick={() => handleUse(info.id)}>
+                  使用
+                </Button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
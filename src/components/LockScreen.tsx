@@ -0,0 +1,123 @@
+import React, { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { Lock, Delete } from 'lucide-react';
+import { Button } from './Button';
+import { AppLock } from '../lib/security';
+
+const PIN_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '', '0', 'del'];
+
+const appLock = AppLock.getInstance();
+
+/**
+ * 应用锁屏：覆盖在所有视图之上，解锁前不渲染任何记录内容
+ * 与弹窗一样渲染到 body 下，层级高于弹窗（z-50），锁定时打开着的弹窗也被遮住
+ */
+export const LockScreen: React.FC = () => {
+  const method = appLock.getConfig()?.method || 'pin';
+  const [secret, setSecret] = useState('');
+  const [error, setError] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [cooldown, setCooldown] = useState(appLock.getCooldownRemaining());
+
+  // 冷却倒计时
+  useEffect(() => {
+    if (cooldown <= 0) return;
+    const timer = setTimeout(() => setCooldown(appLock.getCooldownRemaining()), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  const handleUnlock = async (value: string = secret) => {
+    if (!value || checking) return;
+    setChecking(true);
+    const success = await appLock.unlock(value);
+    setChecking(false);
+    if (!success) {
+      setSecret('');
+      const remaining = appLock.getCooldownRemaining();
+      setCooldown(remaining);
+      setError(remaining > 0 ? '尝试次数过多' : method === 'pin' ? 'PIN 不正确' : '口令不正确');
+    }
+  };
+
+  const handlePinKey = (key: string) => {
+    if (cooldown > 0 || checking) return;
+    setError('');
+    if (key === 'del') {
+      setSecret(secret.slice(0, -1));
+      return;
+    }
+    setSecret(secret + key);
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[60] bg-gradient-calm flex items-center justify-center px-24">
+      <div className="w-full max-w-[320px] text-center">
+        <div className="w-16 h-16 mx-auto rounded-full bg-gradient-primary flex items-center justify-center mb-24">
+          <Lock className="w-8 h-8 text-white" />
+        </div>
+        <h1 className="text-h2 font-semibold text-neutral-dark mb-8">心迹已锁定</h1>
+        <p className="text-body-small text-neutral-stone mb-24">
+          {cooldown > 0
+            ? `请 ${Math.ceil(cooldown / 1000)} 秒后再试`
+            : method === 'pin' ? '输入 PIN 解锁' : '输入口令解锁'}
+        </p>
+
+        {method === 'pin' ? (
+          <>
+            {/* PIN 输入进度 */}
+            <div className="flex justify-center gap-12 mb-24 h-4">
+              {secret.split('').map((_, index) => (
+                <div key={index} className="w-3 h-3 rounded-full bg-primary-500" />
+              ))}
+            </div>
+            <div className="grid grid-cols-3 gap-12 mb-16">
+              {PIN_KEYS.map((key, index) => (
+                key ? (
+                  <button
+                    key={index}
+                    onClick={() => handlePinKey(key)}
+                    disabled={cooldown > 0}
+                    className="h-16 rounded-full bg-white/80 text-h3 text-neutral-dark shadow-sm hover:bg-white active:scale-95 transition-all disabled:opacity-50 flex items-center justify-center"
+                    aria-label={key === 'del' ? '删除' : key}
+                  >
+                    {key === 'del' ? <Delete className="w-6 h-6" /> : key}
+                  </button>
+                ) : (
+                  <div key={index} />
+                )
+              ))}
+            </div>
+          </>
+        ) : (
+          <input
+            type="password"
+            value={secret}
+            autoFocus
+            disabled={cooldown > 0}
+            onChange={(e) => {
+              setError('');
+              setSecret(e.target.value);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleUnlock();
+            }}
+            placeholder="口令"
+            className="w-full p-12 mb-16 rounded-lg border-2 border-neutral-mist text-body focus:outline-none focus:border-primary-500 transition-colors"
+          />
+        )}
+
+        {error && <p className="text-body-small text-semantic-error mb-16">{error}</p>}
+
+        <Button
+          fullWidth
+          onClick={() => handleUnlock()}
+          loading={checking}
+          disabled={!secret || cooldown > 0}
+        >
+          解锁
+        </Button>
+      </div>
+    </div>,
+    document.body
+  );
+};
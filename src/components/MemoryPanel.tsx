@@ -0,0 +1,195 @@
+import React, { useState, useEffect } from 'react';
+import { Brain, RefreshCw, Pencil, Trash2, Plus, Check, X } from 'lucide-react';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { memoryDB } from '../lib/memory';
+import type { AIMemory } from '../types';
+
+interface MemoryPanelProps {
+  onMessage: (message: string, type: 'success' | 'error' | 'info') => void;
+}
+
+const inputClassName = 'w-full p-12 rounded-lg border-2 border-neutral-mist text-body focus:outline-none focus:border-primary-500 transition-colors';
+
+/**
+ * AI记忆：查看、修改和清空AI回应时参考的用户近况
+ */
+export const MemoryPanel: React.FC<MemoryPanelProps> = ({ onMessage }) => {
+  const [memory, setMemory] = useState<AIMemory | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [showClear, setShowClear] = useState(false);
+
+  useEffect(() => {
+    memoryDB.refresh()
+      .catch(() => memoryDB.get())
+      .then(setMemory);
+  }, []);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      setMemory(await memoryDB.refresh());
+      onMessage('已根据最近的记录重新整理', 'success');
+    } catch (error) {
+      console.error('整理AI记忆失败:', error);
+      onMessage('整理AI记忆失败', 'error');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const startEditing = (key: string, text: string) => {
+    setEditingKey(key);
+    setDraft(text);
+  };
+
+  const handleSaveEdit = async () => {
+    const text = draft.trim();
+    if (!editingKey) return;
+    if (editingKey === 'new') {
+      if (text) setMemory(await memoryDB.addEntry(text));
+    } else if (text) {
+      setMemory(await memoryDB.updateEntry(editingKey, text));
+    } else {
+      setMemory(await memoryDB.removeEntry(editingKey));
+    }
+    setEditingKey(null);
+  };
+
+  const handleClear = async () => {
+    setMemory(await memoryDB.clear());
+    setShowClear(false);
+    onMessage('AI记忆已清空', 'info');
+  };
+
+  const enabled = memory?.enabled !== false;
+
+  const renderEditor = () => (
+    <div className="flex items-center gap-8 p-16 border-b border-neutral-mist">
+      <input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.nativeEvent.isComposing) handleSaveEdit();
+        }}
+        placeholder="比如：这周在准备期末考试"
+        className={inputClassName}
+        autoFocus
+      />
+      <button
+        onClick={handleSaveEdit}
+        className="p-8 rounded-full text-primary-700 hover:bg-primary-50 transition-colors"
+        aria-label="保存"
+      >
+        <Check className="w-4 h-4" />
+      </button>
+      <button
+        onClick={() => setEditingKey(null)}
+        className="p-8 rounded-full text-neutral-stone hover:bg-neutral-cloud transition-colors"
+        aria-label="取消"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="mb-32 rounded-xl bg-white/50 border border-neutral-mist overflow-hidden">
+      <div className="flex items-center justify-between p-24 border-b border-neutral-mist">
+        <div className="flex items-center gap-12">
+          <Brain className="w-5 h-5 text-neutral-stone" />
+          <div>
+            <div className="text-body text-neutral-dark">AI记忆</div>
+            <div className="text-caption text-neutral-stone">根据最近两周的公开记录在本机整理，私密记录不会被记住</div>
+          </div>
+        </div>
+        <button
+          onClick={async () => setMemory(await memoryDB.setEnabled(!enabled))}
+          className={`
+            relative w-12 h-7 rounded-full transition-colors duration-normal flex-shrink-0
+            ${enabled ? 'bg-primary-500' : 'bg-neutral-mist'}
+          `}
+          aria-label={enabled ? '关闭AI记忆' : '开启AI记忆'}
+        >
+          <div className={`
+            absolute top-1 w-5 h-5 rounded-full bg-white shadow-sm transition-transform duration-normal
+            ${enabled ? 'translate-x-[22px]' : 'translate-x-1'}
+          `} />
+        </button>
+      </div>
+
+      {enabled && (
+        <>
+          {memory?.entries.map(entry => (
+            editingKey === entry.key ? (
+              <React.Fragment key={entry.key}>{renderEditor()}</React.Fragment>
+            ) : (
+              <div key={entry.key} className="flex items-center justify-between gap-12 p-16 border-b border-neutral-mist">
+                <div className="min-w-0">
+                  <div className="text-body-small text-neutral-dark">{entry.text}</div>
+                  <div className="text-caption text-neutral-stone">{entry.source === 'auto' ? '自动整理' : '你添加或修改的'}</div>
+                </div>
+                <div className="flex items-center flex-shrink-0">
+                  <button
+                    onClick={() => startEditing(entry.key, entry.text)}
+                    className="p-8 rounded-full text-neutral-stone hover:text-neutral-dark hover:bg-neutral-cloud transition-colors"
+                    aria-label="修改"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={async () => setMemory(await memoryDB.removeEntry(entry.key))}
+                    className="p-8 rounded-full text-neutral-stone hover:text-semantic-error hover:bg-neutral-cloud transition-colors"
+                    aria-label="删除"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            )
+          ))}
+          {memory && memory.entries.length === 0 && editingKey !== 'new' && (
+            <p className="p-16 border-b border-neutral-mist text-caption text-neutral-stone">还没有记住任何内容</p>
+          )}
+          {editingKey === 'new' && renderEditor()}
+
+          <div className="flex flex-wrap gap-8 p-16">
+            <Button variant="secondary" size="sm" icon={<Plus className="w-4 h-4" />} onClick={() => startEditing('new', '')}>
+              添加
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              icon={<RefreshCw className={`w-4 h-4 ${refreshing ? 'animate-spin' : ''}`} />}
+              onClick={handleRefresh}
+              disabled={refreshing}
+            >
+              重新整理
+            </Button>
+            <Button variant="ghost" size="sm" icon={<Trash2 className="w-4 h-4" />} onClick={() => setShowClear(true)}>
+              清空
+            </Button>
+          </div>
+        </>
+      )}
+
+      <Modal isOpen={showClear} onClose={() => setShowClear(false)} title="清空AI记忆" size="sm">
+        <div className="p-6 space-y-4">
+          <p className="text-body-small text-neutral-earth">
+            将删除所有记忆条目，包括你添加的内容。之前写下的记录不会再被整理进记忆，记录本身不受影响。
+          </p>
+          <div className="flex justify-end gap-3">
+            <Button variant="secondary" size="sm" onClick={() => setShowClear(false)}>
+              取消
+            </Button>
+            <Button size="sm" onClick={handleClear}>
+              清空
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
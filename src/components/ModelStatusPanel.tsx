@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Activity, RefreshCw } from 'lucide-react';
+import { getStatusColor, getStatusText, recheckSavedModels } from '../lib/modelDiscovery';
+import { circuitBreaker } from '../lib/circuitBreaker';
+import type { AIModelConfig } from '../types';
+
+interface ModelStatusPanelProps {
+  models: AIModelConfig[];
+  selectedModelId?: string;
+  onMessage: (message: string, type: 'success' | 'error' | 'info') => void;
+}
+
+function formatCheckedAt(timestamp?: number): string {
+  if (!timestamp) return '尚未检测';
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return '刚刚检测';
+  if (minutes < 60) return `${minutes} 分钟前检测`;
+  return new Date(timestamp).toLocaleString('zh-CN', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * 模型状态面板：展示各模型的可用状态、延迟和最近检测时间
+ */
+export const ModelStatusPanel: React.FC<ModelStatusPanelProps> = ({ models, selectedModelId, onMessage }) => {
+  const [checking, setChecking] = useState(false);
+
+  const handleRecheck = async () => {
+    setChecking(true);
+    try {
+      const updated = await recheckSavedModels(true);
+      const available = updated.filter(model => model.status === 'available').length;
+      onMessage(`检测完成：${available}/${updated.length} 个模型可用`, available > 0 ? 'success' : 'info');
+    } catch (error) {
+      console.error('模型检测失败:', error);
+      onMessage('模型检测失败', 'error');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  if (models.length === 0) return null;
+
+  return (
+    <div className="mb-32 rounded-xl bg-white/50 border border-neutral-mist overflow-hidden">
+      <div className="flex items-center justify-between p-24 border-b border-neutral-mist">
+        <div className="flex items-center gap-12">
+          <Activity className="w-5 h-5 text-neutral-stone" />
+          <div>
+            <div className="text-body text-neutral-dark">模型状态</div>
+            <div className="text-caption text-neutral-stone">后台每半小时自动复查</div>
+          </div>
+        </div>
+        <button
+          onClick={handleRecheck}
+          disabled={checking}
+          className="flex items-center gap-4 px-16 py-8 rounded-full bg-primary-50 text-primary-700 text-body-small hover:bg-primary-100 transition-colors disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${checking ? 'animate-spin' : ''}`} />
+          立即检测
+        </button>
+      </div>
+
+      {models.map(model => {
+        const status = model.status || 'unknown';
+        return (
+          <div key={model.id} className="flex items-center justify-between gap-12 p-16 border-b border-neutral-mist last:border-b-0">
+            <div className="min-w-0">
+              <div className="text-body-small text-neutral-dark truncate">
+                {model.name}
+                {model.id === selectedModelId && <span className="ml-8 text-caption text-primary-500">使用中</span>}
+                {circuitBreaker.getState(model.id) === 'open' && (
+                  <span className="ml-8 text-caption text-semantic-warning">连续失败，暂时跳过</span>
+                )}
+              </div>
+              <div className="text-caption text-neutral-stone truncate" title={model.lastError}>
+                {formatCheckedAt(model.lastChecked)}
+                {model.lastError && status !== 'available' ? ` · ${model.lastError}` : ''}
+              </div>
+            </div>
+            <div className="flex items-center gap-8 flex-shrink-0">
+              {model.latency !== undefined && status === 'available' && (
+                <span className="text-caption text-neutral-stone">{model.latency} ms</span>
+              )}
+              <div className={`w-2 h-2 rounded-full ${getStatusColor(status)}`} />
+              <span className="text-caption text-neutral-earth">{getStatusText(status)}</span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
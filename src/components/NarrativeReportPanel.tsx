@@ -0,0 +1,219 @@
+import React, { useState, useEffect } from 'react';
+import { FileText, ChevronLeft, ChevronRight, RefreshCw, History, Sparkles } from 'lucide-react';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { generateNarrativeReport, getReportPeriod, reportsDB, shiftReportPeriod } from '../lib/narrativeReport';
+import type { NarrativeReport, ReportPeriodType } from '../types';
+
+const PERIOD_TYPES: Array<{ value: ReportPeriodType; label: string }> = [
+  { value: 'week', label: '周报' },
+  { value: 'month', label: '月报' },
+];
+
+function formatCreatedAt(timestamp: number): string {
+  return new Date(timestamp).toLocaleString('zh-CN', {
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+}
+
+/**
+ * 回顾报告：按周或按月查看AI写的情绪回顾，可重新生成和查看历史
+ */
+export const NarrativeReportPanel: React.FC = () => {
+  const [periodType, setPeriodType] = useState<ReportPeriodType>('week');
+  const [anchorDate, setAnchorDate] = useState(() => new Date());
+  const [versions, setVersions] = useState<NarrativeReport[]>([]);
+  const [versionIndex, setVersionIndex] = useState(0);
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState('');
+  const [history, setHistory] = useState<NarrativeReport[] | null>(null);
+
+  const period = getReportPeriod(periodType, anchorDate);
+  const isCurrentPeriod = period.end.getTime() >= Date.now();
+  const report = versions[versionIndex];
+
+  useEffect(() => {
+    let cancelled = false;
+    reportsDB.getVersions(periodType, period.key).then(result => {
+      if (cancelled) return;
+      setVersions(result);
+      setVersionIndex(0);
+      setError('');
+    });
+    return () => { cancelled = true; };
+  }, [periodType, period.key]);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    setError('');
+    try {
+      setVersions(await generateNarrativeReport(period));
+      setVersionIndex(0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '生成失败，请稍后再试');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const openHistory = async () => {
+    setHistory(await reportsDB.listPeriods());
+  };
+
+  const renderList = (title: string, items: string[]) => items.length > 0 && (
+    <div>
+      <h4 className="text-body-small font-semibold text-neutral-dark mb-4">{title}</h4>
+      <ul className="space-y-1">
+        {items.map((item, index) => (
+          <li key={index} className="text-body-small text-neutral-earth leading-relaxed">· {item}</li>
+        ))}
+      </ul>
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-2xl border border-neutral-mist p-24 mb-24 shadow-sm">
+      <div className="flex items-center justify-between mb-16">
+        <div className="flex items-center gap-8">
+          <FileText className="w-5 h-5 text-primary-500" />
+          <h3 className="text-h3 font-semibold text-neutral-dark">回顾报告</h3>
+        </div>
+        <div className="flex items-center gap-8">
+          <div className="flex rounded-full bg-neutral-cloud p-2">
+            {PERIOD_TYPES.map(type => (
+              <button
+                key={type.value}
+                onClick={() => setPeriodType(type.value)}
+                disabled={generating}
+                className={`px-12 py-4 rounded-full text-caption transition-colors ${
+                  periodType === type.value ? 'bg-white text-primary-700 shadow-sm' : 'text-neutral-stone'
+                }`}
+              >
+                {type.label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={openHistory}
+            disabled={generating}
+            className="p-8 rounded-full text-neutral-stone hover:text-neutral-dark hover:bg-neutral-cloud transition-colors"
+            aria-label="历史报告"
+          >
+            <History className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* 周期切换，生成期间不可切换 */}
+      <div className="flex items-center justify-between mb-16">
+        <button
+          onClick={() => setAnchorDate(shiftReportPeriod(period, -1).start)}
+          disabled={generating}
+          className="p-8 rounded-full text-neutral-stone hover:bg-neutral-cloud transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+          aria-label="上一个周期"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </button>
+        <span className="text-body-small text-neutral-dark">{period.label}</span>
+        <button
+          onClick={() => setAnchorDate(shiftReportPeriod(period, 1).start)}
+          disabled={isCurrentPeriod || generating}
+          className="p-8 rounded-full text-neutral-stone hover:bg-neutral-cloud transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+          aria-label="下一个周期"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </button>
+      </div>
+
+      {report ? (
+        <div className="space-y-4">
+          <p className="text-body text-neutral-dark leading-relaxed whitespace-pre-wrap">{report.summary}</p>
+          {renderList('这段时间的主题', report.themes)}
+          {renderList('高光时刻', report.highs)}
+          {renderList('低落的时候', report.lows)}
+          {renderList('给你的小建议', report.suggestions)}
+
+          <div className="flex flex-wrap items-center justify-between gap-8 pt-12 border-t border-neutral-mist">
+            <span className="text-caption text-neutral-stone">
+              {report.source === 'ai'
+                ? `${report.modelName ? `由 ${report.modelName} ` : ''}生成于 ${formatCreatedAt(report.createdAt)}`
+                : `AI暂不可用，根据统计在本地生成 · ${formatCreatedAt(report.createdAt)}`}
+              {` · 基于 ${report.recordCount} 条记录`}
+            </span>
+            <div className="flex items-center gap-8">
+              {versions.length > 1 && (
+                <div className="flex items-center gap-4 text-caption text-neutral-stone">
+                  <button
+                    onClick={() => setVersionIndex(versionIndex + 1)}
+                    disabled={versionIndex >= versions.length - 1}
+                    className="p-4 rounded-full hover:bg-neutral-cloud disabled:opacity-30"
+                    aria-label="更早的版本"
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                  </button>
+                  第 {versions.length - versionIndex}/{versions.length} 版
+                  <button
+                    onClick={() => setVersionIndex(versionIndex - 1)}
+                    disabled={versionIndex === 0}
+                    className="p-4 rounded-full hover:bg-neutral-cloud disabled:opacity-30"
+                    aria-label="更新的版本"
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+              <Button
+                variant="secondary"
+                size="sm"
+                icon={<RefreshCw className={`w-4 h-4 ${generating ? 'animate-spin' : ''}`} />}
+                onClick={handleGenerate}
+                disabled={generating}
+              >
+                重新生成
+              </Button>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="text-center py-16">
+          <p className="text-body-small text-neutral-stone mb-16">
+            还没有这段时间的回顾，AI会根据你的记录写一份{periodType === 'week' ? '周报' : '月报'}，私密记录的内容不会发送
+          </p>
+          <Button size="sm" icon={<Sparkles className="w-4 h-4" />} onClick={handleGenerate} loading={generating}>
+            生成回顾
+          </Button>
+        </div>
+      )}
+
+      {error && <p className="mt-12 text-caption text-semantic-error text-center">{error}</p>}
+
+      <Modal isOpen={history !== null} onClose={() => setHistory(null)} title="历史报告" size="sm">
+        <div className="p-6 space-y-2">
+          {history && history.length === 0 && (
+            <p className="text-body-small text-neutral-stone text-center py-16">还没有生成过回顾报告</p>
+          )}
+          {history?.map(item => (
+            <button
+              key={item.id}
+              onClick={() => {
+                setPeriodType(item.periodType);
+                setAnchorDate(new Date(item.periodStart));
+                setHistory(null);
+              }}
+              className="w-full text-left p-12 rounded-lg hover:bg-neutral-cloud transition-colors"
+            >
+              <div className="text-body-small text-neutral-dark">
+                {getReportPeriod(item.periodType, new Date(item.periodStart)).label} · {item.periodType === 'week' ? '周报' : '月报'}
+              </div>
+              <div className="text-caption text-neutral-stone truncate">{item.summary}</div>
+            </button>
+          ))}
+        </div>
+      </Modal>
+    </div>
+  );
+};
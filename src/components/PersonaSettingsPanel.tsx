@@ -0,0 +1,250 @@
+import React, { useState, useEffect } from 'react';
+import { Smile, Check, Plus, Pencil, Trash2, Eye } from 'lucide-react';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { aiSettingsDB } from '../lib/aiSettingsDB';
+import { aiService } from '../lib/aiService';
+import { settingsDB } from '../lib/storage';
+import {
+  DEFAULT_PERSONA_ID,
+  PROMPT_VARIABLES,
+  buildPromptVariables,
+  getAllPersonas,
+  renderPromptTemplate,
+  resolvePersona,
+} from '../lib/personas';
+import type { AIPersona, AIServiceSettings } from '../types';
+
+interface PersonaSettingsPanelProps {
+  onMessage: (message: string, type: 'success' | 'error' | 'info') => void;
+}
+
+const inputClassName = 'w-full p-12 rounded-lg border-2 border-neutral-mist text-body focus:outline-none focus:border-primary-500 transition-colors';
+
+// 预览使用的示例记录
+const SAMPLE_ENTRY = '今天加班到很晚，项目总算交付了，可是整个人好累，也不知道这样坚持下去有没有意义。';
+const SAMPLE_TAGS = ['tired'];
+const SAMPLE_TAG_NAMES = ['疲惫'];
+
+const emptyForm = (): AIPersona => ({ id: '', name: '', description: '', template: '' });
+
+/**
+ * 回应风格：选择内置风格或编写自己的提示词模板，并预览效果
+ */
+export const PersonaSettingsPanel: React.FC<PersonaSettingsPanelProps> = ({ onMessage }) => {
+  const [settings, setSettings] = useState<AIServiceSettings | null>(null);
+  const [nickname, setNickname] = useState('');
+  const [form, setForm] = useState<AIPersona | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+  const [sampleReply, setSampleReply] = useState('');
+  const [generating, setGenerating] = useState(false);
+
+  useEffect(() => {
+    loadSettings();
+    settingsDB.get().then(user => setNickname(user.nickname));
+  }, []);
+
+  const loadSettings = async () => {
+    setSettings(await aiSettingsDB.get());
+  };
+
+  const current = resolvePersona(settings);
+  const previewVariables = buildPromptVariables(nickname, SAMPLE_TAG_NAMES, new Date());
+
+  const handleSelect = async (persona: AIPersona) => {
+    await aiSettingsDB.selectPersona(persona.id);
+    setSampleReply('');
+    await loadSettings();
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    if (!form.name.trim() || !form.template.trim()) {
+      onMessage('请填写名称和提示词', 'error');
+      return;
+    }
+
+    const persona: AIPersona = {
+      ...form,
+      id: form.id || `persona_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: form.name.trim(),
+      description: form.description.trim(),
+      template: form.template.trim(),
+    };
+    await aiSettingsDB.savePersona(persona);
+    if (!form.id) await aiSettingsDB.selectPersona(persona.id);
+    setForm(null);
+    setSampleReply('');
+    await loadSettings();
+    onMessage(form.id ? `已更新 ${persona.name}` : `已添加并切换到 ${persona.name}`, 'success');
+  };
+
+  const handleDelete = async (persona: AIPersona) => {
+    await aiSettingsDB.deletePersona(persona.id);
+    await loadSettings();
+    onMessage(`已删除 ${persona.name}`, 'info');
+  };
+
+  const handleGenerateSample = async () => {
+    setGenerating(true);
+    try {
+      const result = await aiService.generateResponse({ content: SAMPLE_ENTRY, tags: SAMPLE_TAGS, personaId: current.id });
+      setSampleReply(result.response);
+      if (result.error) onMessage('AI服务暂不可用，显示的是预设回应', 'info');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const insertVariable = (key: string) => {
+    if (!form) return;
+    setForm({ ...form, template: `${form.template}{{${key}}}` });
+  };
+
+  return (
+    <div className="mb-32 rounded-xl bg-white/50 border border-neutral-mist overflow-hidden">
+      <div className="flex items-center justify-between p-24 border-b border-neutral-mist">
+        <div className="flex items-center gap-12">
+          <Smile className="w-5 h-5 text-neutral-stone" />
+          <div>
+            <div className="text-body text-neutral-dark">回应风格</div>
+            <div className="text-caption text-neutral-stone">默认风格，写记录时也可以单独更换</div>
+          </div>
+        </div>
+        <button
+          onClick={() => setForm(emptyForm())}
+          className="flex items-center gap-4 px-16 py-8 rounded-full bg-primary-50 text-primary-700 text-body-small hover:bg-primary-100 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          自定义
+        </button>
+      </div>
+
+      {getAllPersonas(settings).map(persona => {
+        const selected = persona.id === current.id;
+        return (
+          <div key={persona.id} className="flex items-center justify-between p-16 border-b border-neutral-mist">
+            <button onClick={() => handleSelect(persona)} className="flex items-center gap-12 text-left flex-1 min-w-0">
+              <div className={`w-5 h-5 rounded-full border-2 flex items-center justify-center flex-shrink-0 ${
+                selected ? 'border-primary-500 bg-primary-500' : 'border-neutral-mist'
+              }`}>
+                {selected && <Check className="w-3 h-3 text-white" />}
+              </div>
+              <div className="min-w-0">
+                <div className="text-body text-neutral-dark truncate">{persona.name}</div>
+                <div className="text-caption text-neutral-stone truncate">
+                  {persona.description || (persona.isBuiltin ? '内置风格' : '自定义风格')}
+                </div>
+              </div>
+            </button>
+            {!persona.isBuiltin && (
+              <div className="flex items-center flex-shrink-0">
+                <button
+                  onClick={() => setForm({ ...persona })}
+                  className="p-8 rounded-full text-neutral-stone hover:text-neutral-dark hover:bg-neutral-cloud transition-colors"
+                  aria-label="编辑风格"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(persona)}
+                  className="p-8 rounded-full text-neutral-stone hover:text-semantic-error hover:bg-neutral-cloud transition-colors"
+                  aria-label="删除风格"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {/* 预览当前风格 */}
+      <div className="p-16 space-y-3">
+        <div className="flex items-center gap-8">
+          <button
+            onClick={() => setShowPreview(!showPreview)}
+            className="flex items-center gap-4 text-caption text-neutral-stone hover:text-primary-700 transition-colors"
+          >
+            <Eye className="w-4 h-4" />
+            {showPreview ? '收起提示词' : '查看提示词'}
+          </button>
+          <Button variant="secondary" size="sm" onClick={handleGenerateSample} loading={generating}>
+            生成示例回应
+          </Button>
+        </div>
+        {showPreview && (
+          <pre className="p-12 rounded-lg bg-neutral-cloud text-caption text-neutral-earth whitespace-pre-wrap font-sans">
+            {renderPromptTemplate(current.template, previewVariables)}
+          </pre>
+        )}
+        {sampleReply && (
+          <div className="p-12 rounded-lg bg-gradient-to-br from-primary-50 to-secondary-100">
+            <p className="text-caption text-neutral-stone mb-4">示例记录：{SAMPLE_ENTRY}</p>
+            <p className="text-body-small text-neutral-dark leading-relaxed">{sampleReply}</p>
+          </div>
+        )}
+      </div>
+
+      <Modal isOpen={form !== null} onClose={() => setForm(null)} title={form?.id ? '编辑风格' : '自定义风格'} size="lg">
+        {form && (
+          <div className="p-6 space-y-4">
+            <input
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="名称，如 睡前聊天"
+              className={inputClassName}
+            />
+            <input
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              placeholder="简短说明（可选）"
+              className={inputClassName}
+            />
+            <textarea
+              value={form.template}
+              onChange={(e) => setForm({ ...form, template: e.target.value })}
+              placeholder="系统提示词，描述AI的身份、语气和回应长度"
+              rows={8}
+              className={`${inputClassName} resize-y`}
+            />
+            <div className="flex flex-wrap items-center gap-8">
+              <span className="text-caption text-neutral-stone">插入变量：</span>
+              {PROMPT_VARIABLES.map(variable => (
+                <button
+                  key={variable.key}
+                  onClick={() => insertVariable(variable.key)}
+                  className="px-8 py-4 rounded-full bg-primary-50 text-caption text-primary-700 hover:bg-primary-100 transition-colors"
+                >
+                  {variable.label} {`{{${variable.key}}}`}
+                </button>
+              ))}
+            </div>
+            {form.template.trim() && (
+              <pre className="p-12 rounded-lg bg-neutral-cloud text-caption text-neutral-earth whitespace-pre-wrap font-sans max-h-48 overflow-y-auto">
+                {renderPromptTemplate(form.template, previewVariables)}
+              </pre>
+            )}
+            <div className="flex justify-end gap-3">
+              {!form.id && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setForm({ ...form, template: resolvePersona(settings, DEFAULT_PERSONA_ID).template })}
+                >
+                  以温柔陪伴为模板
+                </Button>
+              )}
+              <Button variant="secondary" size="sm" onClick={() => setForm(null)}>
+                取消
+              </Button>
+              <Button size="sm" onClick={handleSave}>
+                保存
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
@@ -1,21 +1,48 @@
 import React, { useState, useMemo } from 'react';
-import { Heart, MessageCircle, ChevronDown, ChevronUp } from 'lucide-react';
+import { Heart, MessageCircle, MessagesSquare, ChevronDown, ChevronUp, Trash2, Pencil, History, Lock, CloudOff } from 'lucide-react';
 import type { DailyRecord } from '../types';
 import { EmotionTag } from './EmotionTag';
-import { DEFAULT_TAGS } from '../lib/storage';
+import { RecordHistoryModal } from './RecordHistoryModal';
+import { RecordThreadModal } from './RecordThreadModal';
+import { VaultUnlockModal } from './VaultUnlockModal';
+import { SafetyResourcesCard } from './SafetyResourcesCard';
+import { DEFAULT_TAGS, isRecordLocked } from '../lib/storage';
+import { useAppLocked } from '../hooks/use-app-lock';
+import { toDateTimeLocalValue, getEntryTiming } from '../lib/dates';
+import { assessRisk } from '../lib/crisisDetection';
+import type { SnippetSegment } from '../lib/search';
 
 interface RecordCardProps {
   record: DailyRecord;
   onToggleFavorite?: (id: string) => void;
+  onDelete?: (id: string) => void;
+  onEdit?: (id: string, updates: Partial<DailyRecord>) => void;
+  onRestoreRevision?: (recordId: string, revisionId: string) => void;
   defaultExpanded?: boolean;
+  snippet?: SnippetSegment[]; // 搜索命中的高亮摘要
 }
 
 export const RecordCard: React.FC<RecordCardProps> = ({
   record,
   onToggleFavorite,
+  onDelete,
+  onEdit,
+  onRestoreRevision,
   defaultExpanded = false,
+  snippet,
 }) => {
   const [isExpanded, setIsExpanded] = useState(defaultExpanded);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(record.content);
+  const [draftDate, setDraftDate] = useState(toDateTimeLocalValue(record.date));
+  const [showHistory, setShowHistory] = useState(false);
+  const [showThread, setShowThread] = useState(false);
+  const [showUnlock, setShowUnlock] = useState(false);
+  const locked = isRecordLocked(record);
+  // 应用锁定时隐藏内容，避免在后台任务预览中泄露
+  const appLocked = useAppLocked();
+  // 含有高风险表达的记录展开时附上求助热线
+  const highRisk = useMemo(() => !locked && assessRisk(record.content).level === 'high', [locked, record.content]);
   
   // 使用useMemo确保日期计算仅在record.date变化时重新计算
   const { dateStr, timeStr } = useMemo(() => {
@@ -38,6 +65,22 @@ export const RecordCard: React.FC<RecordCardProps> = ({
     return { dateStr: formattedDate, timeStr: formattedTime };
   }, [record.date]);
 
+  // 补记或预写的记录标出实际写下的时间
+  const timing = getEntryTiming(record.date, record.createdAt);
+  const writtenAt = new Date(record.createdAt).toLocaleString('zh-CN', {
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+
+  const startEditing = () => {
+    setDraft(record.content);
+    setDraftDate(toDateTimeLocalValue(record.date));
+    setIsEditing(true);
+  };
+
   
   const recordTags = DEFAULT_TAGS.filter(tag => record.tags.includes(tag.id));
   
@@ -50,11 +93,25 @@ export const RecordCard: React.FC<RecordCardProps> = ({
       <div className="flex items-center justify-between mb-12">
         <div className="flex items-center gap-8">
           <span className="text-caption text-neutral-stone">{dateStr} {timeStr}</span>
+          {timing && (
+            <span
+              className="px-8 py-2 rounded-full bg-accent-peach text-caption text-neutral-earth"
+              title={`写于 ${writtenAt}`}
+            >
+              {timing === 'backdated' ? '补记' : '预写'}
+            </span>
+          )}
           {record.isPrivate && (
             <span className="text-caption text-neutral-stone">私密</span>
           )}
         </div>
         <div className="flex items-center gap-12">
+          {record.aiPending && (
+            <span className="flex items-center gap-4 text-caption text-neutral-stone" title="联网后会自动生成AI回应">
+              <CloudOff className="w-4 h-4" />
+              等待回应
+            </span>
+          )}
           {record.aiResponse && (
             <div className="flex items-center gap-4">
               <MessageCircle className="w-4 h-4 text-secondary-500" />
@@ -82,6 +139,18 @@ export const RecordCard: React.FC<RecordCardProps> = ({
               }`}
             />
           </button>
+          {onDelete && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onDelete(record.id);
+              }}
+              className="p-2 transition-all hover:scale-110 active:scale-95"
+              aria-label="删除"
+            >
+              <Trash2 className="w-5 h-5 text-neutral-stone hover:text-semantic-error transition-colors" />
+            </button>
+          )}
         </div>
       </div>
       
@@ -94,13 +163,84 @@ export const RecordCard: React.FC<RecordCardProps> = ({
         </div>
       )}
       
-      {/* 内容摘要/完整内容 */}
+      {/* 编辑内容 */}
+      {appLocked ? (
+      <div className="text-body text-neutral-stone leading-relaxed mb-12">
+        内容已隐藏
+      </div>
+      ) : isEditing ? (
+        <div className="mb-12" onClick={(e) => e.stopPropagation()}>
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className="w-full min-h-[120px] p-16 rounded-lg border-2 border-neutral-mist text-body text-neutral-dark leading-relaxed focus:outline-none focus:border-primary-500 transition-colors resize-y"
+          />
+          <label className="flex items-center gap-8 mt-8 text-caption text-neutral-stone">
+            记录时间
+            <input
+              type="datetime-local"
+              value={draftDate}
+              onChange={(e) => setDraftDate(e.target.value)}
+              className="px-12 py-4 rounded-lg border border-neutral-mist text-caption text-neutral-dark focus:outline-none focus:ring-2 focus:ring-primary-300"
+            />
+          </label>
+          <div className="flex justify-end gap-8 mt-8">
+            <button
+              onClick={() => setIsEditing(false)}
+              className="px-16 py-8 rounded-full text-body-small text-neutral-earth hover:bg-neutral-cloud transition-colors"
+            >
+              取消
+            </button>
+            <button
+              onClick={() => {
+                const updates: Partial<DailyRecord> = {};
+                if (draft !== record.content) updates.content = draft;
+                if (draftDate && draftDate !== toDateTimeLocalValue(record.date)) {
+                  updates.date = new Date(draftDate).toISOString();
+                }
+                if (Object.keys(updates).length > 0) {
+                  onEdit?.(record.id, updates);
+                }
+                setIsEditing(false);
+              }}
+              className="px-16 py-8 rounded-full text-body-small bg-primary-500 text-white hover:bg-primary-700 transition-colors"
+            >
+              保存
+            </button>
+          </div>
+        </div>
+      ) : locked ? (
+      /* 加密记录：日记库锁定时不显示内容 */
+      <div className="flex items-center justify-between gap-12 mb-12 p-16 rounded-lg bg-neutral-cloud" onClick={(e) => e.stopPropagation()}>
+        <span className="flex items-center gap-8 text-body-small text-neutral-stone">
+          <Lock className="w-4 h-4" />
+          此记录已加密
+        </span>
+        <button
+          onClick={() => setShowUnlock(true)}
+          className="px-16 py-8 rounded-full text-body-small bg-primary-50 text-primary-700 hover:bg-primary-100 transition-colors"
+        >
+          解锁查看
+        </button>
+        <VaultUnlockModal isOpen={showUnlock} onClose={() => setShowUnlock(false)} />
+      </div>
+      ) : (
+      /* 内容摘要/完整内容 */
       <div className="text-body text-neutral-dark leading-relaxed mb-12">
-        {isExpanded ? record.content : `${record.content.slice(0, 50)}${record.content.length > 50 ? '...' : ''}`}
+        {isExpanded
+          ? record.content
+          : snippet
+            ? snippet.map((segment, index) => (
+                segment.highlight
+                  ? <mark key={index} className="bg-accent-peach text-neutral-dark rounded-sm">{segment.text}</mark>
+                  : <React.Fragment key={index}>{segment.text}</React.Fragment>
+              ))
+            : `${record.content.slice(0, 50)}${record.content.length > 50 ? '...' : ''}`}
       </div>
+      )}
       
       {/* AI回应（展开时显示） */}
-      {isExpanded && record.aiResponse && (
+      {isExpanded && !appLocked && record.aiResponse && (
         <div className="mt-16 p-16 rounded-lg bg-gradient-to-br from-primary-50 to-secondary-100 animate-fade-in">
           <div className="flex items-start gap-12">
             <div className="w-8 h-8 rounded-full bg-gradient-primary flex items-center justify-center flex-shrink-0">
@@ -110,11 +250,85 @@ export const RecordCard: React.FC<RecordCardProps> = ({
                 <p className="text-body-small text-neutral-dark leading-loose">
                   {record.aiResponse}
                 </p>
+                {record.aiPending ? (
+                  <p className="mt-4 text-caption text-neutral-stone">离线时的预设回应，联网后会自动替换为AI回应</p>
+                ) : record.aiModel && (
+                  <p className="mt-4 text-caption text-neutral-stone">由 {record.aiModel} 回应</p>
+                )}
+                {record.thread && record.thread.length > 0 && (
+                  <p className="mt-4 text-caption text-neutral-stone">后续对话 {record.thread.length} 条</p>
+                )}
               </div>
           </div>
         </div>
       )}
       
+      {isExpanded && !appLocked && highRisk && (
+        <div className="mt-12" onClick={(e) => e.stopPropagation()}>
+          <SafetyResourcesCard compact />
+        </div>
+      )}
+      
+      {/* 编辑和历史操作（展开时显示） */}
+      {isExpanded && !isEditing && !locked && (onEdit || onRestoreRevision) && (
+        <div className="flex gap-16 mt-12" onClick={(e) => e.stopPropagation()}>
+          {onEdit && (
+            <button
+              onClick={startEditing}
+              className="flex items-center gap-4 text-caption text-neutral-stone hover:text-primary-700 transition-colors"
+            >
+              <Pencil className="w-4 h-4" />
+              编辑
+            </button>
+          )}
+          {onRestoreRevision && (
+            <button
+              onClick={() => setShowHistory(true)}
+              className="flex items-center gap-4 text-caption text-neutral-stone hover:text-primary-700 transition-colors"
+            >
+              <History className="w-4 h-4" />
+              历史
+            </button>
+          )}
+          {onEdit && (
+            <button
+              onClick={() => setShowThread(true)}
+              className="flex items-center gap-4 text-caption text-neutral-stone hover:text-primary-700 transition-colors"
+            >
+              <MessagesSquare className="w-4 h-4" />
+              继续聊聊
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* 记录对话弹窗（阻止事件冒泡到卡片） */}
+      {onEdit && !locked && showThread && (
+        <div onClick={(e) => e.stopPropagation()}>
+          <RecordThreadModal
+            isOpen={showThread}
+            record={record}
+            onClose={() => setShowThread(false)}
+            onSave={(thread) => onEdit(record.id, { thread })}
+          />
+        </div>
+      )}
+      
+      {/* 编辑历史弹窗（阻止事件冒泡到卡片） */}
+      {onRestoreRevision && (
+        <div onClick={(e) => e.stopPropagation()}>
+          <RecordHistoryModal
+            isOpen={showHistory}
+            record={record}
+            onClose={() => setShowHistory(false)}
+            onRestore={(recordId, revisionId) => {
+              onRestoreRevision(recordId, revisionId);
+              setShowHistory(false);
+            }}
+          />
+        </div>
+      )}
+      
       {/* 展开/收起指示器 */}
       <div className="flex justify-center mt-8">
         {isExpanded ? (
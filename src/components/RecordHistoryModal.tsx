@@ -0,0 +1,137 @@
+import React, { useState, useEffect } from 'react';
+import { History, RotateCcw } from 'lucide-react';
+import { Modal } from './Modal';
+import { revisionsDB, DEFAULT_TAGS } from '../lib/storage';
+import type { RecordVersion } from '../lib/storage';
+import { diffText } from '../lib/diff';
+import type { DailyRecord } from '../types';
+
+interface RecordHistoryModalProps {
+  isOpen: boolean;
+  record: DailyRecord;
+  onClose: () => void;
+  onRestore: (recordId: string, revisionId: string) => void;
+}
+
+const FIELD_LABELS: { [field: string]: string } = {
+  content: '内容',
+  tags: '标签',
+  isPrivate: '隐私',
+  date: '日期',
+};
+
+// 将非文本字段格式化为便于比较的文本
+function formatField(record: DailyRecord, field: string): string {
+  switch (field) {
+    case 'content':
+      return record.content;
+    case 'tags':
+      return record.tags
+        .map(tagId => DEFAULT_TAGS.find(tag => tag.id === tagId)?.name || tagId)
+        .join('、') || '无';
+    case 'isPrivate':
+      return record.isPrivate ? '仅自己可见' : '公开记录';
+    case 'date':
+      return new Date(record.date).toLocaleString('zh-CN', { hour12: false });
+    default:
+      return String(record[field as keyof DailyRecord] ?? '');
+  }
+}
+
+export const RecordHistoryModal: React.FC<RecordHistoryModalProps> = ({
+  isOpen,
+  record,
+  onClose,
+  onRestore,
+}) => {
+  const [versions, setVersions] = useState<RecordVersion[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    revisionsDB.getVersions(record).then(loaded => {
+      setVersions(loaded);
+      setSelectedId(loaded[0]?.revision.id ?? null);
+    });
+  }, [isOpen, record]);
+
+  const selected = versions.find(v => v.revision.id === selectedId);
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="编辑历史" size="lg">
+      <div className="p-6 space-y-4">
+        {versions.length === 0 ? (
+          <div className="text-center py-8">
+            <History className="w-10 h-10 text-neutral-stone mx-auto mb-3" />
+            <p className="text-body-small text-neutral-stone">这条记录还没有被编辑过</p>
+          </div>
+        ) : (
+          <>
+            {/* 修订列表 */}
+            <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-hide">
+              {versions.map(version => (
+                <button
+                  key={version.revision.id}
+                  onClick={() => setSelectedId(version.revision.id)}
+                  className={`px-3 py-2 rounded-full text-caption whitespace-nowrap transition-colors ${
+                    version.revision.id === selectedId
+                      ? 'bg-primary-500 text-white'
+                      : 'bg-neutral-cloud text-neutral-earth hover:bg-primary-50'
+                  }`}
+                >
+                  {new Date(version.revision.timestamp).toLocaleString('zh-CN', {
+                    month: '2-digit',
+                    day: '2-digit',
+                    hour: '2-digit',
+                    minute: '2-digit',
+                    hour12: false,
+                  })}
+                </button>
+              ))}
+            </div>
+
+            {/* 并排差异对比 */}
+            {selected && (
+              <div className="space-y-4">
+                {selected.revision.changedFields.map(field => {
+                  const parts = diffText(formatField(selected.before, field), formatField(selected.after, field));
+                  return (
+                    <div key={field}>
+                      <div className="text-caption text-neutral-stone mb-2">{FIELD_LABELS[field] || field}</div>
+                      <div className="grid grid-cols-2 gap-3">
+                        <div className="p-3 rounded-lg bg-red-50/50 border border-red-100 text-body-small text-neutral-dark leading-relaxed whitespace-pre-wrap">
+                          <div className="text-caption text-red-500 mb-1">修改前</div>
+                          {parts.filter(part => part.type !== 'added').map((part, index) => (
+                            part.type === 'removed'
+                              ? <del key={index} className="bg-red-100 text-red-700">{part.text}</del>
+                              : <span key={index}>{part.text}</span>
+                          ))}
+                        </div>
+                        <div className="p-3 rounded-lg bg-green-50/50 border border-green-100 text-body-small text-neutral-dark leading-relaxed whitespace-pre-wrap">
+                          <div className="text-caption text-green-600 mb-1">修改后</div>
+                          {parts.filter(part => part.type !== 'removed').map((part, index) => (
+                            part.type === 'added'
+                              ? <ins key={index} className="bg-green-100 text-green-700 no-underline">{part.text}</ins>
+                              : <span key={index}>{part.text}</span>
+                          ))}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+
+                <button
+                  onClick={() => onRestore(record.id, selected.revision.id)}
+                  className="flex items-center gap-2 px-4 py-2 rounded-full bg-primary-50 text-primary-700 text-body-small hover:bg-primary-100 transition-colors"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  恢复到修改前的版本
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,172 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Send, Square } from 'lucide-react';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { SafetyResourcesCard } from './SafetyResourcesCard';
+import { aiService } from '../lib/aiService';
+import { assessConversationRisk } from '../lib/crisisDetection';
+import { USAGE_LIMIT_ERROR } from '../lib/usage';
+import type { ConversationMessage, DailyRecord } from '../types';
+
+interface RecordThreadModalProps {
+  isOpen: boolean;
+  record: DailyRecord;
+  onClose: () => void;
+  onSave: (thread: ConversationMessage[]) => Promise<void> | void;
+}
+
+function createMessage(role: ConversationMessage['role'], content: string, modelName?: string): ConversationMessage {
+  return {
+    id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    role,
+    content,
+    timestamp: Date.now(),
+    modelName,
+  };
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString('zh-CN', {
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+}
+
+/**
+ * 记录对话：就一条记录和AI继续聊，记录原文、首次回应和之前的对话都会作为上下文
+ * 打开时才挂载，对话以挂载时记录中保存的内容为准
+ */
+export const RecordThreadModal: React.FC<RecordThreadModalProps> = ({ isOpen, record, onClose, onSave }) => {
+  const [thread, setThread] = useState<ConversationMessage[]>(record.thread || []);
+  const [input, setInput] = useState('');
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [thread, streamingText]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const persist = async (next: ConversationMessage[]) => {
+    setThread(next);
+    await onSave(next);
+  };
+
+  const handleSend = async () => {
+    const text = input.trim();
+    if (!text || streamingText !== null) return;
+
+    const withQuestion = [...thread, createMessage('user', text)];
+    setInput('');
+    setError('');
+    await persist(withQuestion);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStreamingText('');
+
+    try {
+      const result = await aiService.continueThread(record, withQuestion, {
+        onToken: setStreamingText,
+        signal: controller.signal,
+      });
+
+      // 取消或中断时保留已生成的部分
+      if (result.response) {
+        await persist([...withQuestion, createMessage('assistant', result.response, result.modelName)]);
+      }
+      if (result.error === USAGE_LIMIT_ERROR) {
+        setError('已达到你设置的AI用量上限，可在AI服务设置中调整');
+      } else if (result.error && !result.response) {
+        setError('暂时无法回应，请稍后再试');
+      } else if (result.partial && !controller.signal.aborted) {
+        setError('回应中断，已保存已生成的部分');
+      }
+    } finally {
+      abortRef.current = null;
+      setStreamingText(null);
+    }
+  };
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    onClose();
+  };
+
+  const sending = streamingText !== null;
+  // 记录或对话中出现高风险表达时一直显示求助热线
+  const highRisk = assessConversationRisk(record.content, thread).level === 'high';
+
+  const renderBubble = (key: string, role: ConversationMessage['role'], content: string, caption?: string) => (
+    <div key={key} className={`flex ${role === 'user' ? 'justify-end' : 'justify-start'}`}>
+      <div className={`max-w-[85%] rounded-xl px-12 py-8 ${
+        role === 'user'
+          ? 'bg-primary-500 text-white'
+          : 'bg-gradient-to-br from-primary-50 to-secondary-100 text-neutral-dark'
+      }`}>
+        <p className="text-body-small leading-relaxed whitespace-pre-wrap">{content}</p>
+        {caption && (
+          <p className={`mt-4 text-caption ${role === 'user' ? 'text-white/70' : 'text-neutral-stone'}`}>{caption}</p>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="继续聊聊" size="md">
+      <div className="p-6 space-y-4">
+        <div className="p-12 rounded-lg bg-neutral-cloud text-body-small text-neutral-earth max-h-24 overflow-y-auto whitespace-pre-wrap">
+          {record.content}
+        </div>
+
+        <div className="space-y-3 max-h-[50vh] overflow-y-auto">
+          {record.aiResponse && renderBubble('initial', 'assistant', record.aiResponse, record.aiModel ? `由 ${record.aiModel} 回应` : undefined)}
+          {thread.map(message => renderBubble(
+            message.id,
+            message.role,
+            message.content,
+            `${formatTime(message.timestamp)}${message.modelName ? ` · ${message.modelName}` : ''}`
+          ))}
+          {sending && renderBubble('streaming', 'assistant', streamingText || '正在思考…')}
+          <div ref={bottomRef} />
+        </div>
+
+        {highRisk && <SafetyResourcesCard compact />}
+
+        {error && <p className="text-caption text-semantic-error">{error}</p>}
+
+        <div className="flex items-end gap-8">
+          <textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+                e.preventDefault();
+                handleSend();
+              }
+            }}
+            placeholder="比如：能帮我想想为什么会有这种感觉吗？"
+            rows={2}
+            disabled={sending}
+            className="flex-1 p-12 rounded-lg border-2 border-neutral-mist text-body resize-none focus:outline-none focus:border-primary-500 transition-colors disabled:opacity-50"
+          />
+          {sending ? (
+            <Button variant="secondary" size="sm" icon={<Square className="w-4 h-4" />} onClick={() => abortRef.current?.abort()}>
+              停止
+            </Button>
+          ) : (
+            <Button size="sm" icon={<Send className="w-4 h-4" />} onClick={handleSend} disabled={!input.trim()}>
+              发送
+            </Button>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+};
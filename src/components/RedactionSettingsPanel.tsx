@@ -0,0 +1,161 @@
+import React, { useState, useEffect } from 'react';
+import { ShieldCheck, Plus, X } from 'lucide-react';
+import { aiSettingsDB } from '../lib/aiSettingsDB';
+import { DEFAULT_REDACTION_SETTINGS, REDACTION_LABELS, getRedactionSettings, redactText } from '../lib/redaction';
+import type { RedactionKind, RedactionSettings } from '../types';
+
+interface RedactionSettingsPanelProps {
+  onMessage: (message: string, type: 'success' | 'error' | 'info') => void;
+}
+
+const inputClassName = 'w-full p-12 rounded-lg border-2 border-neutral-mist text-body focus:outline-none focus:border-primary-500 transition-colors';
+
+const KINDS = Object.keys(REDACTION_LABELS) as RedactionKind[];
+
+/**
+ * 隐私保护：发送给AI前隐去电话、身份证号、邮箱、地址和指定的姓名，可在此试用效果
+ */
+export const RedactionSettingsPanel: React.FC<RedactionSettingsPanelProps> = ({ onMessage }) => {
+  const [settings, setSettings] = useState<RedactionSettings>(DEFAULT_REDACTION_SETTINGS);
+  const [nameInput, setNameInput] = useState('');
+  const [sample, setSample] = useState('');
+
+  useEffect(() => {
+    aiSettingsDB.get().then(result => setSettings(getRedactionSettings(result)));
+  }, []);
+
+  const persist = async (next: RedactionSettings) => {
+    await aiSettingsDB.saveRedaction(next);
+    setSettings(next);
+  };
+
+  const toggleKind = (kind: RedactionKind) => persist({
+    ...settings,
+    kinds: settings.kinds.includes(kind) ? settings.kinds.filter(item => item !== kind) : [...settings.kinds, kind],
+  });
+
+  const handleAddName = async () => {
+    const name = nameInput.trim();
+    // 单字会误伤大量普通文字
+    if (name.length < 2) {
+      onMessage('姓名至少需要两个字', 'error');
+      return;
+    }
+    if (settings.names.includes(name)) {
+      onMessage('这个姓名已经在列表中', 'info');
+      return;
+    }
+    await persist({ ...settings, names: [...settings.names, name] });
+    setNameInput('');
+  };
+
+  const preview = sample.trim() ? redactText(sample, settings) : null;
+
+  return (
+    <div className="mb-32 rounded-xl bg-white/50 border border-neutral-mist overflow-hidden">
+      <div className="flex items-center justify-between p-24 border-b border-neutral-mist">
+        <div className="flex items-center gap-12">
+          <ShieldCheck className="w-5 h-5 text-neutral-stone" />
+          <div>
+            <div className="text-body text-neutral-dark">隐私保护</div>
+            <div className="text-caption text-neutral-stone">发送给AI前把个人信息换成占位符，回应中再换回原文</div>
+          </div>
+        </div>
+        <button
+          onClick={() => persist({ ...settings, enabled: !settings.enabled })}
+          className={`
+            relative w-12 h-7 rounded-full transition-colors duration-normal flex-shrink-0
+            ${settings.enabled ? 'bg-primary-500' : 'bg-neutral-mist'}
+          `}
+          aria-label={settings.enabled ? '关闭隐私保护' : '开启隐私保护'}
+        >
+          <div className={`
+            absolute top-1 w-5 h-5 rounded-full bg-white shadow-sm transition-transform duration-normal
+            ${settings.enabled ? 'translate-x-[22px]' : 'translate-x-1'}
+          `} />
+        </button>
+      </div>
+
+      {settings.enabled && (
+        <>
+          <div className="p-16 border-b border-neutral-mist">
+            <div className="text-body-small text-neutral-dark mb-8">识别的信息</div>
+            <div className="flex flex-wrap gap-8">
+              {KINDS.map(kind => (
+                <button
+                  key={kind}
+                  onClick={() => toggleKind(kind)}
+                  className={`px-12 py-4 rounded-full text-caption border transition-colors ${
+                    settings.kinds.includes(kind)
+                      ? 'bg-primary-50 border-primary-100 text-primary-700'
+                      : 'bg-white border-neutral-mist text-neutral-stone'
+                  }`}
+                >
+                  {REDACTION_LABELS[kind]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {settings.kinds.includes('name') && (
+            <div className="p-16 border-b border-neutral-mist">
+              <div className="text-body-small text-neutral-dark">姓名列表</div>
+              <div className="text-caption text-neutral-stone mb-8">姓名无法自动识别，请添加记录中常出现的人名，也可以加上昵称</div>
+              {settings.names.length > 0 && (
+                <div className="flex flex-wrap gap-8 mb-8">
+                  {settings.names.map(name => (
+                    <span key={name} className="flex items-center gap-4 pl-12 pr-4 py-4 rounded-full bg-neutral-cloud text-caption text-neutral-dark">
+                      {name}
+                      <button
+                        onClick={() => persist({ ...settings, names: settings.names.filter(item => item !== name) })}
+                        className="p-2 rounded-full text-neutral-stone hover:text-semantic-error transition-colors"
+                        aria-label={`移除 ${name}`}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+              <div className="flex gap-8">
+                <input
+                  value={nameInput}
+                  onChange={(e) => setNameInput(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleAddName()}
+                  placeholder="如 王小明"
+                  className={inputClassName}
+                />
+                <button
+                  onClick={handleAddName}
+                  className="flex items-center gap-4 flex-shrink-0 px-16 py-8 rounded-full bg-primary-50 text-primary-700 text-body-small hover:bg-primary-100 transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                  添加
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* 试用：输入一段文字查看发送时的样子 */}
+          <div className="p-16 space-y-2">
+            <textarea
+              value={sample}
+              onChange={(e) => setSample(e.target.value)}
+              placeholder="输入一段文字，查看发送给AI时的样子"
+              rows={3}
+              className={`${inputClassName} resize-none`}
+            />
+            {preview && (
+              <div className="p-12 rounded-lg bg-neutral-cloud">
+                <p className="text-body-small text-neutral-dark whitespace-pre-wrap break-words">{preview.text}</p>
+                <p className="text-caption text-neutral-stone mt-4">
+                  {preview.matches.length > 0 ? `隐去了 ${preview.matches.length} 处个人信息` : '没有识别到个人信息'}
+                </p>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
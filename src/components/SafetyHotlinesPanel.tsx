@@ -0,0 +1,161 @@
+import React, { useState, useEffect } from 'react';
+import { LifeBuoy, Plus, Pencil, Trash2, RotateCcw } from 'lucide-react';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { aiSettingsDB } from '../lib/aiSettingsDB';
+import { DEFAULT_SAFETY_HOTLINES, getSafetyHotlines } from '../lib/crisisDetection';
+import type { SafetyHotline } from '../types';
+
+interface SafetyHotlinesPanelProps {
+  onMessage: (message: string, type: 'success' | 'error' | 'info') => void;
+}
+
+const inputClassName = 'w-full p-12 rounded-lg border-2 border-neutral-mist text-body focus:outline-none focus:border-primary-500 transition-colors';
+
+const emptyForm = (): SafetyHotline => ({ id: '', name: '', number: '', description: '' });
+
+/**
+ * 求助热线：识别到高风险表达时展示的热线，可按所在地区修改
+ */
+export const SafetyHotlinesPanel: React.FC<SafetyHotlinesPanelProps> = ({ onMessage }) => {
+  const [hotlines, setHotlines] = useState<SafetyHotline[]>(DEFAULT_SAFETY_HOTLINES);
+  const [isCustomized, setIsCustomized] = useState(false);
+  const [form, setForm] = useState<SafetyHotline | null>(null);
+
+  useEffect(() => {
+    aiSettingsDB.get().then(settings => {
+      setHotlines(getSafetyHotlines(settings));
+      setIsCustomized(Boolean(settings.safetyHotlines));
+    });
+  }, []);
+
+  const persist = async (next: SafetyHotline[] | undefined) => {
+    await aiSettingsDB.saveHotlines(next);
+    setHotlines(next || DEFAULT_SAFETY_HOTLINES);
+    setIsCustomized(Boolean(next));
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    if (!form.name.trim() || !form.number.trim()) {
+      onMessage('请填写名称和号码', 'error');
+      return;
+    }
+
+    const hotline: SafetyHotline = {
+      id: form.id || `hotline_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: form.name.trim(),
+      number: form.number.trim(),
+      description: form.description?.trim() || undefined,
+    };
+    const exists = hotlines.some(item => item.id === hotline.id);
+    await persist(exists
+      ? hotlines.map(item => item.id === hotline.id ? hotline : item)
+      : [...hotlines, hotline]);
+    setForm(null);
+    onMessage(exists ? `已更新 ${hotline.name}` : `已添加 ${hotline.name}`, 'success');
+  };
+
+  const handleDelete = async (hotline: SafetyHotline) => {
+    // 至少保留一条热线
+    if (hotlines.length <= 1) {
+      onMessage('至少需要保留一条求助热线', 'error');
+      return;
+    }
+    await persist(hotlines.filter(item => item.id !== hotline.id));
+    onMessage(`已删除 ${hotline.name}`, 'info');
+  };
+
+  const handleReset = async () => {
+    await persist(undefined);
+    onMessage('已恢复默认热线', 'info');
+  };
+
+  return (
+    <div className="mb-32 rounded-xl bg-white/50 border border-neutral-mist overflow-hidden">
+      <div className="flex items-center justify-between p-24 border-b border-neutral-mist">
+        <div className="flex items-center gap-12">
+          <LifeBuoy className="w-5 h-5 text-neutral-stone" />
+          <div>
+            <div className="text-body text-neutral-dark">求助热线</div>
+            <div className="text-caption text-neutral-stone">记录中出现轻生或自伤的表达时，会和回应一起显示</div>
+          </div>
+        </div>
+        <button
+          onClick={() => setForm(emptyForm())}
+          className="flex items-center gap-4 px-16 py-8 rounded-full bg-primary-50 text-primary-700 text-body-small hover:bg-primary-100 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          添加
+        </button>
+      </div>
+
+      {hotlines.map(hotline => (
+        <div key={hotline.id} className="flex items-center justify-between gap-12 p-16 border-b border-neutral-mist">
+          <div className="min-w-0">
+            <div className="text-body text-neutral-dark truncate">{hotline.name} · {hotline.number}</div>
+            {hotline.description && <div className="text-caption text-neutral-stone truncate">{hotline.description}</div>}
+          </div>
+          <div className="flex items-center flex-shrink-0">
+            <button
+              onClick={() => setForm({ ...hotline })}
+              className="p-8 rounded-full text-neutral-stone hover:text-neutral-dark hover:bg-neutral-cloud transition-colors"
+              aria-label="编辑热线"
+            >
+              <Pencil className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => handleDelete(hotline)}
+              className="p-8 rounded-full text-neutral-stone hover:text-semantic-error hover:bg-neutral-cloud transition-colors"
+              aria-label="删除热线"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {isCustomized && (
+        <div className="p-16">
+          <Button variant="ghost" size="sm" icon={<RotateCcw className="w-4 h-4" />} onClick={handleReset}>
+            恢复默认热线
+          </Button>
+        </div>
+      )}
+
+      <Modal isOpen={form !== null} onClose={() => setForm(null)} title={form?.id ? '编辑热线' : '添加热线'} size="sm">
+        {form && (
+          <div className="p-6 space-y-4">
+            <input
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="名称，如 本地心理援助热线"
+              className={inputClassName}
+            />
+            <input
+              value={form.number}
+              onChange={(e) => setForm({ ...form, number: e.target.value })}
+              placeholder="电话号码"
+              inputMode="tel"
+              className={inputClassName}
+            />
+            <input
+              value={form.description || ''}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              placeholder="说明（可选），如 24小时"
+              className={inputClassName}
+            />
+            <div className="flex justify-end gap-3">
+              <Button variant="secondary" size="sm" onClick={() => setForm(null)}>
+                取消
+              </Button>
+              <Button size="sm" onClick={handleSave}>
+                保存
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React, { useState, useEffect } from 'react';
+import { LifeBuoy, Phone } from 'lucide-react';
+import { aiSettingsDB } from '../lib/aiSettingsDB';
+import { DEFAULT_SAFETY_HOTLINES, getSafetyHotlines } from '../lib/crisisDetection';
+import type { SafetyHotline } from '../types';
+
+interface SafetyResourcesCardProps {
+  response?: string; // 安全回应内容，为空时只显示求助热线
+  compact?: boolean;
+}
+
+/**
+ * 求助资源卡片：识别到高风险表达时显示，不提供关闭按钮
+ */
+export const SafetyResourcesCard: React.FC<SafetyResourcesCardProps> = ({ response, compact = false }) => {
+  const [hotlines, setHotlines] = useState<SafetyHotline[]>(DEFAULT_SAFETY_HOTLINES);
+
+  useEffect(() => {
+    aiSettingsDB.get().then(settings => setHotlines(getSafetyHotlines(settings)));
+  }, []);
+
+  return (
+    <div
+      className={`rounded-xl border-2 border-primary-100 bg-primary-50 ${compact ? 'p-12' : 'p-24 mb-32'}`}
+      role="region"
+      aria-label="求助资源"
+    >
+      <div className="flex items-center gap-8 mb-8">
+        <LifeBuoy className="w-5 h-5 text-primary-700 flex-shrink-0" />
+        <h4 className="text-body font-semibold text-neutral-dark">你不是一个人</h4>
+      </div>
+
+      {response && (
+        <p className="text-body-small text-neutral-dark leading-relaxed whitespace-pre-wrap mb-12">{response}</p>
+      )}
+      {!compact && (
+        <p className="text-caption text-neutral-earth mb-12">
+          如果你正在经历很难熬的时刻，现在就可以打给下面的热线，会有人认真听你说。
+        </p>
+      )}
+
+      <div className="space-y-2">
+        {hotlines.map(hotline => (
+          <a
+            key={hotline.id}
+            href={`tel:${hotline.number.replace(/[^\d+]/g, '')}`}
+            className="flex items-center justify-between gap-12 p-12 rounded-lg bg-white hover:bg-secondary-100 transition-colors"
+          >
+            <div className="min-w-0">
+              <div className="text-body-small text-neutral-dark">{hotline.name}</div>
+              {hotline.description && <div className="text-caption text-neutral-stone">{hotline.description}</div>}
+            </div>
+            <span className="flex items-center gap-4 text-body-small font-semibold text-primary-700 flex-shrink-0">
+              <Phone className="w-4 h-4" />
+              {hotline.number}
+            </span>
+          </a>
+        ))}
+      </div>
+
+      {!compact && (
+        <p className="mt-12 text-caption text-neutral-stone">
+          如果你有立即的危险，请拨打 120 或 110，或者请身边的人陪你去最近的医院。
+        </p>
+      )}
+    </div>
+  );
+};
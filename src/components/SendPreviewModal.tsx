@@ -0,0 +1,84 @@
+import React, { useState, useEffect } from 'react';
+import { Modal } from './Modal';
+import { aiService } from '../lib/aiService';
+import type { AIResponseRequest } from '../types';
+
+interface SendPreviewModalProps {
+  request: AIResponseRequest | null; // 为空时关闭
+  onClose: () => void;
+}
+
+type Preview = Awaited<ReturnType<typeof aiService.previewRequest>>;
+
+const ROLE_LABELS: Record<string, string> = {
+  system: '提示词',
+  user: '记录内容',
+  assistant: 'AI回应',
+};
+
+/**
+ * 发送预览：逐条显示保存记录时会发给AI的消息，个人信息已换成占位符
+ */
+export const SendPreviewModal: React.FC<SendPreviewModalProps> = ({ request, onClose }) => {
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!request) return;
+    let cancelled = false;
+    setPreview(null);
+    setError('');
+    aiService.previewRequest(request)
+      .then(result => { if (!cancelled) setPreview(result); })
+      .catch(() => { if (!cancelled) setError('生成预览失败，请稍后再试'); });
+    return () => { cancelled = true; };
+  }, [request]);
+
+  return (
+    <Modal isOpen={request !== null} onClose={onClose} title="发送预览" size="lg">
+      <div className="p-6 space-y-4">
+        {error && <p className="text-body-small text-semantic-error">{error}</p>}
+        {!preview && !error && <p className="text-body-small text-neutral-stone text-center py-16">正在生成预览...</p>}
+
+        {preview && (
+          <>
+            <p className="text-body-small text-neutral-earth">
+              {preview.limitReason
+                ? `${preview.limitReason}，已超出你设置的用量上限，这次不会发送任何内容，只使用本地回应。`
+                : preview.localOnly
+                  ? `将发送给本机运行的 ${preview.targetName || '本地模型'}，内容不会离开这台设备。`
+                  : `将发送给 ${preview.targetName || 'AI服务'}，失败时按切换顺序发给其他模型。`}
+            </p>
+
+            {preview.matches.length > 0 ? (
+              <div className="p-12 rounded-lg bg-primary-50">
+                <div className="text-caption text-primary-700 mb-4">已隐去 {preview.matches.length} 处个人信息，回应中会换回原文</div>
+                <ul className="space-y-1">
+                  {preview.matches.map(match => (
+                    <li key={match.placeholder} className="text-caption text-neutral-earth">
+                      {match.placeholder} ← {match.original}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : (
+              <p className="text-caption text-neutral-stone">没有识别到需要隐去的个人信息</p>
+            )}
+
+            {preview.requests.map(item => (
+              <div key={item.label} className="space-y-2">
+                <h4 className="text-body-small font-semibold text-neutral-dark">{item.label}</h4>
+                {item.messages.map((message, index) => (
+                  <div key={index} className="p-12 rounded-lg border border-neutral-mist bg-white">
+                    <div className="text-caption text-neutral-stone mb-4">{ROLE_LABELS[message.role] || message.role}</div>
+                    <p className="text-body-small text-neutral-dark whitespace-pre-wrap break-words">{message.content}</p>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
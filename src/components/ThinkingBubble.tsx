@@ -1,6 +1,7 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Brain, Loader2, Sparkles } from 'lucide-react';
+import { Brain, Loader2, Sparkles, Square } from 'lucide-react';
+import { TypewriterText } from './TypewriterText';
 import { useAnimation } from '../contexts/AnimationContext';
 import { ANIMATIONS } from '../lib/animations';
 
@@ -9,6 +10,8 @@ interface ThinkingBubbleProps {
   message?: string;
   type?: 'thinking' | 'analyzing' | 'generating';
   size?: 'sm' | 'md' | 'lg';
+  streamingText?: string; // 流式回应已收到的内容
+  onCancel?: () => void;
 }
 
 // 小气泡组件
@@ -44,6 +47,8 @@ export const ThinkingBubble: React.FC<ThinkingBubbleProps> = ({
   message = 'AI正在思考...',
   type = 'thinking',
   size = 'md',
+  streamingText = '',
+  onCancel,
 }) => {
   const { shouldAnimate, getDuration } = useAnimation();
 
@@ -225,8 +230,25 @@ export const ThinkingBubble: React.FC<ThinkingBubbleProps> = ({
             {message}
           </motion.p>
 
+          {/* 流式回应：内容随到达逐步显示 */}
+          {streamingText && (
+            <div className="w-[min(28rem,calc(100vw-3rem))] max-h-[50vh] overflow-y-auto p-5 bg-white rounded-2xl shadow-lg text-gray-700 leading-relaxed">
+              <TypewriterText text={streamingText} streaming />
+            </div>
+          )}
+
+          {onCancel && (
+            <button
+              onClick={onCancel}
+              className="flex items-center gap-2 px-4 py-2 rounded-full bg-white/90 text-sm text-gray-600 shadow-sm hover:bg-white transition-colors"
+            >
+              <Square className="w-3 h-3" />
+              停止生成
+            </button>
+          )}
+
           {/* 进度条 */}
-          {shouldAnimate() && (
+          {shouldAnimate() && !streamingText && (
             <motion.div
               className="w-32 h-1 bg-gray-200 rounded-full overflow-hidden"
               initial={{ width: 0 }}
@@ -6,6 +6,10 @@ interface ToastProps {
   type?: 'success' | 'error' | 'info';
   onClose: () => void;
   duration?: number;
+  action?: {
+    label: string;
+    onClick: () => void;
+  };
 }
 
 export const Toast: React.FC<ToastProps> = ({
@@ -13,6 +17,7 @@ export const Toast: React.FC<ToastProps> = ({
   type = 'info',
   onClose,
   duration = 3000,
+  action,
 }) => {
   useEffect(() => {
     const timer = setTimeout(onClose, duration);
@@ -36,6 +41,17 @@ export const Toast: React.FC<ToastProps> = ({
       <div className={`flex items-center gap-12 px-24 py-16 rounded-full border-2 ${bgColors[type]} bg-white/90 backdrop-blur-sm shadow-lg`}>
         {icons[type]}
         <span className="text-body text-neutral-dark">{message}</span>
+        {action && (
+          <button
+            onClick={() => {
+              action.onClick();
+              onClose();
+            }}
+            className="text-body font-medium text-primary-500 hover:text-primary-700 underline whitespace-nowrap"
+          >
+            {action.label}
+          </button>
+        )}
       </div>
     </div>
   );
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAnimation } from '../contexts/AnimationContext';
 
@@ -10,6 +10,7 @@ interface TypewriterTextProps {
   onComplete?: () => void;
   showCursor?: boolean;
   cursorChar?: string;
+  streaming?: boolean; // 流式模式：text 随token增长，直接跟随显示
 }
 
 // 打字机文字组件
@@ -21,16 +22,35 @@ export const TypewriterText: React.FC<TypewriterTextProps> = ({
   onComplete,
   showCursor = true,
   cursorChar = '|',
+  streaming = false,
 }) => {
   const [displayedText, setDisplayedText] = useState('');
   const [isTyping, setIsTyping] = useState(false);
   const [showCursorState, setShowCursorState] = useState(true);
   const { shouldAnimate, getDuration } = useAnimation();
+  const streamedRef = useRef(false);
 
   useEffect(() => {
     let timeout: NodeJS.Timeout;
     let typingInterval: NodeJS.Timeout;
 
+    // 流式内容本身就是逐段到达的，不再额外逐字动画
+    if (streaming) {
+      streamedRef.current = true;
+      setDisplayedText(text);
+      setIsTyping(true);
+      return;
+    }
+
+    // 流式结束后保留已显示的内容，不从头重新打字
+    if (streamedRef.current) {
+      streamedRef.current = false;
+      setDisplayedText(text);
+      setIsTyping(false);
+      onComplete?.();
+      return;
+    }
+
     const startTyping = () => {
       setIsTyping(true);
       let currentIndex = 0;
@@ -58,7 +78,7 @@ export const TypewriterText: React.FC<TypewriterTextProps> = ({
       clearTimeout(timeout);
       clearInterval(typingInterval);
     };
-  }, [text, speed, delay, shouldAnimate, getDuration, onComplete]);
+  }, [text, speed, delay, streaming, shouldAnimate, getDuration, onComplete]);
 
   // 光标闪烁效果
   useEffect(() => {
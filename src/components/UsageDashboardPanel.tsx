@@ -0,0 +1,411 @@
+import React, { useState, useEffect } from 'react';
+import { BarChart3, RefreshCw, Trash2, Pencil, AlertTriangle } from 'lucide-react';
+import * as Recharts from 'recharts';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import {
+  USAGE_CATEGORY_LABELS,
+  estimateCost,
+  getModelPricing,
+  groupUsageByDay,
+  groupUsageByMonth,
+  usageDB,
+} from '../lib/usage';
+import type { AIModelConfig, AIModelPricing, AIProvider, AIUsageCategory, AIUsageLimits, AIUsageRecord, ProxyQuota } from '../types';
+
+const BarChart = Recharts.BarChart as unknown as React.ElementType;
+const Bar = Recharts.Bar as unknown as React.ElementType;
+const XAxis = Recharts.XAxis as unknown as React.ElementType;
+const YAxis = Recharts.YAxis as unknown as React.ElementType;
+const CartesianGrid = Recharts.CartesianGrid as unknown as React.ElementType;
+const Tooltip = Recharts.Tooltip as unknown as React.ElementType;
+const ResponsiveContainer = Recharts.ResponsiveContainer as unknown as React.ElementType;
+
+interface UsageDashboardPanelProps {
+  models: AIModelConfig[];
+  onMessage: (message: string, type: 'success' | 'error' | 'info') => void;
+}
+
+const inputClassName = 'w-full p-12 rounded-lg border-2 border-neutral-mist text-body focus:outline-none focus:border-primary-500 transition-colors';
+
+const PROXY_MODEL = { id: 'proxy', name: '智谱GLM-4-Flash（内置）' };
+
+interface PricingForm {
+  modelId: string;
+  name: string;
+  input: string;
+  output: string;
+}
+
+interface LimitsForm {
+  dailyCalls: string;
+  monthlyTokens: string;
+  monthlyCost: string;
+}
+
+function toLimitsForm(limits: AIUsageLimits): LimitsForm {
+  return {
+    dailyCalls: limits.dailyCalls ? String(limits.dailyCalls) : '',
+    monthlyTokens: limits.monthlyTokens ? String(limits.monthlyTokens) : '',
+    monthlyCost: limits.monthlyCost ? String(limits.monthlyCost) : '',
+  };
+}
+
+// 空或非正数表示不限制
+function parseLimit(value: string): number | undefined {
+  const number = Number(value);
+  return value.trim() && Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+function formatTokens(tokens: number): string {
+  return tokens >= 10000 ? `${(tokens / 10000).toFixed(1)}万` : String(tokens);
+}
+
+function formatCost(cost: number): string {
+  return `¥${cost < 1 ? cost.toFixed(3) : cost.toFixed(2)}`;
+}
+
+/**
+ * AI用量：按日、按月查看调用次数和tokens，按模型估算费用，设置超出后只用本地回应的软上限
+ */
+export const UsageDashboardPanel: React.FC<UsageDashboardPanelProps> = ({ models, onMessage }) => {
+  const [records, setRecords] = useState<AIUsageRecord[]>([]);
+  const [pricing, setPricing] = useState<{ [modelId: string]: AIModelPricing }>({});
+  const [quota, setQuota] = useState<ProxyQuota | null>(null);
+  const [limits, setLimits] = useState<LimitsForm>(toLimitsForm({}));
+  const [limitReason, setLimitReason] = useState<string | null>(null);
+  const [chartRange, setChartRange] = useState<'day' | 'month'>('day');
+  const [pricingForm, setPricingForm] = useState<PricingForm | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const providers: { [modelId: string]: AIProvider } = {};
+  models.forEach(model => { providers[model.id] = model.provider; });
+  const providersKey = JSON.stringify(providers);
+
+  useEffect(() => {
+    Promise.all([
+      usageDB.getRecords(),
+      usageDB.getPricing(),
+      usageDB.getQuota(),
+      usageDB.getLimits(),
+      usageDB.checkLimits(JSON.parse(providersKey)),
+    ]).then(([nextRecords, nextPricing, nextQuota, nextLimits, reason]) => {
+      setRecords(nextRecords);
+      setPricing(nextPricing);
+      setQuota(nextQuota);
+      setLimits(toLimitsForm(nextLimits));
+      setLimitReason(reason);
+    });
+  }, [reloadKey, providersKey]);
+
+  const reload = () => setReloadKey(key => key + 1);
+
+  const now = new Date();
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+  const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  const monthRecords = records.filter(record => record.timestamp >= monthStart);
+  const todayRecords = monthRecords.filter(record => record.timestamp >= todayStart);
+
+  const costOf = (record: AIUsageRecord) =>
+    estimateCost(record, getModelPricing(pricing, record.modelId, providers[record.modelId]));
+  const monthTokens = monthRecords.reduce((sum, record) => sum + record.promptTokens + record.completionTokens, 0);
+  const monthCost = monthRecords.reduce((sum, record) => sum + costOf(record), 0);
+  const monthSuccess = monthRecords.filter(record => record.category === 'success');
+  const averageLatency = monthSuccess.length
+    ? Math.round(monthSuccess.reduce((sum, record) => sum + record.latency, 0) / monthSuccess.length)
+    : 0;
+  const hasEstimated = monthRecords.some(record => record.estimated);
+
+  // 本月各类失败的次数
+  const failureCounts = monthRecords.reduce((counts, record) => {
+    if (record.category !== 'success') counts[record.category] = (counts[record.category] || 0) + 1;
+    return counts;
+  }, {} as Partial<Record<AIUsageCategory, number>>);
+
+  const chartData = (chartRange === 'day' ? groupUsageByDay(records, 14) : groupUsageByMonth(records, 6)).map(bucket => ({
+    label: bucket.label,
+    成功: bucket.calls - bucket.failures,
+    失败: bucket.failures,
+    tokens: bucket.tokens,
+  }));
+
+  const modelRows = [PROXY_MODEL, ...models].map(model => {
+    const modelRecords = monthRecords.filter(record => record.modelId === model.id);
+    return {
+      ...model,
+      price: getModelPricing(pricing, model.id, providers[model.id]),
+      calls: modelRecords.length,
+      tokens: modelRecords.reduce((sum, record) => sum + record.promptTokens + record.completionTokens, 0),
+      cost: modelRecords.reduce((sum, record) => sum + costOf(record), 0),
+    };
+  });
+
+  const handleSaveLimits = async () => {
+    await usageDB.saveLimits({
+      dailyCalls: parseLimit(limits.dailyCalls),
+      monthlyTokens: parseLimit(limits.monthlyTokens),
+      monthlyCost: parseLimit(limits.monthlyCost),
+    });
+    reload();
+    onMessage('用量上限已保存', 'success');
+  };
+
+  const handleSavePricing = async () => {
+    if (!pricingForm) return;
+    const input = Number(pricingForm.input);
+    const output = Number(pricingForm.output);
+    if (!Number.isFinite(input) || !Number.isFinite(output) || input < 0 || output < 0) {
+      onMessage('请输入有效的单价', 'error');
+      return;
+    }
+    await usageDB.savePricing(pricingForm.modelId, { input, output });
+    setPricingForm(null);
+    reload();
+    onMessage(`已更新 ${pricingForm.name} 的单价`, 'success');
+  };
+
+  const handleResetPricing = async () => {
+    if (!pricingForm) return;
+    await usageDB.savePricing(pricingForm.modelId, null);
+    setPricingForm(null);
+    reload();
+    onMessage('已恢复参考单价', 'info');
+  };
+
+  const handleClear = async () => {
+    if (!confirm('确定清空所有用量记录吗？上限和单价设置会保留。')) return;
+    await usageDB.clear();
+    reload();
+    onMessage('用量记录已清空', 'info');
+  };
+
+  const summaries = [
+    { label: '今日调用', value: `${todayRecords.length} 次` },
+    { label: '本月tokens', value: formatTokens(monthTokens) },
+    { label: '本月估算费用', value: formatCost(monthCost) },
+    {
+      label: '成功率 / 平均耗时',
+      value: monthRecords.length
+        ? `${Math.round((monthSuccess.length / monthRecords.length) * 100)}% / ${(averageLatency / 1000).toFixed(1)}s`
+        : '-',
+    },
+  ];
+
+  return (
+    <div className="mb-32 rounded-xl bg-white/50 border border-neutral-mist overflow-hidden">
+      <div className="flex items-center justify-between p-24 border-b border-neutral-mist">
+        <div className="flex items-center gap-12">
+          <BarChart3 className="w-5 h-5 text-neutral-stone" />
+          <div>
+            <div className="text-body text-neutral-dark">AI用量</div>
+            <div className="text-caption text-neutral-stone">每次调用的模型、tokens和耗时只记录在本机</div>
+          </div>
+        </div>
+        <div className="flex items-center">
+          <button
+            onClick={reload}
+            className="p-8 rounded-full text-neutral-stone hover:text-neutral-dark hover:bg-neutral-cloud transition-colors"
+            aria-label="刷新用量"
+          >
+            <RefreshCw className="w-4 h-4" />
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={records.length === 0}
+            className="p-8 rounded-full text-neutral-stone hover:text-semantic-error hover:bg-neutral-cloud transition-colors disabled:opacity-30"
+            aria-label="清空用量记录"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {limitReason && (
+        <div className="flex items-start gap-8 p-16 bg-semantic-warning/10 border-b border-neutral-mist">
+          <AlertTriangle className="w-4 h-4 text-semantic-warning flex-shrink-0 mt-2" />
+          <p className="text-body-small text-neutral-earth">
+            {limitReason}，已超出你设置的上限，目前只使用本地模型或本地回应。调高或清空上限后恢复云端AI回应。
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-12 p-16 border-b border-neutral-mist">
+        {summaries.map(item => (
+          <div key={item.label} className="p-12 rounded-lg bg-white">
+            <div className="text-caption text-neutral-stone">{item.label}</div>
+            <div className="text-h3 font-semibold text-neutral-dark">{item.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="p-16 border-b border-neutral-mist space-y-1">
+        <p className="text-caption text-neutral-stone">
+          内置服务剩余额度：
+          {quota
+            ? `今日全站 ${quota.globalRemaining ?? '-'} 次 · 本小时 ${quota.ipRemaining ?? '-'} 次（${new Date(quota.updatedAt).toLocaleString('zh-CN', { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hour12: false })} 更新）`
+            : '使用内置服务后显示'}
+        </p>
+        {Object.keys(failureCounts).length > 0 && (
+          <p className="text-caption text-neutral-stone">
+            本月失败：
+            {(Object.keys(failureCounts) as AIUsageCategory[])
+              .map(category => `${USAGE_CATEGORY_LABELS[category]} ${failureCounts[category]}`)
+              .join(' · ')}
+          </p>
+        )}
+        {hasEstimated && (
+          <p className="text-caption text-neutral-stone">部分服务商未返回用量，这些调用的tokens按字数估算</p>
+        )}
+      </div>
+
+      {/* 调用次数图表 */}
+      <div className="p-16 border-b border-neutral-mist">
+        <div className="flex items-center justify-between mb-12">
+          <span className="text-body-small text-neutral-dark">调用次数</span>
+          <div className="flex rounded-full bg-neutral-cloud p-2">
+            {(['day', 'month'] as const).map(range => (
+              <button
+                key={range}
+                onClick={() => setChartRange(range)}
+                className={`px-12 py-4 rounded-full text-caption transition-colors ${
+                  chartRange === range ? 'bg-white text-primary-700 shadow-sm' : 'text-neutral-stone'
+                }`}
+              >
+                {range === 'day' ? '近14天' : '近6个月'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <ResponsiveContainer width="100%" height={180}>
+          <BarChart data={chartData} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" vertical={false} />
+            <XAxis dataKey="label" tick={{ fontSize: 11, fill: '#666' }} axisLine={{ stroke: '#e5e7eb' }} tickLine={false} />
+            <YAxis allowDecimals={false} tick={{ fontSize: 11, fill: '#666' }} axisLine={false} tickLine={false} />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: 'rgba(255, 255, 255, 0.95)',
+                border: 'none',
+                borderRadius: '12px',
+                fontSize: '13px',
+                boxShadow: '0 4px 12px rgba(0, 0, 0, 0.1)',
+                padding: '8px 12px'
+              }}
+              labelFormatter={(label: string) => {
+                const item = chartData.find(d => d.label === label);
+                return item ? `${label} · ${formatTokens(item.tokens)} tokens` : label;
+              }}
+            />
+            <Bar dataKey="成功" stackId="calls" fill="#4A9B5F" fillOpacity={0.8} />
+            <Bar dataKey="失败" stackId="calls" fill="#EF5350" fillOpacity={0.7} radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* 各模型本月用量与估算费用 */}
+      {modelRows.map(model => (
+        <div key={model.id} className="flex items-center justify-between gap-12 p-16 border-b border-neutral-mist">
+          <div className="min-w-0">
+            <div className="text-body text-neutral-dark truncate">{model.name}</div>
+            <div className="text-caption text-neutral-stone">
+              本月 {model.calls} 次 · {formatTokens(model.tokens)} tokens · 约 {formatCost(model.cost)}
+            </div>
+          </div>
+          <button
+            onClick={() => setPricingForm({
+              modelId: model.id,
+              name: model.name,
+              input: String(model.price.input),
+              output: String(model.price.output),
+            })}
+            className="flex items-center gap-4 flex-shrink-0 p-8 rounded-full text-caption text-neutral-stone hover:text-neutral-dark hover:bg-neutral-cloud transition-colors"
+            aria-label="编辑单价"
+          >
+            ¥{model.price.input}/{model.price.output}
+            <Pencil className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      {/* 软上限 */}
+      <div className="p-16 space-y-3">
+        <div>
+          <div className="text-body-small text-neutral-dark">用量上限</div>
+          <div className="text-caption text-neutral-stone">任一项达到后，回应、情绪分析和回顾报告都改用本地生成；留空表示不限制</div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-12">
+          <input
+            type="number"
+            min={0}
+            value={limits.dailyCalls}
+            onChange={(e) => setLimits({ ...limits, dailyCalls: e.target.value })}
+            placeholder="每日调用次数"
+            className={inputClassName}
+          />
+          <input
+            type="number"
+            min={0}
+            value={limits.monthlyTokens}
+            onChange={(e) => setLimits({ ...limits, monthlyTokens: e.target.value })}
+            placeholder="每月tokens"
+            className={inputClassName}
+          />
+          <input
+            type="number"
+            min={0}
+            step="0.1"
+            value={limits.monthlyCost}
+            onChange={(e) => setLimits({ ...limits, monthlyCost: e.target.value })}
+            placeholder="每月费用（元）"
+            className={inputClassName}
+          />
+        </div>
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleSaveLimits}>
+            保存上限
+          </Button>
+        </div>
+      </div>
+
+      <Modal isOpen={pricingForm !== null} onClose={() => setPricingForm(null)} title="编辑单价" size="sm">
+        {pricingForm && (
+          <div className="p-6 space-y-4">
+            <p className="text-body-small text-neutral-stone">
+              {pricingForm.name} 的单价（元/百万tokens），仅用于估算费用，请以服务商账单为准
+            </p>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={pricingForm.input}
+              onChange={(e) => setPricingForm({ ...pricingForm, input: e.target.value })}
+              placeholder="输入单价"
+              className={inputClassName}
+            />
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={pricingForm.output}
+              onChange={(e) => setPricingForm({ ...pricingForm, output: e.target.value })}
+              placeholder="输出单价"
+              className={inputClassName}
+            />
+            <div className="flex justify-between gap-3">
+              <Button variant="ghost" size="sm" onClick={handleResetPricing}>
+                恢复参考单价
+              </Button>
+              <div className="flex gap-3">
+                <Button variant="secondary" size="sm" onClick={() => setPricingForm(null)}>
+                  取消
+                </Button>
+                <Button size="sm" onClick={handleSavePricing}>
+                  保存
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
@@ -0,0 +1,301 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { KeyRound, Lock, Unlock } from 'lucide-react';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { VaultUnlockModal } from './VaultUnlockModal';
+import { JournalVault } from '../lib/security';
+import type { VaultConfig, VaultScope } from '../lib/security';
+import { vaultDB } from '../lib/storage';
+
+interface VaultSettingsPanelProps {
+  onMessage: (message: string, type: 'success' | 'error' | 'info') => void;
+}
+
+type VaultDialog = 'enable' | 'change' | 'disable' | null;
+
+const MIN_PASSPHRASE_LENGTH = 6;
+const IDLE_OPTIONS = [1, 5, 15, 30, 0];
+
+const inputClassName = 'w-full p-12 rounded-lg border-2 border-neutral-mist text-body focus:outline-none focus:border-primary-500 transition-colors';
+
+const vault = JournalVault.getInstance();
+
+/**
+ * 加密日记库设置：启用/停用、加密范围、自动锁定和更换口令
+ */
+export const VaultSettingsPanel: React.FC<VaultSettingsPanelProps> = ({ onMessage }) => {
+  const [config, setConfig] = useState<VaultConfig | null>(null);
+  const [unlocked, setUnlocked] = useState(vault.isUnlocked());
+  const [dialog, setDialog] = useState<VaultDialog>(null);
+  const [showUnlock, setShowUnlock] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [form, setForm] = useState({ current: '', next: '', confirm: '', scope: 'private' as VaultScope });
+
+  const loadConfig = useCallback(async () => {
+    const current = await vault.getConfig();
+    setConfig(current ? { ...current } : null);
+    setUnlocked(vault.isUnlocked());
+  }, []);
+
+  useEffect(() => {
+    loadConfig();
+
+    const handleVaultChange = () => setUnlocked(vault.isUnlocked());
+    window.addEventListener('vault-locked', handleVaultChange);
+    window.addEventListener('vault-unlocked', handleVaultChange);
+
+    return () => {
+      window.removeEventListener('vault-locked', handleVaultChange);
+      window.removeEventListener('vault-unlocked', handleVaultChange);
+    };
+  }, [loadConfig]);
+
+  const openDialog = (type: VaultDialog) => {
+    setForm({ current: '', next: '', confirm: '', scope: config?.scope || 'private' });
+    setDialog(type);
+  };
+
+  // 批量重新加密后通知各视图刷新
+  const finish = async (message: string) => {
+    setDialog(null);
+    await loadConfig();
+    window.dispatchEvent(new CustomEvent('data-imported', { detail: { vault: true } }));
+    onMessage(message, 'success');
+  };
+
+  const validateNewPassphrase = () => {
+    if (form.next.length < MIN_PASSPHRASE_LENGTH) {
+      onMessage(`口令至少需要 ${MIN_PASSPHRASE_LENGTH} 个字符`, 'error');
+      return false;
+    }
+    if (form.next !== form.confirm) {
+      onMessage('两次输入的口令不一致', 'error');
+      return false;
+    }
+    return true;
+  };
+
+  const handleSubmit = async () => {
+    setWorking(true);
+    try {
+      if (dialog === 'enable') {
+        if (!validateNewPassphrase()) return;
+        await vaultDB.enable(form.next, form.scope);
+        await finish('日记加密已开启，请牢记口令，遗忘后无法恢复');
+      } else if (dialog === 'change') {
+        if (!validateNewPassphrase()) return;
+        const success = await vaultDB.changePassphrase(form.current, form.next);
+        if (!success) {
+          onMessage('当前口令不正确', 'error');
+          return;
+        }
+        await finish('口令已更换');
+      } else if (dialog === 'disable') {
+        const success = await vaultDB.disable(form.current);
+        if (!success) {
+          onMessage('口令不正确', 'error');
+          return;
+        }
+        await finish('日记加密已关闭，记录已解密保存');
+      }
+    } catch (error) {
+      console.error('日记库操作失败:', error);
+      onMessage('操作失败，请稍后重试', 'error');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleScopeChange = async (scope: VaultScope) => {
+    if (!unlocked) {
+      setShowUnlock(true);
+      return;
+    }
+    setWorking(true);
+    try {
+      await vaultDB.setScope(scope);
+      await finish(scope === 'all' ? '已加密全部记录' : '仅加密私密记录');
+    } catch (error) {
+      console.error('切换加密范围失败:', error);
+      onMessage('切换加密范围失败', 'error');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleIdleChange = async (minutes: number) => {
+    await vault.updateConfig({ idleTimeoutMinutes: minutes });
+    await loadConfig();
+  };
+
+  const dialogTitles = {
+    enable: '开启日记加密',
+    change: '更换口令',
+    disable: '关闭日记加密',
+  };
+
+  return (
+    <>
+      {/* 加密开关 */}
+      <div className="flex items-center justify-between p-24 border-b border-neutral-mist">
+        <div className="flex items-center gap-12">
+          <KeyRound className="w-5 h-5 text-neutral-stone" />
+          <div>
+            <div className="text-body text-neutral-dark">日记加密</div>
+            <div className="text-caption text-neutral-stone">
+              {config?.enabled
+                ? `${config.scope === 'all' ? '全部记录' : '私密记录'}已用口令加密 · ${unlocked ? '已解锁' : '已锁定'}`
+                : '用口令加密保存记录内容'}
+            </div>
+          </div>
+        </div>
+        {config?.enabled ? (
+          <button
+            onClick={() => (unlocked ? vault.lock() : setShowUnlock(true))}
+            className="flex items-center gap-4 px-16 py-8 rounded-full bg-primary-50 text-primary-700 text-body-small hover:bg-primary-100 transition-colors"
+          >
+            {unlocked ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+            {unlocked ? '立即锁定' : '解锁'}
+          </button>
+        ) : (
+          <button
+            onClick={() => openDialog('enable')}
+            className="px-16 py-8 rounded-full bg-primary-50 text-primary-700 text-body-small hover:bg-primary-100 transition-colors"
+          >
+            开启
+          </button>
+        )}
+      </div>
+
+      {config?.enabled && (
+        <div className="p-24 border-b border-neutral-mist space-y-16">
+          {/* 加密范围 */}
+          <div className="flex items-center justify-between">
+            <span className="text-body-small text-neutral-dark">加密范围</span>
+            <div className="flex gap-8">
+              {(['private', 'all'] as VaultScope[]).map(scope => (
+                <button
+                  key={scope}
+                  disabled={working}
+                  onClick={() => scope !== config.scope && handleScopeChange(scope)}
+                  className={`px-12 py-4 rounded-full text-caption transition-colors ${
+                    config.scope === scope
+                      ? 'bg-primary-500 text-white'
+                      : 'bg-neutral-cloud text-neutral-earth hover:bg-primary-50'
+                  }`}
+                >
+                  {scope === 'all' ? '全部记录' : '仅私密记录'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* 空闲自动锁定 */}
+          <div className="flex items-center justify-between">
+            <span className="text-body-small text-neutral-dark">空闲自动锁定</span>
+            <select
+              value={config.idleTimeoutMinutes}
+              onChange={(e) => handleIdleChange(Number(e.target.value))}
+              className="px-12 py-4 rounded-lg border border-neutral-mist text-caption focus:outline-none focus:ring-2 focus:ring-primary-300"
+            >
+              {IDLE_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>
+                  {minutes === 0 ? '从不' : `${minutes} 分钟`}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex gap-12">
+            <button
+              onClick={() => openDialog('change')}
+              className="text-caption text-primary-500 hover:text-primary-600 underline"
+            >
+              更换口令
+            </button>
+            <button
+              onClick={() => openDialog('disable')}
+              className="text-caption text-semantic-error hover:opacity-80 underline"
+            >
+              关闭加密
+            </button>
+          </div>
+        </div>
+      )}
+
+      <Modal
+        isOpen={dialog !== null}
+        onClose={() => !working && setDialog(null)}
+        title={dialog ? dialogTitles[dialog] : ''}
+        size="sm"
+      >
+        <div className="p-6 space-y-4">
+          {dialog === 'enable' && (
+            <p className="text-body-small text-neutral-stone">
+              口令只保存在你的记忆中，遗忘后加密的记录将无法恢复。
+            </p>
+          )}
+          {(dialog === 'change' || dialog === 'disable') && (
+            <input
+              type="password"
+              value={form.current}
+              onChange={(e) => setForm({ ...form, current: e.target.value })}
+              placeholder="当前口令"
+              className={inputClassName}
+            />
+          )}
+          {(dialog === 'enable' || dialog === 'change') && (
+            <>
+              <input
+                type="password"
+                value={form.next}
+                onChange={(e) => setForm({ ...form, next: e.target.value })}
+                placeholder="新口令"
+                className={inputClassName}
+              />
+              <input
+                type="password"
+                value={form.confirm}
+                onChange={(e) => setForm({ ...form, confirm: e.target.value })}
+                placeholder="再次输入新口令"
+                className={inputClassName}
+              />
+            </>
+          )}
+          {dialog === 'enable' && (
+            <div className="flex gap-8">
+              {(['private', 'all'] as VaultScope[]).map(scope => (
+                <button
+                  key={scope}
+                  onClick={() => setForm({ ...form, scope })}
+                  className={`px-12 py-4 rounded-full text-caption transition-colors ${
+                    form.scope === scope
+                      ? 'bg-primary-500 text-white'
+                      : 'bg-neutral-cloud text-neutral-earth hover:bg-primary-50'
+                  }`}
+                >
+                  {scope === 'all' ? '加密全部记录' : '仅加密私密记录'}
+                </button>
+              ))}
+            </div>
+          )}
+          {dialog === 'disable' && (
+            <p className="text-body-small text-neutral-stone">
+              关闭后所有记录将解密保存在本地。
+            </p>
+          )}
+          <div className="flex justify-end gap-3">
+            <Button variant="secondary" size="sm" onClick={() => setDialog(null)} disabled={working}>
+              取消
+            </Button>
+            <Button size="sm" onClick={handleSubmit} loading={working}>
+              确定
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      <VaultUnlockModal isOpen={showUnlock} onClose={() => setShowUnlock(false)} />
+    </>
+  );
+};
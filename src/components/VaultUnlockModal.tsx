@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { JournalVault } from '../lib/security';
+
+interface VaultUnlockModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onUnlocked?: () => void;
+}
+
+export const VaultUnlockModal: React.FC<VaultUnlockModalProps> = ({
+  isOpen,
+  onClose,
+  onUnlocked,
+}) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+
+  const handleUnlock = async () => {
+    if (!passphrase) return;
+    setUnlocking(true);
+    setError('');
+    try {
+      const success = await JournalVault.getInstance().unlock(passphrase);
+      if (success) {
+        setPassphrase('');
+        onUnlocked?.();
+        onClose();
+      } else {
+        setError('口令不正确');
+      }
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="解锁日记库" size="sm">
+      <div className="p-6 space-y-4">
+        <div className="flex items-center gap-3 text-body-small text-neutral-stone">
+          <Lock className="w-5 h-5 text-primary-500" />
+          输入口令后，本次使用期间可查看加密记录
+        </div>
+        <input
+          type="password"
+          value={passphrase}
+          autoFocus
+          onChange={(e) => setPassphrase(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleUnlock();
+          }}
+          placeholder="日记库口令"
+          className="w-full p-12 rounded-lg border-2 border-neutral-mist text-body focus:outline-none focus:border-primary-500 transition-colors"
+        />
+        {error && <p className="text-body-small text-semantic-error">{error}</p>}
+        <div className="flex justify-end gap-3">
+          <Button variant="secondary" size="sm" onClick={onClose}>
+            取消
+          </Button>
+          <Button size="sm" onClick={handleUnlock} loading={unlocking} disabled={!passphrase}>
+            解锁
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
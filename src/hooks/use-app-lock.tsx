@@ -0,0 +1,20 @@
+import * as React from "react"
+import { AppLock } from "../lib/security"
+
+// 订阅应用锁状态
+export function useAppLocked() {
+  const [locked, setLocked] = React.useState(() => AppLock.getInstance().isLocked())
+
+  React.useEffect(() => {
+    const onChange = () => setLocked(AppLock.getInstance().isLocked())
+    window.addEventListener("app-locked", onChange)
+    window.addEventListener("app-unlocked", onChange)
+    onChange()
+    return () => {
+      window.removeEventListener("app-locked", onChange)
+      window.removeEventListener("app-unlocked", onChange)
+    }
+  }, [])
+
+  return locked
+}
@@ -0,0 +1,251 @@
+import type { AIModelConfig, AIProvider } from '../types';
+
+/**
+ * AI服务商适配层
+ * 每个服务商负责自己的请求地址、鉴权头、请求体和响应解析，以及把错误统一成可识别的文案
+ */
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ProviderRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+export interface ChatOptions {
+  stream?: boolean;
+  maxTokens?: number;
+  temperature?: number;
+  jsonMode?: boolean; // 要求模型只输出JSON对象
+}
+
+export interface ProviderAdapter {
+  label: string;
+  defaultApiUrl: string; // OpenAI兼容的 base URL（不含 /chat/completions）
+  defaultModel: string;
+  requiresApiKey: boolean;
+  supportsModelList: boolean; // 是否提供 /models 接口
+  supportsJsonMode: boolean; // 是否支持 response_format: json_object
+  isLocal: boolean; // 运行在本机，请求不离开设备
+  timeout: number; // 非流式请求的总时长，以及流式请求两段内容之间的最长等待（毫秒）
+  authHeaders(apiKey?: string): Record<string, string>;
+  buildRequest(config: AIModelConfig, messages: ChatMessage[], options?: ChatOptions): ProviderRequest;
+  parseResponse(data: any): string;
+  parseStreamChunk(data: any): string;
+  normalizeError(status: number, body: string): string;
+}
+
+// 统一后的错误文案，aiService 按这些关键字选择降级回应
+export const PROVIDER_ERRORS = {
+  MISSING_KEY: 'API key not configured',
+  UNAUTHORIZED: 'API key invalid',
+  RATE_LIMIT: 'rate limit exceeded',
+  BAD_REQUEST: 'invalid request',
+  UNAVAILABLE: 'AI service unavailable',
+};
+
+const DEFAULT_MAX_TOKENS = 200;
+const DEFAULT_TEMPERATURE = 0.8;
+const DEFAULT_TIMEOUT = 60 * 1000;
+// CPU推理时加载模型和处理长提示词都可能要几分钟
+const LOCAL_TIMEOUT = 10 * 60 * 1000;
+
+/**
+ * 拼出 chat/completions 地址；已是完整地址时原样使用
+ */
+export function resolveChatUrl(baseUrl: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+  return trimmed.endsWith('/chat/completions') ? trimmed : `${trimmed}/chat/completions`;
+}
+
+/**
+ * 拼出 /models 地址
+ */
+export function resolveModelsUrl(baseUrl: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '').replace(/\/chat\/completions$/, '');
+  return `${trimmed}/models`;
+}
+
+function extractErrorMessage(body: string): string {
+  try {
+    const data = JSON.parse(body);
+    return data.error?.message || data.error_msg || data.message || data.msg || body;
+  } catch {
+    return body;
+  }
+}
+
+function normalizeHttpError(status: number, body: string): string {
+  const detail = extractErrorMessage(body).slice(0, 200);
+  if (status === 401 || status === 403) return `${PROVIDER_ERRORS.UNAUTHORIZED} (${status}): ${detail}`;
+  if (status === 429) return `${PROVIDER_ERRORS.RATE_LIMIT} (${status}): ${detail}`;
+  if (status >= 400 && status < 500) return `${PROVIDER_ERRORS.BAD_REQUEST} (${status}): ${detail}`;
+  return `${PROVIDER_ERRORS.UNAVAILABLE} (${status}): ${detail}`;
+}
+
+/**
+ * OpenAI兼容协议的通用适配器，各服务商在此基础上覆盖差异
+ */
+function createOpenAICompatibleAdapter(
+  base: Pick<ProviderAdapter, 'label' | 'defaultApiUrl' | 'defaultModel'> & Partial<ProviderAdapter>
+): ProviderAdapter {
+  return {
+    requiresApiKey: true,
+    supportsModelList: true,
+    supportsJsonMode: true,
+    isLocal: false,
+    timeout: DEFAULT_TIMEOUT,
+    authHeaders(apiKey) {
+      return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+    },
+    buildRequest(config, messages, options = {}) {
+      const body: Record<string, unknown> = {
+        model: config.model || base.defaultModel,
+        messages,
+        max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+        stream: Boolean(options.stream),
+      };
+      if (options.jsonMode && this.supportsJsonMode) {
+        body.response_format = { type: 'json_object' };
+      }
+
+      return {
+        url: resolveChatUrl(config.apiUrl || base.defaultApiUrl),
+        headers: { 'Content-Type': 'application/json', ...this.authHeaders(config.apiKey) },
+        body,
+      };
+    },
+    parseResponse(data) {
+      const content = data?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new Error('API返回格式错误');
+      }
+      return content.trim();
+    },
+    parseStreamChunk(data) {
+      return data?.choices?.[0]?.delta?.content || '';
+    },
+    normalizeError: normalizeHttpError,
+    ...base,
+  };
+}
+
+export const PROVIDER_ADAPTERS: Record<AIProvider, ProviderAdapter> = {
+  deepseek: createOpenAICompatibleAdapter({
+    label: 'DeepSeek',
+    defaultApiUrl: 'https://api.deepseek.com',
+    defaultModel: 'deepseek-chat',
+  }),
+  kimi: createOpenAICompatibleAdapter({
+    label: 'Kimi（月之暗面）',
+    defaultApiUrl: 'https://api.moonshot.cn/v1',
+    defaultModel: 'moonshot-v1-8k',
+  }),
+  glm: createOpenAICompatibleAdapter({
+    label: '智谱GLM',
+    defaultApiUrl: 'https://open.bigmodel.cn/api/paas/v4',
+    defaultModel: 'glm-4-flash',
+    normalizeError(status, body) {
+      // 智谱用业务码 1302/1303 表示并发或频率超限
+      const detail = extractErrorMessage(body);
+      if (/"code"\s*:\s*"?(1302|1303)/.test(body)) return `${PROVIDER_ERRORS.RATE_LIMIT} (${status}): ${detail}`;
+      return normalizeHttpError(status, body);
+    },
+  }),
+  qwen: createOpenAICompatibleAdapter({
+    label: '通义千问',
+    defaultApiUrl: 'https://dashscope.aliyuncs.com/compatible-mode/v1',
+    defaultModel: 'qwen-turbo',
+  }),
+  wenxin: createOpenAICompatibleAdapter({
+    label: '文心一言',
+    defaultApiUrl: 'https://qianfan.baidubce.com/v2',
+    defaultModel: 'ernie-speed-128k',
+    supportsModelList: false,
+    // 千帆旧版接口把回答放在 result 字段，错误以 error_code 返回且HTTP状态为200
+    parseResponse(data) {
+      if (data?.error_code) {
+        throw new Error(`${PROVIDER_ERRORS.UNAVAILABLE}: ${data.error_msg || data.error_code}`);
+      }
+      const content = data?.choices?.[0]?.message?.content ?? data?.result;
+      if (typeof content !== 'string') {
+        throw new Error('API返回格式错误');
+      }
+      return content.trim();
+    },
+    parseStreamChunk(data) {
+      return data?.choices?.[0]?.delta?.content || data?.result || '';
+    },
+  }),
+  spark: createOpenAICompatibleAdapter({
+    label: '讯飞星火',
+    defaultApiUrl: 'https://spark-api-open.xf-yun.com/v1',
+    defaultModel: 'lite',
+    supportsModelList: false,
+    supportsJsonMode: false,
+    // 星火在HTTP 200中用非0的 code 表示错误
+    parseResponse(data) {
+      if (data?.code && data.code !== 0) {
+        const message = `${data.message || data.code}`;
+        throw new Error(data.code === 11202 || data.code === 11203
+          ? `${PROVIDER_ERRORS.RATE_LIMIT}: ${message}`
+          : `${PROVIDER_ERRORS.UNAVAILABLE}: ${message}`);
+      }
+      const content = data?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new Error('API返回格式错误');
+      }
+      return content.trim();
+    },
+  }),
+  local: createOpenAICompatibleAdapter({
+    label: '本地模型',
+    defaultApiUrl: 'http://localhost:11434/v1',
+    defaultModel: '',
+    requiresApiKey: false,
+    // 各本地服务对 response_format 的支持不一，依靠提示词和解析容错
+    supportsJsonMode: false,
+    isLocal: true,
+    timeout: LOCAL_TIMEOUT,
+  }),
+  custom: createOpenAICompatibleAdapter({
+    label: '自定义（OpenAI兼容）',
+    defaultApiUrl: '',
+    defaultModel: '',
+    // 自建或内网服务可能不需要密钥
+    requiresApiKey: false,
+  }),
+};
+
+export function getProviderAdapter(provider: AIProvider): ProviderAdapter {
+  return PROVIDER_ADAPTERS[provider] || PROVIDER_ADAPTERS.custom;
+}
+
+/**
+ * 判断地址是否指向本机
+ */
+export function isLoopbackUrl(url: string): boolean {
+  try {
+    const { hostname } = new URL(url.trim());
+    return hostname === 'localhost' || hostname.endsWith('.localhost') || hostname === '[::1]' || /^127(\.\d{1,3}){3}$/.test(hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 检查模型配置是否足以直接调用
+ */
+export function validateModelConfig(config: AIModelConfig): string | null {
+  const adapter = getProviderAdapter(config.provider);
+  if (!config.model && !adapter.defaultModel) return '请填写模型名称';
+  if (!config.apiUrl && !adapter.defaultApiUrl) return '请填写接口地址';
+  if (adapter.isLocal && !isLoopbackUrl(config.apiUrl || adapter.defaultApiUrl)) return '本地模型只能使用本机地址，如 http://localhost:11434/v1';
+  if (adapter.requiresApiKey && !config.apiKey) return PROVIDER_ERRORS.MISSING_KEY;
+  return null;
+}
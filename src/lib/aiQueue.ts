@@ -0,0 +1,215 @@
+import localforage from 'localforage';
+import type { DailyRecord, PendingAIReply } from '../types';
+import { recordsDB, isRecordLocked } from './storage';
+import { aiService } from './aiService';
+import { USAGE_LIMIT_ERROR } from './usage';
+
+/**
+ * 离线回应队列：没有网络时写下的记录先保存预设回应，联网后再补上AI回应
+ * - 带 aiPending 标记的记录即为待处理项，这里按记录ID保存每条记录的重试状态
+ * - 网络恢复、应用回到前台或到达重试时间时处理，失败按指数退避
+ * - 加密记录在日记库解锁后才处理
+ */
+
+const queueStore = localforage.createInstance({
+  name: 'daily-reflection',
+  storeName: 'ai-queue',
+});
+
+const BASE_DELAY = 30 * 1000;
+const MAX_DELAY = 30 * 60 * 1000;
+// 超过此次数仍失败时保留预设回应，不再重试
+const MAX_ATTEMPTS = 10;
+// 两条记录之间的间隔，避免恢复联网时集中请求
+const REQUEST_SPACING = 800;
+
+let processing = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+function getBackoffDelay(attempts: number): number {
+  return Math.min(BASE_DELAY * Math.pow(2, Math.max(0, attempts - 1)), MAX_DELAY);
+}
+
+// 失败一次后的重试状态
+function failedState(state: PendingAIReply, error: string): PendingAIReply {
+  const attempts = state.attempts + 1;
+  return {
+    recordId: state.recordId,
+    attempts,
+    nextAttemptAt: Date.now() + getBackoffDelay(attempts),
+    lastError: error,
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * 判断失败是否由网络不可用引起
+ */
+export function isOfflineError(error?: string): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  return Boolean(error && /Failed to fetch|NetworkError|Load failed|ECONNREFUSED|network/i.test(error));
+}
+
+// 只读取有重试状态的记录，不加载全部记录
+// 记录在回收站中时保留重试状态，恢复后继续处理
+async function getPendingRecords(): Promise<DailyRecord[]> {
+  const ids = await queueStore.keys();
+  const records = await Promise.all(ids.map(id => recordsDB.getById(id)));
+  return records.filter((record): record is DailyRecord => Boolean(record && record.aiPending));
+}
+
+async function getState(recordId: string): Promise<PendingAIReply> {
+  const state = await queueStore.getItem<PendingAIReply>(recordId);
+  // 重试状态丢失时视为立即可处理
+  return state || { recordId, attempts: 0, nextAttemptAt: 0 };
+}
+
+// 按最早的重试时间安排下一次处理
+async function scheduleNext(): Promise<void> {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+
+  const pending = await getPendingRecords();
+  if (pending.length === 0) return;
+  const states = await Promise.all(pending.map(record => getState(record.id)));
+  const nextAttemptAt = Math.min(...states.map(state => state.nextAttemptAt));
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    aiQueue.process().catch(error => console.error('处理离线回应队列失败:', error));
+  }, Math.max(nextAttemptAt - Date.now(), 1000));
+}
+
+export const aiQueue = {
+  /**
+   * 标记记录等待生成AI回应，首次重试在退避间隔之后
+   */
+  async enqueue(recordId: string, error?: string): Promise<void> {
+    await recordsDB.update(recordId, { aiPending: true });
+    await queueStore.setItem<PendingAIReply>(recordId, {
+      recordId,
+      attempts: 0,
+      nextAttemptAt: Date.now() + BASE_DELAY,
+      lastError: error,
+    });
+    await scheduleNext();
+  },
+
+  async count(): Promise<number> {
+    return (await getPendingRecords()).length;
+  },
+
+  /**
+   * 处理到期的记录；force 为 true 时忽略退避时间（如刚恢复联网）
+   * 有记录更新时派发 data-imported 事件通知界面刷新
+   */
+  async process(force = false): Promise<number> {
+    if (processing) return 0;
+    // 使用本地模型时不需要联网
+    if (typeof navigator !== 'undefined' && !navigator.onLine && !(await aiService.isLocalOnly())) return 0;
+    processing = true;
+    let completed = 0;
+
+    try {
+      const pending = await getPendingRecords();
+      for (const record of pending) {
+        const state = await getState(record.id);
+        if (!force && state.nextAttemptAt > Date.now()) continue;
+        if (isRecordLocked(record)) continue;
+
+        if (completed > 0) await sleep(REQUEST_SPACING);
+        const result = await aiService.generateResponse({
+          content: record.content,
+          tags: record.tags,
+          isPrivate: record.isPrivate,
+          personaId: record.personaId,
+          date: record.date,
+        });
+
+        try {
+          // 超出用量软上限时不计失败次数，过一段时间再看
+          if (result.error === USAGE_LIMIT_ERROR) {
+            await queueStore.setItem<PendingAIReply>(record.id, {
+              ...state,
+              nextAttemptAt: Date.now() + MAX_DELAY,
+              lastError: result.error,
+            });
+            break;
+          }
+
+          // 没有 modelId 表示所有模型都失败，返回的是预设回应
+          if (!result.modelId) {
+            const error = result.error || '暂无可用的AI模型';
+            const failed = failedState(state, error);
+            if (failed.attempts >= MAX_ATTEMPTS) {
+              await recordsDB.update(record.id, { aiPending: false });
+              await queueStore.removeItem(record.id);
+              completed++;
+            } else {
+              await queueStore.setItem<PendingAIReply>(record.id, failed);
+            }
+            // 仍然连不上网络时，其余记录等下一次
+            if (isOfflineError(error)) break;
+            continue;
+          }
+
+          await recordsDB.update(record.id, {
+            aiResponse: result.response,
+            aiModel: result.modelName,
+            aiPending: false,
+            // 只用AI的情绪分析替换离线时的本地评分
+            emotionAnalysis: result.emotionAnalysis?.source === 'ai' ? result.emotionAnalysis : record.emotionAnalysis,
+          });
+          await queueStore.removeItem(record.id);
+          completed++;
+        } catch (error) {
+          // 处理期间日记库被锁定等原因写入失败，同样计入失败次数，按退避时间再处理
+          console.error('更新离线记录的AI回应失败:', error);
+          const message = error instanceof Error ? error.message : '更新记录失败';
+          await queueStore.setItem<PendingAIReply>(record.id, failedState(state, message))
+            .catch(stateError => console.error('保存离线回应重试状态失败:', stateError));
+        }
+      }
+    } finally {
+      processing = false;
+    }
+
+    if (completed > 0) {
+      window.dispatchEvent(new CustomEvent('data-imported'));
+    }
+    await scheduleNext();
+    return completed;
+  },
+};
+
+/**
+ * 启动离线队列：恢复联网、回到前台和日记库解锁时处理，返回停止函数
+ */
+export function startAIQueueWatch(): () => void {
+  const run = (force: boolean) => {
+    if (document.visibilityState === 'hidden') return;
+    aiQueue.process(force).catch(error => console.error('处理离线回应队列失败:', error));
+  };
+  const handleOnline = () => run(true);
+  const handleResume = () => run(false);
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible') run(false);
+  };
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('vault-unlocked', handleResume);
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  // 启动时处理上次未完成的记录
+  const initialTimer = setTimeout(handleResume, 3 * 1000);
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('vault-unlocked', handleResume);
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+    clearTimeout(initialTimer);
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+  };
+}
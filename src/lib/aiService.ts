@@ -1,6 +1,25 @@
-import type { AIResponseRequest, AIResponseResult } from '../types';
+import type { AIModelConfig, AIProvider, AIResponseRequest, AIResponseResult, ConversationMessage, DailyRecord, EmotionAnalysis, ProxyQuota, RiskLevel } from '../types';
 import { aiSettingsDB } from './aiSettingsDB';
-import { GENTLE_RESPONSE_PROMPT } from './aiModels';
+import {
+  ELEVATED_RISK_GUIDANCE,
+  EMOTION_ANALYSIS_PROMPT,
+  NARRATIVE_REPORT_PROMPT,
+  SAFETY_FALLBACK_RESPONSE,
+  SAFETY_RESPONSE_PROMPT,
+  THREAD_FOLLOW_UP_PROMPT,
+} from './aiModels';
+import { buildPromptVariables, renderPromptTemplate, resolvePersona } from './personas';
+import { settingsDB, tagsDB } from './storage';
+import { memoryDB } from './memory';
+import { assessConversationRisk, assessRisk, getSafetyHotlines } from './crisisDetection';
+import { getProviderAdapter, validateModelConfig } from './aiProviders';
+import { circuitBreaker } from './circuitBreaker';
+import { analyzeEmotionLocally, analyzeEmotionOffline, parseEmotionAnalysis } from './emotionAnalysis';
+import { getRedactionSettings, redactMessages } from './redaction';
+import type { RedactedMessages, RedactionMatch } from './redaction';
+import { USAGE_LIMIT_ERROR, classifyUsageError, estimateTokenUsage, parseTokenUsage, usageDB } from './usage';
+import type { TokenUsage } from './usage';
+import type { ChatMessage, ChatOptions } from './aiProviders';
 
 // API代理基础URL
 // 开发环境使用环境变量，生产环境自动使用相对路径（无需知道具体域名）
@@ -8,21 +27,268 @@ const API_PROXY_URL = import.meta.env.DEV && import.meta.env.VITE_API_BASE_URL
   ? import.meta.env.VITE_API_BASE_URL 
   : '/.netlify/functions/zhipu-proxy';
 
+// 流式回应代理URL
+const API_STREAM_URL = import.meta.env.DEV && import.meta.env.VITE_API_STREAM_URL
+  ? import.meta.env.VITE_API_STREAM_URL
+  : '/.netlify/functions/zhipu-stream';
+
+interface StreamOptions {
+  onToken?: (text: string) => void; // 每收到新内容时回调当前累积的全文
+  signal?: AbortSignal;
+}
+
+/**
+ * 按回应风格生成系统提示词，填入昵称、情绪标签和时段，并附加AI记忆
+ * 高风险时改用安全提示词并附上求助热线，需要留意时在风格后附加安全指引
+ */
+async function resolveSystemPrompt(request: AIResponseRequest, riskLevel: RiskLevel = 'none'): Promise<string> {
+  const [aiSettings, userSettings, tags] = await Promise.all([aiSettingsDB.get(), settingsDB.get(), tagsDB.getAll()]);
+  let prompt: string;
+  if (riskLevel === 'high') {
+    const hotlines = getSafetyHotlines(aiSettings).map(hotline => `- ${hotline.name}：${hotline.number}`);
+    prompt = `${SAFETY_RESPONSE_PROMPT}\n\n可以推荐的求助热线：\n${hotlines.join('\n')}`;
+  } else {
+    const persona = resolvePersona(aiSettings, request.personaId);
+    const tagNames = request.tags.map(id => tags.find(tag => tag.id === id)?.name || id);
+    const date = request.date ? new Date(request.date) : new Date();
+    prompt = renderPromptTemplate(persona.template, buildPromptVariables(userSettings.nickname, tagNames, date));
+    if (riskLevel === 'elevated') prompt = `${prompt}\n\n${ELEVATED_RISK_GUIDANCE}`;
+  }
+
+  // 附加本地汇总的用户近况
+  const memory = await memoryDB.getContext().catch(() => '');
+  return memory ? `${prompt}\n\n${memory}` : prompt;
+}
+
+/**
+ * 构建发送给模型的消息
+ */
+function buildMessages(request: AIResponseRequest, systemPrompt: string): ChatMessage[] {
+  const emotionTags = request.tags.length > 0 
+    ? `[情绪标签: ${request.tags.join('、')}]` 
+    : '';
+  const userMessage = `${emotionTags}\n\n${request.content}`;
+
+  return [
+    {
+      role: 'system',
+      content: systemPrompt,
+    },
+    {
+      role: 'user',
+      content: userMessage,
+    },
+  ];
+}
+
+// 情绪分析请求的消息
+function buildEmotionMessages(content: string): ChatMessage[] {
+  return [
+    { role: 'system', content: EMOTION_ANALYSIS_PROMPT },
+    { role: 'user', content },
+  ];
+}
+
+// 追问时最多带上的历史消息条数
+const MAX_THREAD_CONTEXT = 12;
+
+/**
+ * 构建记录对话的消息：原始记录、首次回应和之前的对话作为上下文
+ */
+async function buildThreadMessages(
+  record: DailyRecord,
+  thread: ConversationMessage[],
+  riskLevel: RiskLevel
+): Promise<ChatMessage[]> {
+  const request: AIResponseRequest = { content: record.content, tags: record.tags, personaId: record.personaId, date: record.date };
+  const [system, entry] = buildMessages(request, await resolveSystemPrompt(request, riskLevel));
+  const messages: ChatMessage[] = [
+    { role: 'system', content: `${system.content}\n\n${THREAD_FOLLOW_UP_PROMPT}` },
+    entry,
+  ];
+  if (record.aiResponse) {
+    messages.push({ role: 'assistant', content: record.aiResponse });
+  }
+  thread.slice(-MAX_THREAD_CONTEXT).forEach(message => {
+    messages.push({ role: message.role, content: message.content });
+  });
+  return messages;
+}
+
+type StreamChunkParser = (data: any) => string;
+
+const parseOpenAIDelta: StreamChunkParser = data => data?.choices?.[0]?.delta?.content || '';
+
+/**
+ * 解析一行SSE数据，返回增量文本；遇到结束标记返回null
+ */
+function parseSSELine(line: string, parseChunk: StreamChunkParser): string | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('data:')) return '';
+
+  const data = trimmed.slice(5).trim();
+  if (data === '[DONE]') return null;
+
+  try {
+    return parseChunk(JSON.parse(data));
+  } catch {
+    return '';
+  }
+}
+
+// 代理额度用完时记下剩余为0，用量面板据此显示
+async function saveExhaustedQuota(errorText: string): Promise<void> {
+  const quota = errorText.includes('Daily API limit exceeded') ? { globalRemaining: 0 } : { ipRemaining: 0 };
+  await usageDB.saveQuota(quota).catch(() => undefined);
+}
+
+/**
+ * 调用流式代理，按到达顺序逐段产出回应文本
+ */
+async function* streamAPIProxy(
+  messages: ChatMessage[],
+  signal?: AbortSignal,
+  onUsage?: (usage: TokenUsage) => void
+): AsyncGenerator<string> {
+  const response = await fetch(API_STREAM_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: import.meta.env.ZHIPU_MODEL || 'glm-4-flash',
+      messages,
+    }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const errorText = await response.text();
+    if (response.status === 429) {
+      await saveExhaustedQuota(errorText);
+    }
+    throw new Error(`API请求失败 (${response.status}): ${errorText}`);
+  }
+
+  // 流式响应的剩余配额放在响应头中
+  const globalRemaining = response.headers.get('X-RateLimit-Global-Remaining');
+  const ipRemaining = response.headers.get('X-RateLimit-IP-Remaining');
+  if (globalRemaining !== null && ipRemaining !== null) {
+    await usageDB.saveQuota({
+      globalRemaining: Number(globalRemaining),
+      ipRemaining: Number(ipRemaining),
+    }).catch(() => undefined);
+  }
+
+  yield* readSSEStream(response, parseOpenAIDelta, onUsage);
+}
+
+/**
+ * 直接流式调用用户选择的模型，超过服务商的等待时长仍没有新内容时中止
+ */
+async function* streamModel(
+  config: AIModelConfig,
+  messages: ChatMessage[],
+  signal?: AbortSignal,
+  onUsage?: (usage: TokenUsage) => void
+): AsyncGenerator<string> {
+  const adapter = getProviderAdapter(config.provider);
+  const { url, headers, body } = adapter.buildRequest(config, messages, { stream: true });
+  // 用户取消和等待超时共用一个中止信号
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal?.addEventListener('abort', abort);
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const resetTimer = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, adapter.timeout);
+  };
+
+  try {
+    resetTimer();
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(adapter.normalizeError(response.status, await response.text()));
+    }
+
+    for await (const token of readSSEStream(response, data => adapter.parseStreamChunk(data), onUsage)) {
+      resetTimer();
+      yield token;
+    }
+  } catch (error) {
+    if (timedOut) throw new Error(formatTimeoutError(adapter.timeout));
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', abort);
+  }
+}
+
+function formatTimeoutError(timeout: number): string {
+  return `请求超时（${Math.round(timeout / 1000)}秒内没有收到回应）`;
+}
+
+/**
+ * 逐行读取SSE响应体，带 usage 的数据块（通常是最后一块）通过 onUsage 回调
+ */
+async function* readSSEStream(
+  response: Response,
+  parseChunk: StreamChunkParser,
+  onUsage?: (usage: TokenUsage) => void
+): AsyncGenerator<string> {
+  const parseWithUsage: StreamChunkParser = data => {
+    const usage = parseTokenUsage(data);
+    if (usage) onUsage?.(usage);
+    return parseChunk(data);
+  };
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      // 最后一行可能不完整，留到下一块再解析
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const token = parseSSELine(line, parseWithUsage);
+        if (token === null) return;
+        if (token) yield token;
+      }
+    }
+
+    const token = parseSSELine(buffer, parseWithUsage);
+    if (token) yield token;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
 /**
  * 调用API代理服务生成回应
  */
-async function callAPIProxy(request: AIResponseRequest): Promise<{
+async function callAPIProxy(messages: ChatMessage[], options: ChatOptions = {}): Promise<{
   response: string;
-  usage?: { remaining: number };
+  usage?: TokenUsage;
+  quota?: Omit<ProxyQuota, 'updatedAt'>;
   error?: string;
 }> {
   try {
-    // 构建用户消息
-    const emotionTags = request.tags.length > 0 
-      ? `[情绪标签: ${request.tags.join('、')}]` 
-      : '';
-    const userMessage = `${emotionTags}\n\n${request.content}`;
-
     const response = await fetch(API_PROXY_URL, {
       method: 'POST',
       headers: {
@@ -30,21 +296,18 @@ async function callAPIProxy(request: AIResponseRequest): Promise<{
       },
       body: JSON.stringify({
         model: import.meta.env.ZHIPU_MODEL || 'glm-4-flash',
-        messages: [
-          {
-            role: 'system',
-            content: GENTLE_RESPONSE_PROMPT,
-          },
-          {
-            role: 'user',
-            content: userMessage,
-          },
-        ],
+        messages,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        response_format: options.jsonMode ? { type: 'json_object' } : undefined,
       }),
     });
 
     if (!response.ok) {
       const errorText = await response.text();
+      if (response.status === 429) {
+        await saveExhaustedQuota(errorText);
+      }
       return {
         response: '',
         error: `API请求失败 (${response.status}): ${errorText}`,
@@ -52,6 +315,9 @@ async function callAPIProxy(request: AIResponseRequest): Promise<{
     }
 
     const data = await response.json();
+    if (data.rateLimit) {
+      await usageDB.saveQuota(data.rateLimit).catch(() => undefined);
+    }
     
     if (!data.success) {
       return {
@@ -69,7 +335,8 @@ async function callAPIProxy(request: AIResponseRequest): Promise<{
 
     return {
       response: data.data.choices[0].message.content.trim(),
-      usage: data.rateLimit,
+      usage: parseTokenUsage(data.data),
+      quota: data.rateLimit,
     };
     
   } catch (error) {
@@ -80,50 +347,339 @@ async function callAPIProxy(request: AIResponseRequest): Promise<{
   }
 }
 
+/**
+ * 直接调用用户选择的模型生成回应
+ */
+async function callModel(config: AIModelConfig, messages: ChatMessage[], options: ChatOptions = {}): Promise<{
+  response: string;
+  usage?: TokenUsage;
+  error?: string;
+}> {
+  const adapter = getProviderAdapter(config.provider);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), adapter.timeout);
+
+  try {
+    const { url, headers, body } = adapter.buildRequest(config, messages, options);
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      return {
+        response: '',
+        error: adapter.normalizeError(response.status, await response.text()),
+      };
+    }
+
+    const data = await response.json();
+    return {
+      response: adapter.parseResponse(data),
+      usage: parseTokenUsage(data),
+    };
+  } catch (error) {
+    return {
+      response: '',
+      error: controller.signal.aborted
+        ? formatTimeoutError(adapter.timeout)
+        : error instanceof Error ? error.message : '网络请求失败',
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * 获取当前选中且可直接调用的模型；未选择时使用内置代理服务
+ */
+async function getSelectedModel(): Promise<AIModelConfig | null> {
+  const settings = await aiSettingsDB.get();
+  if (!settings.selectedModelId) return null;
+
+  const model = settings.models.find(m => m.id === settings.selectedModelId);
+  if (!model || !isModelConfigured(model)) return null;
+  return model;
+}
+
+// 用户明确选择的模型只要配置完整就照常使用，检测状态只用于提示
+function isModelConfigured(model: AIModelConfig): boolean {
+  if (!model.available) return false;
+
+  const invalid = validateModelConfig(model);
+  if (invalid) {
+    console.warn(`模型 ${model.name} 配置不完整（${invalid}），已跳过`);
+    return false;
+  }
+  return true;
+}
+
+// 备用模型还要求检测未判定为停用，避免自动切换到失效的模型
+function isModelUsable(model: AIModelConfig): boolean {
+  return model.status !== 'disabled' && isModelConfigured(model);
+}
+
+// 回应链上的一个目标，model 为 null 表示内置代理服务
+interface AITarget {
+  id: string;
+  name: string;
+  model: AIModelConfig | null;
+}
+
+const PROXY_TARGET: AITarget = { id: 'proxy', name: '智谱GLM-4-Flash', model: null };
+
+// 瞬时错误的重试次数和退避基数
+const MAX_RETRIES = 2;
+const RETRY_BASE_DELAY = 500;
+
+function isLocalModel(model: AIModelConfig): boolean {
+  return getProviderAdapter(model.provider).isLocal;
+}
+
+/**
+ * 按用户顺序构建切换链：所选模型优先，其余模型按列表顺序，内置代理兜底
+ * 选择本地模型时只在本地模型之间切换，所选模型暂不可用也不会改用云端
+ */
+async function getFailoverChain(): Promise<AITarget[]> {
+  const settings = await aiSettingsDB.get();
+  const selected = settings.models.find(m => m.id === settings.selectedModelId && isModelConfigured(m));
+  const usable = settings.models.filter(isModelUsable);
+  const toTarget = (model: AIModelConfig): AITarget => ({ id: model.id, name: model.name, model });
+
+  const selectedConfig = settings.models.find(m => m.id === settings.selectedModelId);
+  if (selectedConfig && isLocalModel(selectedConfig)) {
+    if (settings.failoverEnabled === false) return selected ? [toTarget(selected)] : [];
+    const local = usable.filter(m => m !== selected && isLocalModel(m));
+    return (selected ? [selected, ...local] : local).map(toTarget);
+  }
+
+  if (settings.failoverEnabled === false) {
+    return [selected ? toTarget(selected) : PROXY_TARGET];
+  }
+
+  const chain = selected ? [toTarget(selected)] : [PROXY_TARGET];
+  usable.filter(m => m !== selected).forEach(m => chain.push(toTarget(m)));
+  if (selected) chain.push(PROXY_TARGET);
+  return chain;
+}
+
+// 限流、服务端错误、网络和超时视为瞬时错误，值得重试
+function isTransientError(error: string): boolean {
+  return /rate limit|limit exceeded|unavailable|\((429|5\d\d)\)|Failed to fetch|ECONNREFUSED|network|timeout|超时/i.test(error);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// 本地模型超时或服务未启动时重试只会让用户等得更久
+function getMaxRetries(target: AITarget): number {
+  return target.model && isLocalModel(target.model) ? 0 : MAX_RETRIES;
+}
+
+/**
+ * 记录一次调用的用量，服务商没有返回tokens时按字数估算
+ */
+function recordUsage(
+  target: AITarget,
+  messages: ChatMessage[],
+  startedAt: number,
+  outcome: { text: string; usage?: TokenUsage; error?: string; cancelled?: boolean }
+): void {
+  // 一个字都没收到的失败或取消不计tokens
+  const usage = outcome.usage || (!outcome.text && (outcome.error || outcome.cancelled)
+    ? { promptTokens: 0, completionTokens: 0 }
+    : estimateTokenUsage(messages, outcome.text));
+  usageDB.record({
+    modelId: target.id,
+    modelName: target.name,
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    estimated: usage.estimated,
+    latency: Date.now() - startedAt,
+    category: classifyUsageError(outcome.error, outcome.cancelled),
+    error: outcome.error,
+  });
+}
+
+/**
+ * 按设置隐去消息中的个人信息，所有发往模型的请求都经过这里
+ */
+async function redactOutgoing(messages: ChatMessage[]): Promise<RedactedMessages> {
+  return redactMessages(messages, getRedactionSettings(await aiSettingsDB.get()));
+}
+
+/**
+ * 调用单个目标一次并记录用量，回应中的占位符还原为原文
+ */
+async function callTarget(target: AITarget, messages: ChatMessage[], options: ChatOptions = {}): Promise<{
+  response: string;
+  quota?: Omit<ProxyQuota, 'updatedAt'>;
+  error?: string;
+}> {
+  const { messages: outgoing, restore } = await redactOutgoing(messages);
+  const startedAt = Date.now();
+  const result: { response: string; usage?: TokenUsage; quota?: Omit<ProxyQuota, 'updatedAt'>; error?: string } = target.model
+    ? await callModel(target.model, outgoing, options)
+    : await callAPIProxy(outgoing, options);
+  recordUsage(target, outgoing, startedAt, { text: result.response, usage: result.usage, error: result.error });
+  return { ...result, response: restore(result.response) };
+}
+
+/**
+ * 调用单个目标，瞬时错误按指数退避重试
+ */
+async function callTargetWithRetry(target: AITarget, messages: ChatMessage[], options: ChatOptions = {}): Promise<{
+  response: string;
+  error?: string;
+}> {
+  let result: { response: string; error?: string } = { response: '' };
+  for (let attempt = 0; attempt <= getMaxRetries(target); attempt++) {
+    if (attempt > 0) await sleep(RETRY_BASE_DELAY * 2 ** (attempt - 1));
+    result = await callTarget(target, messages, options);
+    if (!result.error || !isTransientError(result.error)) break;
+  }
+  return result;
+}
+
+/**
+ * 检查用户设置的用量软上限，超出时返回原因
+ */
+async function getUsageLimitReason(): Promise<string | null> {
+  try {
+    const settings = await aiSettingsDB.get();
+    const providers: { [modelId: string]: AIProvider } = {};
+    settings.models.forEach(model => { providers[model.id] = model.provider; });
+    return await usageDB.checkLimits(providers);
+  } catch (error) {
+    console.error('检查AI用量上限失败:', error);
+    return null;
+  }
+}
+
+/**
+ * 取本次可用的切换链：超出用量软上限时只保留本地模型（本地模型不计入上限）
+ * 返回的链为空且有 limitReason 时，调用方改用本地回应
+ */
+async function getAllowedChain(): Promise<{ chain: AITarget[]; limitReason: string | null }> {
+  const [chain, limitReason] = await Promise.all([getFailoverChain(), getUsageLimitReason()]);
+  if (!limitReason) return { chain, limitReason };
+  return { chain: chain.filter(target => target.model && isLocalModel(target.model)), limitReason };
+}
+
 /**
  * 生成AI温柔回应
  */
+interface ChainStreamResult {
+  text: string;
+  error?: string;
+  partial?: boolean; // 取消或中途断开，text 为已收到的部分
+  target?: AITarget; // 实际给出内容的模型
+}
+
+/**
+ * 沿切换链流式调用，某个模型一个字都没返回就失败时切换到下一个
+ * 已经产出内容后中断或用户主动取消时不再切换
+ */
+async function streamThroughChain(
+  chain: AITarget[],
+  messages: ChatMessage[],
+  options: StreamOptions = {}
+): Promise<ChainStreamResult> {
+  const { onToken, signal } = options;
+  const { messages: outgoing, restore } = await redactOutgoing(messages);
+  let lastError = '';
+
+  for (const target of chain) {
+    if (!circuitBreaker.canAttempt(target.id)) continue;
+
+    for (let attempt = 0; attempt <= getMaxRetries(target); attempt++) {
+      if (attempt > 0) await sleep(RETRY_BASE_DELAY * 2 ** (attempt - 1));
+      let text = '';
+      let usage: TokenUsage | undefined;
+      const onUsage = (value: TokenUsage) => { usage = value; };
+      const startedAt = Date.now();
+
+      try {
+        const stream = target.model
+          ? streamModel(target.model, outgoing, signal, onUsage)
+          : streamAPIProxy(outgoing, signal, onUsage);
+        for await (const token of stream) {
+          text += token;
+          onToken?.(restore(text));
+        }
+
+        if (!text.trim()) throw new Error('API返回内容为空');
+
+        recordUsage(target, outgoing, startedAt, { text, usage });
+        circuitBreaker.recordSuccess(target.id);
+        return { text: restore(text).trim(), target };
+      } catch (error) {
+        const cancelled = signal?.aborted;
+        const message = error instanceof Error ? error.message : '网络请求失败';
+        recordUsage(target, outgoing, startedAt, { text, usage, error: cancelled ? undefined : message, cancelled });
+
+        if (text.trim() || cancelled) {
+          if (!cancelled) console.error('流式回应中断:', message);
+          return {
+            text: restore(text).trim(),
+            error: cancelled ? undefined : message,
+            partial: true,
+            target: text.trim() ? target : undefined,
+          };
+        }
+
+        lastError = message;
+        if (!isTransientError(message)) break;
+      }
+    }
+
+    console.error(`模型 ${target.name} 流式调用失败:`, lastError);
+    circuitBreaker.recordFailure(target.id);
+  }
+
+  return { text: '', error: lastError || '暂无可用的AI模型' };
+}
+
 export const aiService = {
   async generateResponse(request: AIResponseRequest): Promise<AIResponseResult> {
     try {
-      // 调用API代理服务
-      const result = await callAPIProxy(request);
-      
-      if (result.error) {
-        console.error('API代理调用失败:', result.error);
-        
-        // 根据错误类型提供不同回应
-        if (result.error.includes('rate limit') || result.error.includes('limit exceeded')) {
-          return {
-            response: '今日AI回应次数已达上限，请明天再试。您的记录已保存，我会继续陪伴您。',
-            error: result.error,
-            emotionAnalysis: analyzeEmotion(request.content)
-          };
-        } else if (result.error.includes('API key not configured')) {
-          return {
-            response: 'AI服务暂时不可用，但我会用心倾听。您的感受很重要，记录本身就是一种治愈。',
-            error: result.error,
-            emotionAnalysis: analyzeEmotion(request.content)
-          };
-        } else if (result.error.includes('Failed to fetch') || result.error.includes('ECONNREFUSED')) {
+      // 超出用量软上限且没有本地模型时只使用本地回应
+      const { chain, limitReason } = await getAllowedChain();
+      if (limitReason && chain.length === 0) return this.getErrorResponse(request, USAGE_LIMIT_ERROR);
+
+      // 发送前先在本地识别危机语言
+      const riskLevel = assessRisk(request.content).level;
+      const messages = buildMessages(request, await resolveSystemPrompt(request, riskLevel));
+      // 情绪分析与回应并行进行
+      const emotionPromise = this.analyzeEmotion(request.content, request.isPrivate, true);
+      let lastError = '';
+
+      // 依次尝试切换链上的模型，熔断中的模型直接跳过
+      for (const target of chain) {
+        if (!circuitBreaker.canAttempt(target.id)) continue;
+
+        const result = await callTargetWithRetry(target, messages);
+        if (!result.error) {
+          circuitBreaker.recordSuccess(target.id);
           return {
-            response: '暂时连接不上AI服务，但我在这里陪伴您。您的记录已保存，每一次记录都很有意义。',
-            error: result.error,
-            emotionAnalysis: analyzeEmotion(request.content)
+            response: result.response,
+            emotionAnalysis: await emotionPromise,
+            modelId: target.id,
+            modelName: target.name,
+            riskLevel,
           };
         }
-        
-        // 其他错误时使用降级回应
-        return this.getFallbackResponse(request);
-      }
 
-      // 情绪分析
-      const emotionAnalysis = analyzeEmotion(request.content);
+        console.error(`模型 ${target.name} 调用失败:`, result.error);
+        circuitBreaker.recordFailure(target.id);
+        lastError = result.error;
+      }
 
-      return {
-        response: result.response,
-        emotionAnalysis,
-      };
+      // 所有模型都失败时才使用预设回应
+      return this.getErrorResponse(request, lastError || '暂无可用的AI模型');
       
     } catch (error) {
       console.error('AI回应生成失败:', error);
@@ -133,10 +689,221 @@ export const aiService = {
     }
   },
 
+  /**
+   * 流式生成AI回应，内容随到达通过 onToken 回调
+   * 某个模型一个字都没返回就失败时切换到下一个；取消或中途断开时返回已收到的部分（partial）
+   */
+  async streamResponse(request: AIResponseRequest, options: StreamOptions = {}): Promise<AIResponseResult> {
+    const { chain, limitReason } = await getAllowedChain();
+    if (limitReason && chain.length === 0) return this.getErrorResponse(request, USAGE_LIMIT_ERROR);
+
+    const emotionPromise = this.analyzeEmotion(request.content, request.isPrivate, true);
+    const riskLevel = assessRisk(request.content).level;
+    const result = await streamThroughChain(chain, buildMessages(request, await resolveSystemPrompt(request, riskLevel)), options);
+
+    if (result.error && !result.partial) {
+      return this.getErrorResponse(request, result.error);
+    }
+
+    return {
+      response: result.text,
+      emotionAnalysis: await emotionPromise,
+      error: result.error,
+      partial: result.partial,
+      modelId: result.target?.id,
+      modelName: result.target?.name,
+      riskLevel,
+    };
+  },
+
+  /**
+   * 在记录下继续对话，thread 为包含本次提问在内的全部消息
+   * 失败时返回 error，不使用预设回应，由界面提示重试
+   * 对话中出现高风险表达后，之后的回应都使用安全提示词
+   */
+  async continueThread(
+    record: DailyRecord,
+    thread: ConversationMessage[],
+    options: StreamOptions = {}
+  ): Promise<{ response: string; error?: string; partial?: boolean; modelName?: string; riskLevel: RiskLevel }> {
+    const riskLevel = assessConversationRisk(record.content, thread).level;
+    const { chain, limitReason } = await getAllowedChain();
+    if (limitReason && chain.length === 0) return { response: '', error: USAGE_LIMIT_ERROR, riskLevel };
+    const result = await streamThroughChain(chain, await buildThreadMessages(record, thread, riskLevel), options);
+    return {
+      response: result.text,
+      error: result.error,
+      partial: result.partial,
+      modelName: result.target?.name,
+      riskLevel,
+    };
+  },
+
+  /**
+   * 用AI以JSON模式分析情绪，结果不合规范、置信度过低或全部模型失败时回退到本地离线分析
+   * 私密记录始终只在本地分析
+   * withReply：与回应同时发出时由回应负责熔断计数，一次提交只计一次失败，也不占用半开时的试探机会
+   */
+  async analyzeEmotion(content: string, isPrivate = false, withReply = false): Promise<EmotionAnalysis> {
+    if (isPrivate || !content.trim()) return analyzeEmotionOffline(content);
+
+    try {
+      // 超出用量软上限时只用本地模型分析，没有时用本地评分
+      const { chain } = await getAllowedChain();
+      const messages = buildEmotionMessages(content);
+
+      for (const target of chain) {
+        const available = withReply
+          ? circuitBreaker.getState(target.id) === 'closed'
+          : circuitBreaker.canAttempt(target.id);
+        if (!available) continue;
+
+        const result = await callTargetWithRetry(target, messages, { jsonMode: true, temperature: 0.2, maxTokens: 150 });
+        if (result.error) {
+          if (!withReply) circuitBreaker.recordFailure(target.id);
+          continue;
+        }
+
+        if (!withReply) circuitBreaker.recordSuccess(target.id);
+        const analysis = parseEmotionAnalysis(result.response);
+        if (analysis) return analysis;
+        // 格式不对时不再换模型重试，直接用本地评分
+        console.warn('情绪分析结果不符合格式，使用本地分析');
+        break;
+      }
+    } catch (error) {
+      console.error('AI情绪分析失败:', error);
+    }
+
+    return analyzeEmotionOffline(content);
+  },
+
+  /**
+   * 预览保存记录时实际发出的请求：与 streamResponse 相同的提示词，并经过脱敏
+   * 私密记录的情绪分析只在本地进行，不在预览中出现
+   */
+  async previewRequest(request: AIResponseRequest): Promise<{
+    targetName?: string;
+    localOnly: boolean;
+    limitReason: string | null;
+    matches: RedactionMatch[];
+    requests: Array<{ label: string; messages: ChatMessage[] }>;
+  }> {
+    const { chain, limitReason } = await getAllowedChain();
+    const riskLevel = assessRisk(request.content).level;
+    const reply = await redactOutgoing(buildMessages(request, await resolveSystemPrompt(request, riskLevel)));
+    const requests = [{ label: '生成回应', messages: reply.messages }];
+    if (!request.isPrivate && request.content.trim()) {
+      requests.push({ label: '情绪分析', messages: (await redactOutgoing(buildEmotionMessages(request.content))).messages });
+    }
+
+    return {
+      // 熔断中的模型会被跳过，显示实际会先尝试的模型
+      targetName: (chain.find(target => circuitBreaker.getState(target.id) !== 'open') || chain[0])?.name,
+      // 超出上限但改用本地模型时仍会发送，只是不离开这台设备
+      localOnly: Boolean(limitReason) || await this.isLocalOnly(),
+      limitReason: chain.length === 0 ? limitReason : null,
+      matches: reply.matches,
+      requests,
+    };
+  },
+
+  /**
+   * 当前是否只使用本机上的模型（选择了本地模型时不会发往云端）
+   */
+  async isLocalOnly(): Promise<boolean> {
+    const settings = await aiSettingsDB.get();
+    const selected = settings.models.find(m => m.id === settings.selectedModelId);
+    return Boolean(selected && isLocalModel(selected));
+  },
+
+  /**
+   * 以JSON模式生成周报、月报，parse 校验不通过时换下一个模型
+   * 全部失败时返回 error，由调用方决定是否使用本地报告
+   */
+  async generateReport<T>(
+    content: string,
+    parse: (raw: string) => T | null
+  ): Promise<{ report?: T; modelName?: string; error?: string }> {
+    const { chain, limitReason } = await getAllowedChain();
+    if (limitReason && chain.length === 0) return { error: USAGE_LIMIT_ERROR };
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: NARRATIVE_REPORT_PROMPT },
+      { role: 'user', content },
+    ];
+    let lastError = '';
+
+    for (const target of chain) {
+      if (!circuitBreaker.canAttempt(target.id)) continue;
+
+      const result = await callTargetWithRetry(target, messages, { jsonMode: true, temperature: 0.7, maxTokens: 900 });
+      if (result.error) {
+        circuitBreaker.recordFailure(target.id);
+        lastError = result.error;
+        continue;
+      }
+
+      circuitBreaker.recordSuccess(target.id);
+      const report = parse(result.response);
+      if (report) return { report, modelName: target.name };
+      console.warn(`模型 ${target.name} 返回的报告不符合格式`);
+      lastError = '报告格式不正确';
+    }
+
+    return { error: lastError || '暂无可用的AI模型' };
+  },
+
+  /**
+   * 根据错误类型提供不同回应
+   */
+  getErrorResponse(request: AIResponseRequest, error: string): AIResponseResult {
+    // 高风险时不使用普通的错误提示
+    if (assessRisk(request.content).level === 'high') {
+      return { ...this.getFallbackResponse(request), error };
+    }
+
+    if (error === USAGE_LIMIT_ERROR) {
+      // 用户设置的上限：按内容给出本地回应，并保留错误标记供界面提示
+      return { ...this.getFallbackResponse(request), error };
+    } else if (error.includes('rate limit') || error.includes('limit exceeded')) {
+      return {
+        response: '今日AI回应次数已达上限，请明天再试。您的记录已保存，我会继续陪伴您。',
+        error,
+        emotionAnalysis: analyzeEmotionLocally(request.content)
+      };
+    } else if (error.includes('API key not configured')) {
+      return {
+        response: 'AI服务暂时不可用，但我会用心倾听。您的感受很重要，记录本身就是一种治愈。',
+        error,
+        emotionAnalysis: analyzeEmotionLocally(request.content)
+      };
+    } else if (error.includes('Failed to fetch') || error.includes('ECONNREFUSED')) {
+      return {
+        response: '暂时连接不上AI服务，但我在这里陪伴您。您的记录已保存，每一次记录都很有意义。',
+        error,
+        emotionAnalysis: analyzeEmotionLocally(request.content)
+      };
+    }
+
+    // 其他错误时使用降级回应
+    return this.getFallbackResponse(request);
+  },
+
   /**
    * 获取降级回应
    */
   getFallbackResponse(request: AIResponseRequest, error?: any): AIResponseResult {
+    const riskLevel = assessRisk(request.content).level;
+    if (riskLevel === 'high') {
+      return {
+        response: SAFETY_FALLBACK_RESPONSE,
+        emotionAnalysis: analyzeEmotionLocally(request.content),
+        error: error instanceof Error ? error.message : undefined,
+        riskLevel,
+      };
+    }
+
     const fallbackResponses = [
       "感谢你愿意分享此刻的感受。每一次记录都是对自己的温柔对待，你正在用自己的方式照顾内心。",
       "我听到了你的心声。生活中的起起伏伏都是正常的，允许自己感受每一种情绪，这本身就是一种勇气。",
@@ -160,8 +927,9 @@ export const aiService = {
 
     return {
       response: selectedResponse,
-      emotionAnalysis: analyzeEmotion(request.content),
-      error: error instanceof Error ? error.message : undefined
+      emotionAnalysis: analyzeEmotionLocally(request.content),
+      error: error instanceof Error ? error.message : undefined,
+      riskLevel,
     };
   },
 
@@ -171,13 +939,23 @@ export const aiService = {
   async checkServiceStatus(): Promise<{ 
     available: boolean; 
     message: string; 
-    rateLimit?: { remaining: number } 
+    rateLimit?: Omit<ProxyQuota, 'updatedAt'>
   }> {
     try {
-      const result = await callAPIProxy({
+      const testRequest = {
         content: '你好，这是一条测试消息',
         tags: []
-      });
+      };
+      const model = await getSelectedModel();
+      // 选择了本地模型时不改用内置代理检测
+      if (!model && await this.isLocalOnly()) {
+        return {
+          available: false,
+          message: '所选本地模型暂不可用'
+        };
+      }
+      const messages = buildMessages(testRequest, await resolveSystemPrompt(testRequest));
+      const result = await callTarget(model ? { id: model.id, name: model.name, model } : PROXY_TARGET, messages);
       
       if (result.error) {
         // 提供更具体的错误信息
@@ -211,7 +989,7 @@ export const aiService = {
       return {
         available: true,
         message: 'AI服务运行正常',
-        rateLimit: result.usage
+        rateLimit: result.quota
       };
     } catch (error) {
       // 处理网络错误
@@ -236,46 +1014,3 @@ export const aiService = {
     }
   },
 };
-
-/**
- * 基于关键词的简单情绪分析
- */
-function analyzeEmotion(content: string): {
-  calmness: number;
-  positivity: number;
-  energy: number;
-} {
-  const positiveWords = ['开心', '高兴', '快乐', '幸福', '满足', '愉快', '美好', '棒', '好', '喜欢', '爱'];
-  const negativeWords = ['难过', '伤心', '痛苦', '失望', '焦虑', '担心', '害怕', '生气', '愤怒', '糟糕'];
-  const calmWords = ['平静', '安宁', '放松', '舒服', '平和', '宁静'];
-  const energeticWords = ['兴奋', '激动', '充满', '活力', '精神', '努力', '奋斗'];
-
-  let positivity = 50;
-  let calmness = 50;
-  let energy = 50;
-
-  positiveWords.forEach(word => {
-    if (content.includes(word)) positivity += 5;
-  });
-
-  negativeWords.forEach(word => {
-    if (content.includes(word)) positivity -= 5;
-  });
-
-  calmWords.forEach(word => {
-    if (content.includes(word)) calmness += 8;
-  });
-
-  energeticWords.forEach(word => {
-    if (content.includes(word)) {
-      energy += 8;
-      calmness -= 5;
-    }
-  });
-
-  return {
-    calmness: Math.max(0, Math.min(100, calmness)),
-    positivity: Math.max(0, Math.min(100, positivity)),
-    energy: Math.max(0, Math.min(100, energy)),
-  };
-}
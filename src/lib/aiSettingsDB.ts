@@ -1,5 +1,5 @@
 import localforage from 'localforage';
-import type { AIServiceSettings } from '../types';
+import type { AIPersona, AIServiceSettings, RedactionSettings, SafetyHotline } from '../types';
 
 // AI服务设置存储
 const aiSettingsStore = localforage.createInstance({
@@ -55,6 +55,16 @@ export const aiSettingsDB = {
     await aiSettingsStore.setItem('settings', settings);
   },
 
+  // 调整模型在切换链中的顺序
+  async moveModel(id: string, direction: -1 | 1): Promise<void> {
+    const settings = await this.get();
+    const index = settings.models.findIndex(m => m.id === id);
+    const target = index + direction;
+    if (index === -1 || target < 0 || target >= settings.models.length) return;
+    [settings.models[index], settings.models[target]] = [settings.models[target], settings.models[index]];
+    await aiSettingsStore.setItem('settings', settings);
+  },
+
   async selectModel(id: string): Promise<void> {
     await this.update({
       selectedModelId: id,
@@ -62,6 +72,41 @@ export const aiSettingsDB = {
     });
   },
 
+  // 新增或更新自定义回应风格
+  async savePersona(persona: AIPersona): Promise<void> {
+    const settings = await this.get();
+    const personas = settings.personas || [];
+    const index = personas.findIndex(p => p.id === persona.id);
+    if (index === -1) {
+      personas.push(persona);
+    } else {
+      personas[index] = persona;
+    }
+    await aiSettingsStore.setItem('settings', { ...settings, personas });
+  },
+
+  async deletePersona(id: string): Promise<void> {
+    const settings = await this.get();
+    settings.personas = (settings.personas || []).filter(p => p.id !== id);
+    if (settings.selectedPersonaId === id) {
+      settings.selectedPersonaId = undefined;
+    }
+    await aiSettingsStore.setItem('settings', settings);
+  },
+
+  async selectPersona(id: string): Promise<void> {
+    await this.update({ selectedPersonaId: id });
+  },
+
+  // 保存求助热线，传入 undefined 时恢复默认热线
+  async saveHotlines(hotlines: SafetyHotline[] | undefined): Promise<void> {
+    await this.update({ safetyHotlines: hotlines });
+  },
+
+  async saveRedaction(redaction: RedactionSettings): Promise<void> {
+    await this.update({ redaction });
+  },
+
   // 清除所有设置（重置到默认状态）
   async reset(): Promise<void> {
     const defaultSettings: AIServiceSettings = {
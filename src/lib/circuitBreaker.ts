@@ -0,0 +1,64 @@
+/**
+ * 按模型的熔断器
+ * 连续失败达到阈值后一段时间内跳过该模型，冷却结束后只放行一次试探请求（半开），成功即恢复
+ */
+
+export type BreakerState = 'closed' | 'open' | 'half-open';
+
+interface BreakerEntry {
+  failures: number;
+  openedUntil: number;
+  probingSince: number; // 试探请求发出的时间，0 表示没有进行中的试探
+}
+
+const FAILURE_THRESHOLD = 3;
+const OPEN_DURATION = 60 * 1000;
+// 试探请求被取消时不会回报结果，超过这个时间后允许再次试探
+const PROBE_TIMEOUT = 60 * 1000;
+
+const breakers = new Map<string, BreakerEntry>();
+
+export const circuitBreaker = {
+  getState(id: string): BreakerState {
+    const entry = breakers.get(id);
+    if (!entry || entry.failures < FAILURE_THRESHOLD) return 'closed';
+    const now = Date.now();
+    if (now < entry.openedUntil) return 'open';
+    // 试探请求进行中时其他调用仍然跳过
+    if (entry.probingSince && now - entry.probingSince < PROBE_TIMEOUT) return 'open';
+    return 'half-open';
+  },
+
+  /**
+   * 判断能否调用该模型；半开时放行的这一次即为试探请求，调用方须回报成功或失败
+   */
+  canAttempt(id: string): boolean {
+    const state = this.getState(id);
+    const entry = breakers.get(id);
+    if (state === 'half-open' && entry) entry.probingSince = Date.now();
+    return state !== 'open';
+  },
+
+  recordSuccess(id: string): void {
+    breakers.delete(id);
+  },
+
+  recordFailure(id: string): void {
+    const entry = breakers.get(id) || { failures: 0, openedUntil: 0, probingSince: 0 };
+    entry.failures += 1;
+    entry.probingSince = 0;
+    // 达到阈值或半开试探失败时重新打开
+    if (entry.failures >= FAILURE_THRESHOLD) {
+      entry.openedUntil = Date.now() + OPEN_DURATION;
+    }
+    breakers.set(id, entry);
+  },
+
+  reset(id?: string): void {
+    if (id) {
+      breakers.delete(id);
+    } else {
+      breakers.clear();
+    }
+  },
+};
@@ -0,0 +1,125 @@
+import type { AIServiceSettings, ConversationMessage, RiskLevel, SafetyHotline } from '../types';
+
+/**
+ * 危机语言识别：在本地判断记录中是否有自伤、轻生的表达，不依赖网络
+ * - high：明确的轻生或自伤表达，回应改用安全提示词并显示求助资源
+ * - elevated：绝望、撑不下去等信号，在原有风格上附加安全指引
+ * 宁可多提示也不漏判，但排除"笑死""想死你了"等日常夸张说法
+ */
+
+export interface RiskAssessment {
+  level: RiskLevel;
+  matches: string[]; // 命中的原文片段
+}
+
+// 日常夸张或与自身无关的说法，匹配前先移除
+const EXCLUDED_PHRASES = [
+  /想死(你|我|他|她|它)(们)?了/g,
+  /(笑|累|热|冷|饿|困|烦|气|吓|忙|馋|急|痛|疼|丑|美|帅|尴尬|无聊)死(了|我了|人了|啦|掉)?/g,
+  /得要?死/g,
+  /社死/g,
+  /自杀式/g,
+  /跳楼(价|甩卖|大甩卖)/g,
+  /不想活动/g,
+  /(你|他|她|它|你们|他们)去死/g,
+];
+
+// 明确的轻生、自伤表达
+const HIGH_RISK_PATTERNS = [
+  /自杀/,
+  /轻生/,
+  /寻死/,
+  /(想|要|好想|真想|只想|很想)(去)?死/,
+  /死了(算了|就好了|一了百了)/,
+  /不想(再)?活(了|下去|着)/,
+  /活不下去/,
+  /(结束|了结|了断)(掉)?(自己|我)?的?(生命|性命|一切)/,
+  /(了结|了断)(掉)?自己/,
+  /割腕/,
+  /跳(楼|河|桥|海)/,
+  /上吊/,
+  /(吞|攒|囤)(了)?(一堆|很多|一整瓶)?(安眠药|药片)/,
+  /遗书|遗言/,
+  /不想(再)?醒(来|过来)/,
+  /从这个世界上?消失/,
+];
+
+// 需要留意的绝望、自我否定信号
+const ELEVATED_RISK_PATTERNS = [
+  /绝望/,
+  /(没有|没|看不到)(任何)?希望/,
+  /(撑|坚持|熬)不下去/,
+  /活着(好|真|太)?(累|没意思|没有意义|没意义|好痛苦)/,
+  /活着有什么(意思|意义)/,
+  /(想|不如|只想)消失/,
+  /消失(就好了|算了)/,
+  /没(有)?人(在乎|需要|关心)我/,
+  /(我|自己)(就)?(是|成了).{0,4}(累赘|拖累|负担)/,
+  /(伤害|惩罚)自己/,
+  /自残/,
+  /划(伤)?自己/,
+  /一了百了/,
+  /解脱(了)?(算了|就好了)/,
+];
+
+// 出现在命中片段之前时视为否认，如"我不会自杀"
+const NEGATION_BEFORE = /(不会|不要|没有|没|从没|从不|从来没|不再|不是|不)(想过?|打算|要)?$/;
+const NEGATION_WINDOW = 6;
+
+// 多个不同的绝望信号同时出现时按高风险处理
+const ELEVATED_TO_HIGH_COUNT = 3;
+
+function normalize(text: string): string {
+  const compact = text.replace(/\s+/g, '').toLowerCase();
+  return EXCLUDED_PHRASES.reduce((result, pattern) => result.replace(pattern, '，'), compact);
+}
+
+function findMatches(text: string, patterns: RegExp[]): Array<{ phrase: string; negated: boolean }> {
+  const matches: Array<{ phrase: string; negated: boolean }> = [];
+  patterns.forEach(pattern => {
+    const match = pattern.exec(text);
+    if (!match) return;
+    const before = text.slice(Math.max(0, match.index - NEGATION_WINDOW), match.index);
+    matches.push({ phrase: match[0], negated: NEGATION_BEFORE.test(before) });
+  });
+  return matches;
+}
+
+/**
+ * 评估一段文字的风险等级
+ */
+export function assessRisk(text: string): RiskAssessment {
+  if (!text || !text.trim()) return { level: 'none', matches: [] };
+
+  const normalized = normalize(text);
+  const high = findMatches(normalized, HIGH_RISK_PATTERNS);
+  const elevated = findMatches(normalized, ELEVATED_RISK_PATTERNS);
+  const matches = [...high, ...elevated].map(match => match.phrase);
+
+  // 否认轻生仍按需要留意处理
+  if (high.some(match => !match.negated)) return { level: 'high', matches };
+  const elevatedCount = elevated.filter(match => !match.negated).length;
+  if (elevatedCount >= ELEVATED_TO_HIGH_COUNT) return { level: 'high', matches };
+  if (elevatedCount > 0 || high.length > 0) return { level: 'elevated', matches };
+  return { level: 'none', matches: [] };
+}
+
+/**
+ * 评估记录及其后续对话：记录原文和用户的任一条消息为高风险时，整段对话按高风险处理
+ */
+export function assessConversationRisk(content: string, thread: ConversationMessage[] = []): RiskAssessment {
+  const userMessages = thread.filter(message => message.role === 'user').map(message => message.content);
+  return assessRisk([content, ...userMessages].join('\n'));
+}
+
+// 默认求助热线，可在AI设置中修改
+export const DEFAULT_SAFETY_HOTLINES: SafetyHotline[] = [
+  { id: 'national', name: '全国心理援助热线', number: '12356', description: '24小时' },
+  { id: 'hope24', name: '希望24热线', number: '400-161-9995', description: '24小时心理危机干预' },
+  { id: 'beijing', name: '北京心理危机研究与干预中心', number: '010-82951332', description: '24小时' },
+  { id: 'emergency', name: '急救电话', number: '120', description: '有立即的生命危险时' },
+];
+
+export function getSafetyHotlines(settings: AIServiceSettings | null): SafetyHotline[] {
+  return settings?.safetyHotlines || DEFAULT_SAFETY_HOTLINES;
+}
@@ -0,0 +1,100 @@
+import type { DailyAggregate, DailyRecord, EmotionAnalysis } from '../types';
+import { recordDayKey, toLocalDayKey } from './dates';
+
+/**
+ * 单日聚合：一天可以有多条记录，仪表盘和周统计使用聚合结果而不是最后一条记录
+ */
+
+const EMOTION_KEYS: Array<'calmness' | 'positivity' | 'energy'> = ['calmness', 'positivity', 'energy'];
+
+/**
+ * 按本地日历日分组，组内按时间先后排列
+ */
+export function groupRecordsByDay(records: DailyRecord[]): { [day: string]: DailyRecord[] } {
+  const groups: { [day: string]: DailyRecord[] } = {};
+  records.forEach(record => {
+    const day = recordDayKey(record);
+    (groups[day] || (groups[day] = [])).push(record);
+  });
+  Object.values(groups).forEach(group => group.sort(compareByTime));
+  return groups;
+}
+
+function compareByTime(a: DailyRecord, b: DailyRecord): number {
+  return new Date(a.date).getTime() - new Date(b.date).getTime() || a.createdAt - b.createdAt;
+}
+
+/**
+ * 汇总同一天的记录
+ * - 主要情绪：出现次数最多的标签，次数相同时取较晚出现的
+ * - 情绪值：当天带情绪分析记录的平均值
+ */
+export function aggregateDay(date: string, records: DailyRecord[]): DailyAggregate {
+  const sorted = [...records].sort(compareByTime);
+  const tagCounts: { [tagId: string]: number } = {};
+  const lastSeen: { [tagId: string]: number } = {};
+
+  sorted.forEach((record, index) => {
+    record.tags.forEach(tag => {
+      tagCounts[tag] = (tagCounts[tag] || 0) + 1;
+      lastSeen[tag] = index;
+    });
+  });
+
+  const primaryEmotion = Object.keys(tagCounts)
+    .sort((a, b) => tagCounts[b] - tagCounts[a] || lastSeen[b] - lastSeen[a])[0];
+
+  const aggregate: DailyAggregate = {
+    date,
+    count: sorted.length,
+    recordIds: sorted.map(record => record.id),
+    tagCounts,
+    primaryEmotion,
+  };
+
+  const analyses = sorted
+    .map(record => record.emotionAnalysis)
+    .filter((analysis): analysis is EmotionAnalysis => Boolean(analysis));
+
+  if (analyses.length > 0) {
+    EMOTION_KEYS.forEach(key => {
+      aggregate[key] = Math.round(
+        analyses.reduce((sum, analysis) => sum + (analysis[key] || 0), 0) / analyses.length
+      );
+    });
+  }
+
+  if (analyses.length > 1) {
+    const swing = {} as EmotionAnalysis;
+    EMOTION_KEYS.forEach(key => {
+      const values = analyses.map(analysis => analysis[key] || 0);
+      swing[key] = Math.max(...values) - Math.min(...values);
+    });
+    aggregate.swing = swing;
+  }
+
+  return aggregate;
+}
+
+/**
+ * 汇总指定日期的记录，当天没有记录时返回 null
+ */
+export function aggregateForDay(records: DailyRecord[], date: Date | string): DailyAggregate | null {
+  const day = toLocalDayKey(date);
+  const dayRecords = records.filter(record => recordDayKey(record) === day);
+  return dayRecords.length > 0 ? aggregateDay(day, dayRecords) : null;
+}
+
+/**
+ * 记录所处的时段
+ */
+export function getTimeOfDay(date: Date | string): string {
+  const hour = new Date(date).getHours();
+  if (hour < 5) return '深夜';
+  if (hour < 9) return '清晨';
+  if (hour < 12) return '上午';
+  if (hour < 14) return '中午';
+  if (hour < 18) return '下午';
+  if (hour < 23) return '晚上';
+  return '深夜';
+}
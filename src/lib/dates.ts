@@ -0,0 +1,73 @@
+/**
+ * 日历日工具：记录按本地日历日（YYYY-MM-DD）归组
+ */
+
+/**
+ * 将日期转换为本地日历日键（YYYY-MM-DD）
+ */
+export function toLocalDayKey(date: Date | string | number): string {
+  const d = new Date(date);
+  const month = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${d.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * 将日键解析为当天本地零点
+ */
+export function parseDayKey(dayKey: string): Date {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * 日键加减天数
+ */
+export function addDays(dayKey: string, days: number): string {
+  const date = parseDayKey(dayKey);
+  date.setDate(date.getDate() + days);
+  return toLocalDayKey(date);
+}
+
+/**
+ * 转换为 datetime-local 输入框使用的本地时间值（YYYY-MM-DDTHH:mm）
+ */
+export function toDateTimeLocalValue(date: Date | string | number): string {
+  const d = new Date(date);
+  const hours = String(d.getHours()).padStart(2, '0');
+  const minutes = String(d.getMinutes()).padStart(2, '0');
+  return `${toLocalDayKey(d)}T${hours}:${minutes}`;
+}
+
+/**
+ * 记录的逻辑日期与实际写下时间的关系：补记（写在之后）或预写（写在之前）
+ */
+export function getEntryTiming(date: string, createdAt: number): 'backdated' | 'scheduled' | null {
+  const logicalDay = toLocalDayKey(date);
+  const writtenDay = toLocalDayKey(createdAt);
+  if (logicalDay < writtenDay) return 'backdated';
+  if (logicalDay > writtenDay) return 'scheduled';
+  return null;
+}
+
+/**
+ * 记录所属的日历日：按写下记录时所在时区计算，换时区或夏令时切换后不会漂移到相邻日期
+ */
+export function recordDayKey(record: { date: string; timezoneOffset?: number }): string {
+  if (typeof record.timezoneOffset !== 'number') return toLocalDayKey(record.date);
+  const shifted = new Date(new Date(record.date).getTime() - record.timezoneOffset * 60 * 1000);
+  const month = String(shifted.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(shifted.getUTCDate()).padStart(2, '0');
+  return `${shifted.getUTCFullYear()}-${month}-${day}`;
+}
+
+/**
+ * 两个日键相差的天数（b - a），按日历日计算，不受夏令时影响
+ */
+export function daysBetween(a: string, b: string): number {
+  const toUTC = (dayKey: string) => {
+    const [year, month, day] = dayKey.split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toUTC(b) - toUTC(a)) / 86400000);
+}
@@ -0,0 +1,81 @@
+/**
+ * 文本差异比较（基于最长公共子序列的逐字比较）
+ */
+
+export interface DiffPart {
+  text: string;
+  type: 'equal' | 'added' | 'removed';
+}
+
+// 超过此规模时退化为整体替换，避免长文本的 O(n*m) 计算卡顿
+const MAX_DIFF_CELLS = 4_000_000;
+
+function pushPart(parts: DiffPart[], text: string, type: DiffPart['type']) {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ text, type });
+  }
+}
+
+/**
+ * 比较两段文本，返回按顺序排列的差异片段
+ */
+export function diffText(before: string, after: string): DiffPart[] {
+  // 去掉公共前后缀，缩小比较范围
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = before.slice(prefix, before.length - suffix);
+  const b = after.slice(prefix, after.length - suffix);
+  const parts: DiffPart[] = [];
+
+  pushPart(parts, before.slice(0, prefix), 'equal');
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    pushPart(parts, a, 'removed');
+    pushPart(parts, b, 'added');
+  } else {
+    // lcs[i][j] 为 a[i..] 与 b[j..] 的最长公共子序列长度
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        pushPart(parts, a[i], 'equal');
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        pushPart(parts, a[i], 'removed');
+        i++;
+      } else {
+        pushPart(parts, b[j], 'added');
+        j++;
+      }
+    }
+    pushPart(parts, a.slice(i), 'removed');
+    pushPart(parts, b.slice(j), 'added');
+  }
+
+  pushPart(parts, before.slice(before.length - suffix), 'equal');
+
+  return parts;
+}
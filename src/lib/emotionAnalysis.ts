@@ -0,0 +1,120 @@
+import type { EmotionAnalysis } from '../types';
+import { analyzeSentiment } from './sentimentEngine';
+
+/**
+ * 情绪分析：解析并校验AI返回的结构化结果，不可用时回退到本地离线分析
+ */
+
+// 置信度低于此值时不采用AI结果
+export const MIN_CONFIDENCE = 0.3;
+const MAX_EMOTIONS = 5;
+
+function clampScore(value: unknown): number | null {
+  if (typeof value === 'string' && value.trim() !== '') value = Number(value);
+  if (typeof value !== 'number' || !Number.isFinite(value)) return null;
+  return Math.round(Math.max(0, Math.min(100, value)));
+}
+
+// 去掉模型可能包裹的 ```json 代码块，截取第一个JSON对象
+export function extractJSON(raw: string): string | null {
+  const unfenced = raw.replace(/```(?:json)?/gi, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  return start !== -1 && end > start ? unfenced.slice(start, end + 1) : null;
+}
+
+/**
+ * 校验AI返回的情绪分析JSON，不符合结构时返回 null
+ */
+export function parseEmotionAnalysis(raw: string): EmotionAnalysis | null {
+  const json = extractJSON(raw);
+  if (!json) return null;
+
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!data || typeof data !== 'object') return null;
+
+  const calmness = clampScore(data.calmness);
+  const positivity = clampScore(data.positivity);
+  const energy = clampScore(data.energy);
+  if (calmness === null || positivity === null || energy === null) return null;
+
+  const confidence = typeof data.confidence === 'number' && Number.isFinite(data.confidence)
+    ? Math.max(0, Math.min(1, data.confidence))
+    : null;
+  if (confidence === null || confidence < MIN_CONFIDENCE) return null;
+
+  const emotions = Array.isArray(data.emotions)
+    ? data.emotions
+        .filter((emotion: unknown): emotion is string => typeof emotion === 'string' && emotion.trim() !== '')
+        .map((emotion: string) => emotion.trim().slice(0, 10))
+        .slice(0, MAX_EMOTIONS)
+    : [];
+
+  return { calmness, positivity, energy, confidence, emotions, source: 'ai' };
+}
+
+/**
+ * 本地离线情绪分析（同步，在当前线程运行）
+ */
+export function analyzeEmotionLocally(content: string): EmotionAnalysis {
+  return analyzeSentiment(content);
+}
+
+// Worker 无响应时的等待上限，超时后在主线程计算
+const WORKER_TIMEOUT = 3000;
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, (result: EmotionAnalysis) => void>();
+
+function getWorker(): Worker | null {
+  if (worker || workerFailed) return worker;
+  if (typeof Worker === 'undefined') {
+    workerFailed = true;
+    return null;
+  }
+
+  try {
+    worker = new Worker(new URL('./sentiment.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<{ id: number; result: EmotionAnalysis }>) => {
+      pendingRequests.get(event.data.id)?.(event.data.result);
+    };
+    worker.onerror = (error) => {
+      console.warn('情绪分析 Worker 出错，改为主线程计算:', error);
+      workerFailed = true;
+      worker?.terminate();
+      worker = null;
+    };
+  } catch (error) {
+    console.warn('无法创建情绪分析 Worker:', error);
+    workerFailed = true;
+  }
+  return worker;
+}
+
+/**
+ * 在 Web Worker 中离线分析情绪，内容不会离开设备；Worker 不可用时在主线程计算
+ */
+export function analyzeEmotionOffline(content: string): Promise<EmotionAnalysis> {
+  const target = getWorker();
+  if (!target) return Promise.resolve(analyzeSentiment(content));
+
+  return new Promise(resolve => {
+    const id = ++nextRequestId;
+    const finish = (result: EmotionAnalysis) => {
+      clearTimeout(timer);
+      pendingRequests.delete(id);
+      resolve(result);
+    };
+    const timer = setTimeout(() => finish(analyzeSentiment(content)), WORKER_TIMEOUT);
+
+    pendingRequests.set(id, finish);
+    target.postMessage({ id, text: content });
+  });
+}
@@ -0,0 +1,67 @@
+import { recordsDB, statsDB, isRecordLocked } from './storage';
+import { aiService } from './aiService';
+import type { DailyRecord } from '../types';
+
+/**
+ * 历史记录情绪重新分析：用AI结构化分析（私密记录用本地离线分析）替换旧的关键词评分
+ */
+
+export interface BackfillProgress {
+  done: number;
+  total: number;
+  updated: number;
+}
+
+interface BackfillOptions {
+  onProgress?: (progress: BackfillProgress) => void;
+  signal?: AbortSignal;
+}
+
+// 逐条请求之间的间隔，避免触发限流
+const REQUEST_INTERVAL = 800;
+
+// 锁定中的加密记录无法读取正文；私密记录只用本地离线分析替换旧的关键词评分
+export function needsEmotionBackfill(record: DailyRecord): boolean {
+  if (isRecordLocked(record) || record.content.trim().length === 0) return false;
+  return record.isPrivate
+    ? !record.emotionAnalysis?.source
+    : record.emotionAnalysis?.source !== 'ai';
+}
+
+export async function countPendingEmotionBackfill(): Promise<number> {
+  const records = await recordsDB.getAll();
+  return records.filter(needsEmotionBackfill).length;
+}
+
+/**
+ * 依次重新分析待处理的记录，可通过 signal 中途取消，已分析的结果会保留
+ */
+export async function backfillEmotionAnalysis(options: BackfillOptions = {}): Promise<BackfillProgress> {
+  const { onProgress, signal } = options;
+  const pending = (await recordsDB.getAll()).filter(needsEmotionBackfill);
+  const progress: BackfillProgress = { done: 0, total: pending.length, updated: 0 };
+  onProgress?.({ ...progress });
+
+  for (const record of pending) {
+    if (signal?.aborted) break;
+
+    const analysis = await aiService.analyzeEmotion(record.content, record.isPrivate);
+    // 公开记录回退到本地分析说明AI不可用，保留原结果以便下次重试
+    if (record.isPrivate || analysis.source === 'ai') {
+      await recordsDB.update(record.id, { emotionAnalysis: analysis });
+      progress.updated++;
+    }
+    progress.done++;
+    onProgress?.({ ...progress });
+
+    if (!record.isPrivate && progress.done < progress.total && !signal?.aborted) {
+      await new Promise(resolve => setTimeout(resolve, REQUEST_INTERVAL));
+    }
+  }
+
+  if (progress.updated > 0) {
+    await statsDB.calculateStats();
+    window.dispatchEvent(new CustomEvent('data-imported'));
+  }
+  return progress;
+}
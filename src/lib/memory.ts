@@ -0,0 +1,220 @@
+import localforage from 'localforage';
+import type { AIMemory, DailyRecord, MemoryEntry } from '../types';
+import { recordsDB, tagsDB, isRecordLocked } from './storage';
+import { addDays, recordDayKey, toLocalDayKey } from './dates';
+import { JournalVault } from './security/journalVault';
+
+/**
+ * AI记忆：在本地汇总近期记录和反复出现的话题，作为简短的背景信息附加到提示词
+ * - 私密记录和加密存储的记录不参与汇总（记忆以明文保存，解锁后也不使用加密记录）
+ * - 自动生成的条目会随记录更新；用户修改过的条目不再被覆盖，删除的自动条目不再出现
+ */
+
+const memoryStore = localforage.createInstance({
+  name: 'daily-reflection',
+  storeName: 'ai-memory',
+});
+
+const MEMORY_KEY = 'memory';
+// 汇总最近多少天的记录
+const MEMORY_WINDOW_DAYS = 14;
+// 话题至少出现的次数
+const MIN_THEME_MENTIONS = 2;
+const MAX_THEMES = 4;
+// 发送前自动重新整理的间隔
+const REFRESH_INTERVAL = 30 * 60 * 1000;
+
+// 常见生活话题及其关键词
+const THEME_KEYWORDS: { [theme: string]: string[] } = {
+  学业考试: ['考试', '复习', '作业', '论文', '成绩', '考研', '学习', '上课', '期末'],
+  工作: ['工作', '加班', '项目', '老板', '领导', '同事', '上班', '汇报', '绩效', '面试'],
+  家人: ['爸爸', '妈妈', '爸妈', '父母', '家里', '家人', '孩子', '老公', '老婆'],
+  朋友: ['朋友', '闺蜜', '室友', '聚会', '兄弟'],
+  感情: ['男朋友', '女朋友', '恋爱', '分手', '喜欢的人', '对象', '约会'],
+  睡眠: ['失眠', '睡不着', '熬夜', '早睡', '睡眠', '做梦'],
+  健康: ['生病', '感冒', '发烧', '医院', '身体', '头疼', '胃疼'],
+  运动: ['运动', '跑步', '健身', '瑜伽', '散步', '游泳'],
+  金钱: ['钱', '工资', '房租', '存款', '花销', '还款'],
+};
+
+const DEFAULT_MEMORY: AIMemory = {
+  entries: [],
+  enabled: true,
+  dismissedKeys: [],
+  updatedAt: 0,
+};
+
+function describeMood(positivity: number): string {
+  if (positivity >= 60) return '偏积极';
+  if (positivity <= 40) return '偏低落';
+  return '比较平稳';
+}
+
+function formatDay(dayKey: string): string {
+  const [, month, day] = dayKey.split('-').map(Number);
+  return `${month}月${day}日`;
+}
+
+function averagePositivity(records: DailyRecord[]): number | null {
+  const values = records
+    .map(record => record.emotionAnalysis?.positivity)
+    .filter((value): value is number => typeof value === 'number');
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+/**
+ * 根据记录生成自动记忆条目（纯本地计算）
+ */
+export function summarizeRecords(records: DailyRecord[], tagNames: { [id: string]: string }): MemoryEntry[] {
+  if (records.length === 0) return [];
+  const entries: MemoryEntry[] = [];
+
+  // 常见情绪：标签和情绪分析识别出的情绪词
+  const moodCounts: { [mood: string]: number } = {};
+  records.forEach(record => {
+    const moods = new Set([
+      ...record.tags.map(id => tagNames[id] || id),
+      ...(record.emotionAnalysis?.emotions || []),
+    ]);
+    moods.forEach(mood => { moodCounts[mood] = (moodCounts[mood] || 0) + 1; });
+  });
+  const topMoods = Object.entries(moodCounts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([mood]) => mood);
+  entries.push({
+    key: 'overview',
+    text: `最近两周写了 ${records.length} 条记录${topMoods.length > 0 ? `，常见情绪：${topMoods.join('、')}` : ''}`,
+    source: 'auto',
+  });
+
+  // 反复出现的话题
+  Object.entries(THEME_KEYWORDS)
+    .map(([theme, keywords]) => ({
+      theme,
+      mentions: records.filter(record => keywords.some(keyword => record.content.includes(keyword))),
+    }))
+    .filter(({ mentions }) => mentions.length >= MIN_THEME_MENTIONS)
+    .sort((a, b) => b.mentions.length - a.mentions.length)
+    .slice(0, MAX_THEMES)
+    .forEach(({ theme, mentions }) => {
+      const latest = mentions.map(recordDayKey).sort().pop()!;
+      const positivity = averagePositivity(mentions);
+      entries.push({
+        key: `theme:${theme}`,
+        text: `反复提到${theme}（${mentions.length} 次，最近一次在${formatDay(latest)}）${
+          positivity !== null ? `，提到时情绪${describeMood(positivity)}` : ''
+        }`,
+        source: 'auto',
+      });
+    });
+
+  // 情绪走向：前一周与最近一周对比
+  const midpoint = addDays(toLocalDayKey(new Date()), -Math.floor(MEMORY_WINDOW_DAYS / 2));
+  const earlier = averagePositivity(records.filter(record => recordDayKey(record) < midpoint));
+  const recent = averagePositivity(records.filter(record => recordDayKey(record) >= midpoint));
+  if (earlier !== null && recent !== null && Math.abs(recent - earlier) >= 10) {
+    entries.push({
+      key: 'trend',
+      text: recent > earlier ? '最近一周的情绪比之前有所好转' : '最近一周的情绪比之前更低落一些',
+      source: 'auto',
+    });
+  }
+
+  return entries;
+}
+
+export const memoryDB = {
+  async get(): Promise<AIMemory> {
+    const memory = await memoryStore.getItem<AIMemory>(MEMORY_KEY);
+    return memory ? { ...DEFAULT_MEMORY, ...memory } : { ...DEFAULT_MEMORY };
+  },
+
+  async save(memory: AIMemory): Promise<AIMemory> {
+    await memoryStore.setItem(MEMORY_KEY, memory);
+    return memory;
+  },
+
+  /**
+   * 重新汇总记录，保留用户编辑和添加的条目
+   */
+  async refresh(): Promise<AIMemory> {
+    const memory = await this.get();
+    const startDay = addDays(toLocalDayKey(new Date()), -(MEMORY_WINDOW_DAYS - 1));
+    const [records, tags, sealsAll] = await Promise.all([
+      recordsDB.getAll(),
+      tagsDB.getAll(),
+      // 保险库加密全部记录时，解锁后读到的明文同样不能写进记忆
+      JournalVault.getInstance().shouldEncrypt(false),
+    ]);
+    const eligible = sealsAll ? [] : records.filter(record =>
+      !record.isPrivate
+      && !isRecordLocked(record)
+      && recordDayKey(record) >= startDay
+      // 清空记忆之前写的记录不再使用
+      && (!memory.clearedAt || record.createdAt > memory.clearedAt)
+    );
+
+    const tagNames = Object.fromEntries(tags.map(tag => [tag.id, tag.name]));
+    const userEntries = memory.entries.filter(entry => entry.source === 'user');
+    const pinnedKeys = new Set([...memory.dismissedKeys, ...userEntries.map(entry => entry.key)]);
+    const autoEntries = summarizeRecords(eligible, tagNames).filter(entry => !pinnedKeys.has(entry.key));
+
+    return this.save({ ...memory, entries: [...autoEntries, ...userEntries], updatedAt: Date.now() });
+  },
+
+  // 修改条目后视为用户条目，不再被自动汇总覆盖
+  async updateEntry(key: string, text: string): Promise<AIMemory> {
+    const memory = await this.get();
+    const entries = memory.entries.map(entry =>
+      entry.key === key ? { ...entry, text, source: 'user' as const } : entry
+    );
+    return this.save({ ...memory, entries });
+  },
+
+  async addEntry(text: string): Promise<AIMemory> {
+    const memory = await this.get();
+    const entry: MemoryEntry = {
+      key: `note_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      text,
+      source: 'user',
+    };
+    return this.save({ ...memory, entries: [...memory.entries, entry] });
+  },
+
+  async removeEntry(key: string): Promise<AIMemory> {
+    const memory = await this.get();
+    const removed = memory.entries.find(entry => entry.key === key);
+    return this.save({
+      ...memory,
+      entries: memory.entries.filter(entry => entry.key !== key),
+      dismissedKeys: removed?.source === 'auto' ? [...memory.dismissedKeys, key] : memory.dismissedKeys,
+    });
+  },
+
+  async setEnabled(enabled: boolean): Promise<AIMemory> {
+    return this.save({ ...(await this.get()), enabled });
+  },
+
+  // 清空全部记忆，之前的记录不再参与汇总
+  async clear(): Promise<AIMemory> {
+    const memory = await this.get();
+    return this.save({ ...DEFAULT_MEMORY, enabled: memory.enabled, clearedAt: Date.now(), updatedAt: Date.now() });
+  },
+
+  /**
+   * 生成附加到系统提示词的记忆背景，关闭或为空时返回空字符串
+   */
+  async getContext(): Promise<string> {
+    let memory = await this.get();
+    if (!memory.enabled) return '';
+    if (Date.now() - memory.updatedAt > REFRESH_INTERVAL) {
+      memory = await this.refresh();
+    }
+    if (memory.entries.length === 0) return '';
+
+    return `以下是你对用户近况的了解，仅作为背景参考，不要逐条复述，也不要提及你"记得"这些：\n${
+      memory.entries.map(entry => `- ${entry.text}`).join('\n')
+    }`;
+  },
+};
@@ -0,0 +1,250 @@
+import {
+  recordStore,
+  tagStore,
+  settingsStore,
+  metaStore,
+  recordIndexDB,
+  searchIndexDB,
+  DEFAULT_SETTINGS,
+  SCHEMA_VERSION_KEY,
+} from './storage';
+import type { DailyRecord, Tag, UserSettings, UserStats } from '../types';
+
+/**
+ * 本地数据结构版本迁移
+ *
+ * 每个迁移步骤声明目标版本号和各类数据的升级函数，启动时按版本顺序执行尚未应用的步骤。
+ * 升级函数必须是纯函数：接收旧数据，返回新数据，不直接读写存储。
+ */
+
+// 旧版本数据的宽松结构：任何字段都可能缺失，升级函数需自行补全
+export type Legacy<T> = Partial<T>;
+export type LegacyRecord = Legacy<DailyRecord>;
+export type LegacyTag = Legacy<Tag>;
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrateRecord?: (record: LegacyRecord) => LegacyRecord;
+  migrateTag?: (tag: LegacyTag) => LegacyTag;
+  migrateSettings?: (settings: Legacy<UserSettings>) => Legacy<UserSettings>;
+  migrateStats?: (stats: Legacy<UserStats>) => Legacy<UserStats>;
+}
+
+export interface MigrationStepReport {
+  version: number;
+  description: string;
+  changedRecords: string[];
+  changedTags: string[];
+  settingsChanged: boolean;
+  statsChanged: boolean;
+}
+
+export interface MigrationReport {
+  dryRun: boolean;
+  fromVersion: number;
+  toVersion: number;
+  steps: MigrationStepReport[];
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// 迁移步骤，按版本号升序排列，只能追加不能修改已发布的步骤
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: '补全记录和标签的必要字段',
+    migrateRecord: (record) => {
+      const createdAt = typeof record.createdAt === 'number' ? record.createdAt : Date.now();
+      return {
+        ...record,
+        id: record.id || generateId('record'),
+        date: record.date || new Date(createdAt).toISOString(),
+        createdAt,
+        content: typeof record.content === 'string' ? record.content : '',
+        tags: Array.isArray(record.tags) ? record.tags : [],
+        isPrivate: Boolean(record.isPrivate),
+        isFavorite: Boolean(record.isFavorite),
+      };
+    },
+    migrateTag: (tag) => ({
+      ...tag,
+      id: tag.id || generateId('tag'),
+      name: tag.name || '未命名标签',
+      color: tag.color || 'linear-gradient(135deg, #667eea, #764ba2)',
+      isCustom: Boolean(tag.isCustom),
+    }),
+  },
+  {
+    version: 2,
+    description: '补全用户设置和统计的默认值',
+    migrateSettings: (settings) => ({
+      ...DEFAULT_SETTINGS,
+      ...settings,
+    }),
+    migrateStats: (stats) => ({
+      totalRecords: 0,
+      continuousDays: 0,
+      startDate: new Date().toISOString(),
+      ...stats,
+      emotionDistribution: stats.emotionDistribution || {},
+    }),
+  },
+  {
+    version: 3,
+    description: '记录写入时区偏移，换时区后所属日期保持不变',
+    migrateRecord: (record) => ({
+      ...record,
+      timezoneOffset: typeof record.timezoneOffset === 'number'
+        ? record.timezoneOffset
+        : new Date(record.date).getTimezoneOffset(),
+    }),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+function isChanged(before: unknown, after: unknown): boolean {
+  return JSON.stringify(before) !== JSON.stringify(after);
+}
+
+function pendingMigrations(fromVersion: number): Migration[] {
+  return MIGRATIONS.filter(m => m.version > fromVersion);
+}
+
+/**
+ * 将来自旧版本的单条记录升级到当前结构（导入备份时使用）
+ */
+export function migrateRecord(record: LegacyRecord, fromVersion = 0): DailyRecord {
+  return pendingMigrations(fromVersion).reduce(
+    (current, m) => (m.migrateRecord ? m.migrateRecord(current) : current),
+    record
+  ) as DailyRecord;
+}
+
+/**
+ * 将来自旧版本的单个标签升级到当前结构（导入备份时使用）
+ */
+export function migrateTag(tag: LegacyTag, fromVersion = 0): Tag {
+  return pendingMigrations(fromVersion).reduce(
+    (current, m) => (m.migrateTag ? m.migrateTag(current) : current),
+    tag
+  ) as Tag;
+}
+
+export const migrationsDB = {
+  async getVersion(): Promise<number> {
+    return (await metaStore.getItem<number>(SCHEMA_VERSION_KEY)) ?? 0;
+  },
+
+  async setVersion(version: number): Promise<void> {
+    await metaStore.setItem(SCHEMA_VERSION_KEY, version);
+  },
+
+  /**
+   * 执行所有待应用的迁移
+   * 数据先读入内存，每一步都在上一步的结果上执行；dryRun 模式下只计算会发生的变更，不写入任何数据
+   */
+  async run(options: { dryRun?: boolean } = {}): Promise<MigrationReport> {
+    const dryRun = Boolean(options.dryRun);
+    const fromVersion = await this.getVersion();
+    const migrations = pendingMigrations(fromVersion);
+    const steps: MigrationStepReport[] = [];
+
+    const records = new Map<string, LegacyRecord>();
+    if (migrations.some(m => m.migrateRecord)) {
+      await recordStore.iterate<LegacyRecord, void>((value, key) => {
+        if (value) records.set(key, value);
+      });
+    }
+    let tags = await tagStore.getItem<LegacyTag[]>('tags');
+    let settings = await settingsStore.getItem<Legacy<UserSettings>>('settings');
+    let stats = await settingsStore.getItem<Legacy<UserStats>>('stats');
+
+    let recordsChanged = false;
+
+    for (const migration of migrations) {
+      const step: MigrationStepReport = {
+        version: migration.version,
+        description: migration.description,
+        changedRecords: [],
+        changedTags: [],
+        settingsChanged: false,
+        statsChanged: false,
+      };
+
+      if (migration.migrateRecord) {
+        const updates: Array<{ key: string; record: LegacyRecord }> = [];
+        records.forEach((value, key) => {
+          const migrated = migration.migrateRecord!(value);
+          if (isChanged(value, migrated)) {
+            updates.push({ key, record: migrated });
+          }
+        });
+        step.changedRecords = updates.map(u => u.key);
+        for (const { key, record } of updates) {
+          records.delete(key);
+          records.set(record.id, record);
+          if (!dryRun) {
+            if (record.id !== key) {
+              await recordStore.removeItem(key);
+            }
+            await recordStore.setItem(record.id, record);
+          }
+        }
+        recordsChanged = recordsChanged || (!dryRun && updates.length > 0);
+      }
+
+      if (migration.migrateTag && Array.isArray(tags)) {
+        const before = tags;
+        const migrated = before.map(tag => migration.migrateTag!(tag));
+        step.changedTags = migrated
+          .filter((tag, i) => isChanged(before[i], tag))
+          .map(tag => tag.id);
+        tags = migrated;
+        if (!dryRun && step.changedTags.length > 0) {
+          await tagStore.setItem('tags', migrated);
+        }
+      }
+
+      if (migration.migrateSettings && settings) {
+        const migrated = migration.migrateSettings(settings);
+        step.settingsChanged = isChanged(settings, migrated);
+        settings = migrated;
+        if (!dryRun && step.settingsChanged) {
+          await settingsStore.setItem('settings', migrated);
+        }
+      }
+
+      if (migration.migrateStats && stats) {
+        const migrated = migration.migrateStats(stats);
+        step.statsChanged = isChanged(stats, migrated);
+        stats = migrated;
+        if (!dryRun && step.statsChanged) {
+          await settingsStore.setItem('stats', migrated);
+        }
+      }
+
+      steps.push(step);
+
+      if (!dryRun) {
+        await this.setVersion(migration.version);
+      }
+    }
+
+    // 记录被改写后重建二级索引和全文索引
+    if (recordsChanged) {
+      await recordIndexDB.rebuild();
+      await searchIndexDB.rebuild();
+    }
+
+    return {
+      dryRun,
+      fromVersion,
+      toVersion: Math.max(fromVersion, CURRENT_SCHEMA_VERSION),
+      steps,
+    };
+  },
+};
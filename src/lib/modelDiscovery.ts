@@ -1,6 +1,7 @@
 import type { AIModelConfig, AIProvider, ModelStatus } from '../types';
-
-// 移除AI_PROVIDERS，因为现在使用代理服务
+import { aiSettingsDB } from './aiSettingsDB';
+import { getProviderAdapter, isLoopbackUrl, resolveModelsUrl, validateModelConfig } from './aiProviders';
+import { circuitBreaker } from './circuitBreaker';
 
 /**
  * 模型发现和状态检测服务
@@ -12,20 +13,183 @@ interface ModelInfo {
   description?: string;
 }
 
+export interface ModelHealth {
+  status: ModelStatus;
+  latency?: number; // 毫秒
+  error?: string;
+}
+
+// 单次探测超时
+const PROBE_TIMEOUT = 15 * 1000;
+// 后台复查间隔，距上次检测不足此时间的模型跳过
+export const RECHECK_INTERVAL = 30 * 60 * 1000;
+// 后台轮询频率
+const WATCH_INTERVAL = 5 * 60 * 1000;
+
+async function fetchWithTimeout(url: string, init: RequestInit, timeout = PROBE_TIMEOUT): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// 按对话接口的HTTP状态判断模型状态：密钥无效或找不到模型视为停用，限流和服务端错误视为维护中
+function statusFromHttp(status: number): ModelStatus {
+  if (status >= 200 && status < 300) return 'available';
+  if (status === 401 || status === 403 || status === 404) return 'disabled';
+  return 'maintenance';
+}
+
+// 兼容 OpenAI 的 data 字段和部分服务的 models 字段
+function parseModelList(data: any): ModelInfo[] {
+  const list: any[] = Array.isArray(data?.data) ? data.data : Array.isArray(data?.models) ? data.models : [];
+  return list
+    .map(item => ({
+      id: item.id || item.name,
+      name: item.name || item.id,
+      description: item.owned_by ? `由 ${item.owned_by} 提供` : undefined,
+    }))
+    .filter(item => Boolean(item.id));
+}
+
 /**
  * 从AI服务商API获取可用模型列表
  */
 export async function fetchModelsFromProvider(
   provider: string,
-  apiKey: string
+  apiKey: string,
+  apiUrl?: string
 ): Promise<ModelInfo[]> {
-  if (provider === 'custom' || !apiKey) {
+  const adapter = getProviderAdapter(provider as AIProvider);
+  const baseUrl = apiUrl || adapter.defaultApiUrl;
+  if (!adapter.supportsModelList || !baseUrl || (adapter.requiresApiKey && !apiKey)) {
+    return [];
+  }
+
+  try {
+    const response = await fetchWithTimeout(resolveModelsUrl(baseUrl), {
+      headers: adapter.authHeaders(apiKey),
+    });
+    if (!response.ok) {
+      console.warn('获取模型列表失败:', adapter.normalizeError(response.status, await response.text()));
+      return [];
+    }
+
+    return parseModelList(await response.json());
+  } catch (error) {
+    console.warn('获取模型列表失败:', error);
     return [];
   }
+}
+
+/**
+ * 轻量探测模型可用性并测量延迟
+ * 支持 /models 的服务商只请求模型列表，不消耗额度；其余发送一次 max_tokens=1 的对话
+ * 部分兼容服务没有实现 /models（返回404），这时也改用对话探测
+ */
+export async function probeModel(config: AIModelConfig): Promise<ModelHealth> {
+  const invalid = validateModelConfig(config);
+  if (invalid) {
+    return { status: 'unknown', error: invalid };
+  }
+
+  const adapter = getProviderAdapter(config.provider);
+  const startedAt = performance.now();
+
+  try {
+    let response: Response | null = null;
+    if (adapter.supportsModelList) {
+      response = await fetchWithTimeout(resolveModelsUrl(config.apiUrl || adapter.defaultApiUrl), {
+        headers: adapter.authHeaders(config.apiKey),
+      });
+      if (response.status === 404) response = null;
+    }
+    if (!response) {
+      const { url, headers, body } = adapter.buildRequest(config, [{ role: 'user', content: '你好' }], { maxTokens: 1 });
+      response = await fetchWithTimeout(url, { method: 'POST', headers, body: JSON.stringify(body) });
+    }
+
+    const latency = Math.round(performance.now() - startedAt);
+    if (!response.ok) {
+      return {
+        status: statusFromHttp(response.status),
+        latency,
+        error: adapter.normalizeError(response.status, await response.text()),
+      };
+    }
+    return { status: 'available', latency };
+  } catch (error) {
+    const timedOut = error instanceof DOMException && error.name === 'AbortError';
+    return {
+      status: 'maintenance',
+      error: timedOut ? '检测超时' : error instanceof Error ? error.message : '网络请求失败',
+    };
+  }
+}
+
+// 浏览器拿不到跨域失败的具体原因，统一提示检查服务和跨域设置
+const LOCAL_CONNECT_HINT = '无法连接到本地服务，请确认已启动，并允许本页面跨域访问（如 Ollama 需设置 OLLAMA_ORIGINS）';
+
+export interface LocalServerCheck {
+  models: ModelInfo[];
+  latency?: number;
+  error?: string;
+}
+
+/**
+ * 连接本地模型服务并获取模型列表
+ */
+export async function checkLocalServer(apiUrl: string): Promise<LocalServerCheck> {
+  const adapter = getProviderAdapter('local');
+  const baseUrl = apiUrl.trim() || adapter.defaultApiUrl;
+  if (!isLoopbackUrl(baseUrl)) {
+    return { models: [], error: '本地模型只能使用本机地址，如 http://localhost:11434/v1' };
+  }
+
+  const startedAt = performance.now();
+  try {
+    const response = await fetchWithTimeout(resolveModelsUrl(baseUrl), {});
+    const latency = Math.round(performance.now() - startedAt);
+    if (!response.ok) {
+      return { models: [], latency, error: adapter.normalizeError(response.status, await response.text()) };
+    }
+    return { models: parseModelList(await response.json()), latency };
+  } catch (error) {
+    const timedOut = error instanceof DOMException && error.name === 'AbortError';
+    return { models: [], error: timedOut ? '连接超时' : LOCAL_CONNECT_HINT };
+  }
+}
+
+/**
+ * 用本地模型完成一次极短的对话，返回耗时
+ * 首次调用通常要先把模型加载进内存，按本地模型的长超时等待
+ */
+export async function testLocalModel(apiUrl: string, model: string): Promise<ModelHealth> {
+  const adapter = getProviderAdapter('local');
+  const config: AIModelConfig = { id: model, provider: 'local', name: model, model, apiUrl: apiUrl.trim() || undefined, available: true };
+  const invalid = validateModelConfig(config);
+  if (invalid) return { status: 'unknown', error: invalid };
 
-  // 当前版本使用代理服务，不支持直接发现模型
-  console.warn('获取模型列表功能在代理模式下暂时禁用');
-  return [];
+  const { url, headers, body } = adapter.buildRequest(config, [{ role: 'user', content: '你好' }], { maxTokens: 1 });
+  const startedAt = performance.now();
+  try {
+    const response = await fetchWithTimeout(url, { method: 'POST', headers, body: JSON.stringify(body) }, adapter.timeout);
+    const latency = Math.round(performance.now() - startedAt);
+    if (!response.ok) {
+      return {
+        status: statusFromHttp(response.status),
+        latency,
+        error: adapter.normalizeError(response.status, await response.text()),
+      };
+    }
+    return { status: 'available', latency };
+  } catch (error) {
+    const timedOut = error instanceof DOMException && error.name === 'AbortError';
+    return { status: 'maintenance', error: timedOut ? '等待回应超时' : LOCAL_CONNECT_HINT };
+  }
 }
 
 /**
@@ -37,9 +201,16 @@ export async function checkModelStatus(
   apiKey: string,
   apiUrl?: string
 ): Promise<ModelStatus> {
-  // 当前版本使用代理服务，不支持直接检测模型状态
-  console.warn('模型状态检测功能在代理模式下暂时禁用');
-  return 'unknown';
+  const health = await probeModel({
+    id: model,
+    provider: provider as AIProvider,
+    name: model,
+    model,
+    apiKey,
+    apiUrl,
+    available: true,
+  });
+  return health.status;
 }
 
 /**
@@ -47,30 +218,17 @@ export async function checkModelStatus(
  */
 export async function checkMultipleModelsStatus(
   models: AIModelConfig[]
-): Promise<Map<string, ModelStatus>> {
-  const statusMap = new Map<string, ModelStatus>();
+): Promise<Map<string, ModelHealth>> {
+  const statusMap = new Map<string, ModelHealth>();
 
   // 使用Promise.allSettled避免单个失败影响整体
   const results = await Promise.allSettled(
-    models.map(async (model) => {
-      if (!model.apiKey) {
-        return { id: model.id, status: 'unknown' as ModelStatus };
-      }
-
-      const status = await checkModelStatus(
-        model.provider,
-        model.model,
-        model.apiKey,
-        model.apiUrl
-      );
-
-      return { id: model.id, status };
-    })
+    models.map(async (model) => ({ id: model.id, health: await probeModel(model) }))
   );
 
   results.forEach((result) => {
     if (result.status === 'fulfilled') {
-      statusMap.set(result.value.id, result.value.status);
+      statusMap.set(result.value.id, result.value.health);
     }
   });
 
@@ -82,11 +240,25 @@ export async function checkMultipleModelsStatus(
  */
 export async function discoverModelsForProvider(
   provider: string,
-  apiKey: string
+  apiKey: string,
+  apiUrl?: string
 ): Promise<AIModelConfig[]> {
-  // 当前版本使用代理服务，不支持自动发现模型
-  console.warn('自动发现模型功能在代理模式下暂时禁用');
-  return [];
+  const models = await fetchModelsFromProvider(provider, apiKey, apiUrl);
+  const adapter = getProviderAdapter(provider as AIProvider);
+
+  return models.map(info => ({
+    id: `model_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    provider: provider as AIProvider,
+    name: `${adapter.label} ${info.name}`,
+    model: info.id,
+    apiKey: apiKey || undefined,
+    apiUrl,
+    available: true,
+    description: info.description,
+    status: 'available',
+    lastChecked: Date.now(),
+    isBuiltin: false,
+  }));
 }
 
 /**
@@ -97,11 +269,61 @@ export async function refreshAllModelsStatus(
 ): Promise<AIModelConfig[]> {
   const statusMap = await checkMultipleModelsStatus(models);
 
-  return models.map((model) => ({
-    ...model,
-    status: statusMap.get(model.id) || 'unknown',
-    lastChecked: Date.now(),
-  }));
+  return models.map((model) => {
+    const health = statusMap.get(model.id);
+    return {
+      ...model,
+      status: health?.status || 'unknown',
+      latency: health?.latency,
+      lastError: health?.error,
+      lastChecked: Date.now(),
+    };
+  });
+}
+
+/**
+ * 检测已保存的模型并写回设置；force 为 false 时只检测超过复查间隔的模型
+ */
+export async function recheckSavedModels(force = false): Promise<AIModelConfig[]> {
+  const settings = await aiSettingsDB.get();
+  const stale = settings.models.filter(model =>
+    force || !model.lastChecked || Date.now() - model.lastChecked > RECHECK_INTERVAL
+  );
+  if (stale.length === 0) return settings.models;
+
+  const refreshed = await refreshAllModelsStatus(stale);
+  // 逐个更新，避免覆盖检测期间用户对设置的修改
+  for (const model of refreshed) {
+    // 探测恢复可用时解除熔断
+    if (model.status === 'available') circuitBreaker.reset(model.id);
+    await aiSettingsDB.updateModel(model.id, {
+      status: model.status,
+      latency: model.latency,
+      lastError: model.lastError,
+      lastChecked: model.lastChecked,
+    });
+  }
+
+  window.dispatchEvent(new CustomEvent('ai-models-updated'));
+  return (await aiSettingsDB.get()).models;
+}
+
+/**
+ * 启动后台定期复查，页面不可见时跳过
+ */
+export function startModelHealthWatch(): () => void {
+  const run = () => {
+    if (document.visibilityState === 'hidden') return;
+    recheckSavedModels().catch(error => console.error('模型状态复查失败:', error));
+  };
+
+  const initialTimer = setTimeout(run, 5 * 1000);
+  const timer = setInterval(run, WATCH_INTERVAL);
+
+  return () => {
+    clearTimeout(initialTimer);
+    clearInterval(timer);
+  };
 }
 
 /**
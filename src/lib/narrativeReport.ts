@@ -0,0 +1,289 @@
+import localforage from 'localforage';
+import type { DailyRecord, NarrativeReport, ReportPeriodType, WeeklyStats } from '../types';
+import { recordsDB, tagsDB, weeklyStatsDB, isRecordLocked } from './storage';
+import { aiService } from './aiService';
+import { extractJSON } from './emotionAnalysis';
+import { getTimeOfDay } from './personas';
+import { addDays, parseDayKey, toLocalDayKey } from './dates';
+
+/**
+ * 周报、月报回顾：把周期内的统计和公开记录的摘录交给AI写成叙述性报告
+ * - 私密记录和未解锁的加密记录不提供摘录，只计入统计
+ * - 每个周期保存最近几次生成的版本，可以重新生成和查看历史
+ * - AI不可用时根据统计在本地生成简要报告
+ */
+
+const reportStore = localforage.createInstance({
+  name: 'daily-reflection',
+  storeName: 'ai-reports',
+});
+
+// 每个周期保留的版本数
+const MAX_VERSIONS = 5;
+// 提供给AI的摘录条数和每条长度
+const MAX_EXCERPTS = 20;
+const EXCERPT_LENGTH = 80;
+const MAX_LIST_ITEMS = 4;
+const MAX_ITEM_LENGTH = 60;
+
+export interface ReportPeriod {
+  type: ReportPeriodType;
+  key: string;
+  start: Date;
+  end: Date;
+  label: string;
+}
+
+function formatMonthDay(date: Date): string {
+  return date.toLocaleDateString('zh-CN', { month: 'long', day: 'numeric' });
+}
+
+/**
+ * 取日期所在的周（周一至周日）或自然月
+ */
+export function getReportPeriod(type: ReportPeriodType, date: Date): ReportPeriod {
+  if (type === 'week') {
+    const { start, end } = weeklyStatsDB.getWeekRange(date);
+    return { type, key: toLocalDayKey(start), start, end, label: `${formatMonthDay(start)} - ${formatMonthDay(end)}` };
+  }
+
+  const start = new Date(date.getFullYear(), date.getMonth(), 1);
+  const end = new Date(date.getFullYear(), date.getMonth() + 1, 0, 23, 59, 59, 999);
+  const key = `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, '0')}`;
+  return { type, key, start, end, label: `${start.getFullYear()}年${start.getMonth() + 1}月` };
+}
+
+// 相邻的上一个或下一个周期
+export function shiftReportPeriod(period: ReportPeriod, direction: -1 | 1): ReportPeriod {
+  if (period.type === 'week') {
+    return getReportPeriod('week', parseDayKey(addDays(period.key, direction * 7)));
+  }
+  return getReportPeriod('month', new Date(period.start.getFullYear(), period.start.getMonth() + direction, 1));
+}
+
+function storeKey(type: ReportPeriodType, periodKey: string): string {
+  return `${type}:${periodKey}`;
+}
+
+export const reportsDB = {
+  // 某个周期的全部版本，最新的在前
+  async getVersions(type: ReportPeriodType, periodKey: string): Promise<NarrativeReport[]> {
+    return (await reportStore.getItem<NarrativeReport[]>(storeKey(type, periodKey))) || [];
+  },
+
+  async save(report: NarrativeReport): Promise<NarrativeReport[]> {
+    const versions = await this.getVersions(report.periodType, report.periodKey);
+    const updated = [report, ...versions].slice(0, MAX_VERSIONS);
+    await reportStore.setItem(storeKey(report.periodType, report.periodKey), updated);
+    return updated;
+  },
+
+  // 所有生成过报告的周期（各取最新版本），按周期从近到远排列
+  async listPeriods(): Promise<NarrativeReport[]> {
+    const latest: NarrativeReport[] = [];
+    await reportStore.iterate<NarrativeReport[], void>(versions => {
+      if (versions && versions.length > 0) latest.push(versions[0]);
+    });
+    return latest.sort((a, b) => b.periodStart.localeCompare(a.periodStart) || a.periodType.localeCompare(b.periodType));
+  },
+};
+
+interface PeriodData {
+  stats: WeeklyStats[]; // 周报为一周，月报为与该月重叠的各周
+  records: DailyRecord[];
+  tagNames: { [id: string]: string };
+}
+
+async function collectPeriodData(period: ReportPeriod): Promise<PeriodData> {
+  const weekStarts: Date[] = [];
+  const firstWeekStart = weeklyStatsDB.getWeekRange(period.start).start;
+  for (let cursor = firstWeekStart; cursor <= period.end; cursor = parseDayKey(addDays(toLocalDayKey(cursor), 7))) {
+    weekStarts.push(cursor);
+  }
+  const [stats, records, tags] = await Promise.all([
+    Promise.all(weekStarts.map(date => weeklyStatsDB.getWeeklyStats(date))),
+    recordsDB.getByDateRange(period.start.toISOString(), period.end.toISOString()),
+    tagsDB.getAll(),
+  ]);
+  return {
+    stats,
+    records: records.sort((a, b) => a.date.localeCompare(b.date)),
+    tagNames: Object.fromEntries(tags.map(tag => [tag.id, tag.name])),
+  };
+}
+
+// 在周期内的每日情况
+function periodDays(data: PeriodData, period: ReportPeriod): WeeklyStats['dayDistribution'] {
+  const startKey = toLocalDayKey(period.start);
+  const endKey = toLocalDayKey(period.end);
+  return data.stats
+    .flatMap(stats => stats.dayDistribution)
+    .filter(day => day.date >= startKey && day.date <= endKey && day.count > 0);
+}
+
+// 均匀抽取摘录，避免只覆盖周期的开头或结尾
+function sampleExcerpts(records: DailyRecord[]): DailyRecord[] {
+  const eligible = records.filter(record => !record.isPrivate && !isRecordLocked(record) && record.content.trim());
+  if (eligible.length <= MAX_EXCERPTS) return eligible;
+  const step = eligible.length / MAX_EXCERPTS;
+  return Array.from({ length: MAX_EXCERPTS }, (_, index) => eligible[Math.floor(index * step)]);
+}
+
+/**
+ * 整理发送给AI的周期数据
+ */
+export function buildReportInput(period: ReportPeriod, data: PeriodData): string {
+  const tagName = (id: string) => data.tagNames[id] || id;
+  const lines: string[] = [
+    `周期：${period.label}（${period.type === 'week' ? '周报' : '月报'}）`,
+    `记录数：${data.records.length}`,
+  ];
+
+  data.stats.forEach(stats => {
+    const weekLabel = `${formatMonthDay(new Date(stats.weekRange.start))}起的一周`;
+    const topEmotions = stats.topEmotions.map(item => `${tagName(item.emotion)}${item.percentage}%`).join('、') || '无';
+    const { calmness, positivity, energy } = stats.averageEmotions;
+    lines.push(
+      `${period.type === 'week' ? '本周' : weekLabel}：记录${stats.totalRecords}条（上一周${stats.previousWeekRecords}条），` +
+      `平均平静度${calmness}、正向度${positivity}、能量${energy}，主要情绪：${topEmotions}`
+    );
+  });
+
+  const days = periodDays(data, period);
+  if (days.length > 0) {
+    lines.push('', '每日情况：');
+    days.forEach(day => {
+      const parts = [`${formatMonthDay(parseDayKey(day.date))} ${day.count}条`];
+      if (day.primaryEmotion) parts.push(`主要情绪${tagName(day.primaryEmotion)}`);
+      if (day.positivity !== undefined) parts.push(`正向度${day.positivity}`);
+      if (day.swing && day.swing.positivity >= 30) parts.push('当天起伏较大');
+      lines.push(`- ${parts.join('，')}`);
+    });
+  }
+
+  const excerpts = sampleExcerpts(data.records);
+  if (excerpts.length > 0) {
+    lines.push('', '记录摘录（不含私密记录）：');
+    excerpts.forEach(record => {
+      const date = new Date(record.date);
+      const text = record.content.replace(/\s+/g, ' ').trim();
+      const tags = record.tags.map(tagName).join('、');
+      lines.push(
+        `- ${formatMonthDay(date)}${getTimeOfDay(date)}${tags ? `（${tags}）` : ''}：` +
+        `${text.slice(0, EXCERPT_LENGTH)}${text.length > EXCERPT_LENGTH ? '…' : ''}`
+      );
+    });
+  }
+
+  return lines.join('\n');
+}
+
+function toStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is string => typeof item === 'string' && item.trim() !== '')
+    .map(item => item.trim().slice(0, MAX_ITEM_LENGTH))
+    .slice(0, MAX_LIST_ITEMS);
+}
+
+type ReportContent = Pick<NarrativeReport, 'summary' | 'themes' | 'highs' | 'lows' | 'suggestions'>;
+
+/**
+ * 校验AI返回的报告JSON，缺少总结或建议时返回 null
+ */
+export function parseNarrativeReport(raw: string): ReportContent | null {
+  const json = extractJSON(raw);
+  if (!json) return null;
+
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!data || typeof data !== 'object' || typeof data.summary !== 'string' || !data.summary.trim()) return null;
+
+  const report = {
+    summary: data.summary.trim(),
+    themes: toStringList(data.themes),
+    highs: toStringList(data.highs),
+    lows: toStringList(data.lows),
+    suggestions: toStringList(data.suggestions),
+  };
+  return report.suggestions.length > 0 ? report : null;
+}
+
+function describeMood(positivity: number): string {
+  if (positivity >= 60) return '整体偏积极';
+  if (positivity <= 40) return '整体有些低落';
+  return '整体比较平稳';
+}
+
+/**
+ * 根据统计在本地生成简要报告（AI不可用时使用）
+ */
+export function buildLocalReport(period: ReportPeriod, data: PeriodData): ReportContent {
+  const tagName = (id: string) => data.tagNames[id] || id;
+  const periodName = period.type === 'week' ? '这一周' : '这个月';
+
+  const tagCounts: { [id: string]: number } = {};
+  data.stats.forEach(stats => Object.entries(stats.emotionDistribution).forEach(([id, count]) => {
+    tagCounts[id] = (tagCounts[id] || 0) + count;
+  }));
+  const topTags = Object.entries(tagCounts).sort((a, b) => b[1] - a[1]).slice(0, 3).map(([id]) => tagName(id));
+
+  const days = periodDays(data, period).filter(day => day.positivity !== undefined);
+  const average = (key: 'calmness' | 'positivity' | 'energy') => {
+    const values = days.map(day => day[key]).filter((value): value is number => value !== undefined);
+    return values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : 50;
+  };
+  const positivity = average('positivity');
+  const calmness = average('calmness');
+  const sorted = [...days].sort((a, b) => (b.positivity ?? 50) - (a.positivity ?? 50));
+  const best = sorted[0];
+  const worst = sorted[sorted.length - 1];
+
+  const suggestions: string[] = [];
+  if (calmness < 50) suggestions.push('睡前留五分钟做几次深呼吸，让紧绷的身体慢慢放松');
+  if (positivity < 50) suggestions.push('每天写下一件让你感到一点点温暖的小事');
+  if (data.records.length < (period.type === 'week' ? 4 : 12)) suggestions.push('试着每天花两分钟记录一次，更容易看清情绪的变化');
+  if (suggestions.length < 2) suggestions.push('继续保持记录的习惯，照顾好自己的节奏');
+
+  return {
+    summary: `${periodName}你写下了 ${data.records.length} 条记录${topTags.length > 0 ? `，最常出现的情绪是${topTags.join('、')}` : ''}，${describeMood(positivity)}。每一次记录都是在认真对待自己的感受。`,
+    themes: topTags.map(tag => `多次记录到「${tag}」`),
+    highs: best && (best.positivity ?? 0) >= 55 ? [`${formatMonthDay(parseDayKey(best.date))}的心情最好`] : [],
+    lows: worst && worst !== best && (worst.positivity ?? 100) < 45 ? [`${formatMonthDay(parseDayKey(worst.date))}的心情比较低落`] : [],
+    suggestions,
+  };
+}
+
+/**
+ * 生成并保存某个周期的报告，返回该周期的全部版本
+ * 周期内没有记录时抛出错误
+ */
+export async function generateNarrativeReport(period: ReportPeriod): Promise<NarrativeReport[]> {
+  const data = await collectPeriodData(period);
+  if (data.records.length === 0) {
+    throw new Error('这段时间还没有记录');
+  }
+
+  const result = await aiService.generateReport(buildReportInput(period, data), parseNarrativeReport);
+  if (result.error) {
+    console.error('AI回顾报告生成失败，使用本地报告:', result.error);
+  }
+  const content = result.report || buildLocalReport(period, data);
+
+  return reportsDB.save({
+    ...content,
+    id: `report_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    periodType: period.type,
+    periodKey: period.key,
+    periodStart: period.start.toISOString(),
+    periodEnd: period.end.toISOString(),
+    recordCount: data.records.length,
+    source: result.report ? 'ai' : 'local',
+    modelName: result.modelName,
+    createdAt: Date.now(),
+  });
+}
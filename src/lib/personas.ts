@@ -0,0 +1,115 @@
+import type { AIPersona, AIServiceSettings } from '../types';
+import { GENTLE_RESPONSE_PROMPT } from './aiModels';
+
+/**
+ * 回应风格：内置风格 + 用户自定义的提示词模板
+ * 模板中的 {{变量}} 在发送前替换为当前记录和用户的信息
+ */
+
+export const DEFAULT_PERSONA_ID = 'gentle';
+
+export const BUILTIN_PERSONAS: AIPersona[] = [
+  {
+    id: DEFAULT_PERSONA_ID,
+    name: '温柔陪伴',
+    description: '温暖治愈，50-100字',
+    template: GENTLE_RESPONSE_PROMPT,
+    isBuiltin: true,
+  },
+  {
+    id: 'cbt-coach',
+    name: '认知重构教练',
+    description: '用CBT的方法帮你换个角度看问题',
+    template: `你是一位熟悉认知行为疗法（CBT）的陪伴者。{{nickname}}在{{timeOfDay}}写下了一段记录，情绪标签是：{{tags}}。
+
+回应要求：
+1. 先用一句话确认对方的感受，不评判
+2. 温和地指出记录里可能存在的自动化思维（如以偏概全、灾难化、读心术），用提问代替断言
+3. 给出一个更平衡的替代想法，或一个今天就能做的小练习
+4. 长度控制在80-150字，用"你"称呼
+5. 不做诊断，不使用专业术语堆砌`,
+    isBuiltin: true,
+  },
+  {
+    id: 'listener',
+    name: '安静倾听者',
+    description: '简短回应，不给建议',
+    template: `你是一位安静的倾听者。{{nickname}}刚刚写下了此刻的感受（{{tags}}）。
+
+回应要求：
+1. 只用一到两句话回应，不超过40字
+2. 复述或点出对方的感受，让对方知道被听见了
+3. 不给建议，不讲道理，不追问`,
+    isBuiltin: true,
+  },
+  {
+    id: 'playful-friend',
+    name: '活泼好友',
+    description: '轻松幽默，像朋友聊天',
+    template: `你是{{nickname}}的一位活泼、有点俏皮的好朋友，现在是{{timeOfDay}}，对方刚刚分享了心情（{{tags}}）。
+
+回应要求：
+1. 语气轻松口语化，可以适当用一个emoji
+2. 开心的事一起庆祝，难过的事先共情再轻轻逗对方笑，不要拿对方的痛苦开玩笑
+3. 长度控制在50-100字`,
+    isBuiltin: true,
+  },
+];
+
+export interface PromptVariables {
+  nickname: string;
+  tags: string;
+  timeOfDay: string;
+  date: string;
+}
+
+// 模板可用变量，用于编辑时提示和插入
+export const PROMPT_VARIABLES: Array<{ key: keyof PromptVariables; label: string }> = [
+  { key: 'nickname', label: '昵称' },
+  { key: 'tags', label: '情绪标签' },
+  { key: 'timeOfDay', label: '时段' },
+  { key: 'date', label: '日期' },
+];
+
+export function getTimeOfDay(date: Date): string {
+  const hour = date.getHours();
+  if (hour < 5) return '深夜';
+  if (hour < 9) return '清晨';
+  if (hour < 12) return '上午';
+  if (hour < 14) return '中午';
+  if (hour < 18) return '下午';
+  if (hour < 22) return '晚上';
+  return '深夜';
+}
+
+export function buildPromptVariables(nickname: string, tagNames: string[], date: Date): PromptVariables {
+  return {
+    nickname: nickname || '朋友',
+    tags: tagNames.length > 0 ? tagNames.join('、') : '未选择',
+    timeOfDay: getTimeOfDay(date),
+    date: date.toLocaleDateString('zh-CN', { month: 'long', day: 'numeric', weekday: 'long' }),
+  };
+}
+
+/**
+ * 替换模板变量，未知变量原样保留
+ */
+export function renderPromptTemplate(template: string, variables: PromptVariables): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+    key in variables ? variables[key as keyof PromptVariables] : match
+  );
+}
+
+export function getAllPersonas(settings: AIServiceSettings | null): AIPersona[] {
+  return [...BUILTIN_PERSONAS, ...(settings?.personas || [])];
+}
+
+/**
+ * 按优先级取回应风格：指定的风格 > 默认风格 > 温柔陪伴；已删除的风格回退到默认
+ */
+export function resolvePersona(settings: AIServiceSettings | null, personaId?: string): AIPersona {
+  const personas = getAllPersonas(settings);
+  return personas.find(persona => persona.id === personaId)
+    || personas.find(persona => persona.id === settings?.selectedPersonaId)
+    || BUILTIN_PERSONAS[0];
+}
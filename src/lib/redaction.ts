@@ -0,0 +1,159 @@
+import type { AIServiceSettings, RedactionKind, RedactionSettings } from '../types';
+import type { ChatMessage } from './aiProviders';
+import { REDACTION_NOTE } from './aiModels';
+
+/**
+ * 个人信息脱敏：发送给模型前把电话、身份证号、邮箱、地址和用户列出的姓名换成占位符
+ * - 同一段信息在一次请求中始终使用同一个占位符，回应中的占位符再换回原文
+ * - 地址只按"路/街+门牌号""小区+楼栋"等形式识别，不保证完整，发送前可预览
+ */
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  enabled: true,
+  kinds: ['name', 'phone', 'idCard', 'email', 'address'],
+  names: [],
+};
+
+export const REDACTION_LABELS: Record<RedactionKind, string> = {
+  name: '姓名',
+  phone: '电话',
+  idCard: '身份证',
+  email: '邮箱',
+  address: '地址',
+};
+
+export interface RedactionMatch {
+  kind: RedactionKind;
+  original: string;
+  placeholder: string;
+}
+
+export function getRedactionSettings(settings: AIServiceSettings): RedactionSettings {
+  return settings.redaction || DEFAULT_REDACTION_SETTINGS;
+}
+
+// 每条规则的第一组为保留的前导字符（用于数字边界），第二组为要替换的内容
+interface RedactionRule {
+  kind: RedactionKind;
+  pattern: RegExp;
+}
+
+const EMAIL_PATTERN = /()([A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+
+// 18位身份证号（末位可为X）和15位旧号码，按出生日期校验格式
+const ID_CARD_PATTERN = /(^|[^0-9A-Za-z])([1-9]\d{5}(?:18|19|20)\d{2}(?:0[1-9]|1[0-2])(?:0[1-9]|[12]\d|3[01])\d{3}[\dXx]|[1-9]\d{7}(?:0[1-9]|1[0-2])(?:0[1-9]|[12]\d|3[01])\d{3})(?![0-9A-Za-z])/g;
+
+// 手机号（可带+86，可用空格或短横线分隔）和带区号的座机
+const PHONE_PATTERN = /(^|[^\d+])((?:\+?86[-\s]?)?1[3-9]\d[-\s]?\d{4}[-\s]?\d{4}|0\d{2,3}[-\s]?\d{7,8})(?!\d)/g;
+
+// 地址前缀不跨过"在、去、住"等常见虚词，避免把整句话当成地址
+const ADDRESS_CHAR = '(?:(?![在去到住从的了我你他她是和跟回搬离就也还都又把被给让对向往])[\\u4e00-\\u9fa5A-Za-z0-9])';
+const ADDRESS_UNIT = '(?:[-－]?[0-9A-Za-z一二三四五六七八九十]+(?:号楼|栋|幢|座|单元|层|楼|室|号))*';
+const ADDRESS_PATTERN = new RegExp(
+  `()(${ADDRESS_CHAR}{1,12}?(?:路|街|大道|大街|巷|弄|胡同)[0-9一二三四五六七八九十百]+号(?:院|楼)?${ADDRESS_UNIT}` +
+  `|${ADDRESS_CHAR}{2,12}?(?:小区|花园|公寓|大厦|家园|苑|村)[0-9A-Za-z一二三四五六七八九十]+(?:号楼|栋|幢|座)${ADDRESS_UNIT})`,
+  'g'
+);
+
+// 回应中的占位符，模型可能改用全角括号
+const PLACEHOLDER_PATTERN = new RegExp(`[[【](${Object.values(REDACTION_LABELS).join('|')})(\\d+)[\\]】]`, 'g');
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// 按识别顺序排列：先处理格式明确的，姓名放在最后
+function buildRules(settings: RedactionSettings): RedactionRule[] {
+  const rules: RedactionRule[] = [];
+  if (settings.kinds.includes('email')) rules.push({ kind: 'email', pattern: EMAIL_PATTERN });
+  if (settings.kinds.includes('idCard')) rules.push({ kind: 'idCard', pattern: ID_CARD_PATTERN });
+  if (settings.kinds.includes('phone')) rules.push({ kind: 'phone', pattern: PHONE_PATTERN });
+  if (settings.kinds.includes('address')) rules.push({ kind: 'address', pattern: ADDRESS_PATTERN });
+
+  // 长名字优先，避免"小明"先于"王小明"被替换
+  const names = settings.names.map(name => name.trim()).filter(name => name.length >= 2);
+  if (settings.kinds.includes('name') && names.length > 0) {
+    const alternatives = [...new Set(names)].sort((a, b) => b.length - a.length).map(escapeRegExp);
+    rules.push({ kind: 'name', pattern: new RegExp(`()(${alternatives.join('|')})`, 'g') });
+  }
+  return rules;
+}
+
+/**
+ * 创建一次请求用的脱敏器，多条消息共用同一套占位符
+ */
+export function createRedactor(settings: RedactionSettings) {
+  const rules = settings.enabled ? buildRules(settings) : [];
+  const byKey = new Map<string, RedactionMatch>();
+  const byPlaceholder = new Map<string, string>();
+  const counts: Partial<Record<RedactionKind, number>> = {};
+
+  const placeholderFor = (kind: RedactionKind, original: string): string => {
+    const key = `${kind}:${original}`;
+    const existing = byKey.get(key);
+    if (existing) return existing.placeholder;
+
+    counts[kind] = (counts[kind] || 0) + 1;
+    const placeholder = `[${REDACTION_LABELS[kind]}${counts[kind]}]`;
+    byKey.set(key, { kind, original, placeholder });
+    byPlaceholder.set(placeholder, original);
+    return placeholder;
+  };
+
+  return {
+    redact(text: string): string {
+      return rules.reduce(
+        (result, rule) => result.replace(rule.pattern, (_match, prefix: string, value: string) =>
+          `${prefix}${placeholderFor(rule.kind, value)}`),
+        text
+      );
+    },
+
+    restore(text: string): string {
+      if (byPlaceholder.size === 0) return text;
+      return text.replace(PLACEHOLDER_PATTERN, (match, label: string, index: string) =>
+        byPlaceholder.get(`[${label}${index}]`) ?? match);
+    },
+
+    matches(): RedactionMatch[] {
+      return [...byKey.values()];
+    },
+  };
+}
+
+/**
+ * 隐去单段文字中的个人信息，用于设置页试用
+ */
+export function redactText(text: string, settings: RedactionSettings): { text: string; matches: RedactionMatch[] } {
+  const redactor = createRedactor(settings);
+  return { text: redactor.redact(text), matches: redactor.matches() };
+}
+
+export interface RedactedMessages {
+  messages: ChatMessage[];
+  matches: RedactionMatch[];
+  restore: (text: string) => string;
+}
+
+/**
+ * 隐去所有消息中的个人信息；有内容被替换时在系统提示词后说明占位符的含义
+ */
+export function redactMessages(messages: ChatMessage[], settings: RedactionSettings): RedactedMessages {
+  const redactor = createRedactor(settings);
+  const redacted = messages.map(message => ({ ...message, content: redactor.redact(message.content) }));
+  const matches = redactor.matches();
+
+  if (matches.length > 0) {
+    const systemIndex = redacted.findIndex(message => message.role === 'system');
+    if (systemIndex === -1) {
+      redacted.unshift({ role: 'system', content: REDACTION_NOTE });
+    } else {
+      redacted[systemIndex] = {
+        ...redacted[systemIndex],
+        content: `${redacted[systemIndex].content}\n\n${REDACTION_NOTE}`,
+      };
+    }
+  }
+
+  return { messages: redacted, matches, restore: text => redactor.restore(text) };
+}
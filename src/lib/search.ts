@@ -0,0 +1,252 @@
+/**
+ * 全文检索：分词、查询解析、排序与摘要高亮
+ *
+ * 中文按连续汉字切分为二元组（单字片段保留单字），英文和数字按单词切分并转小写。
+ * 查询中的单字和英文可能只是词的一部分，检索时对应所有包含它的词项。
+ * 倒排索引本身的持久化见 storage.ts 中的 searchIndexDB。
+ */
+
+// 单个文档在索引中的信息：词项 -> 加权词频
+export interface SearchDoc {
+  length: number;
+  terms: { [term: string]: number };
+}
+
+// 查询中的一个检索单元：普通词或短语
+export interface QueryItem {
+  text: string;
+  phrase: boolean;
+}
+
+export interface ParsedQuery {
+  // OR 连接的子句，每个子句内的检索单元为 AND 关系
+  clauses: QueryItem[][];
+  // 标签范围（#标签 或 tag:标签），可以是标签ID或名称
+  tags: string[];
+}
+
+export interface SnippetSegment {
+  text: string;
+  highlight: boolean;
+}
+
+const CJK_PATTERN = /[㐀-鿿豈-﫿]/;
+const TOKEN_PATTERN = /[㐀-鿿豈-﫿]+|[a-z0-9]+/g;
+
+// 正文权重高于AI回应
+const CONTENT_WEIGHT = 2;
+const AI_RESPONSE_WEIGHT = 1;
+
+// BM25 参数
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const SNIPPET_RADIUS = 24;
+
+/**
+ * 分词：中文二元组 + 英文数字单词
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const segments = text.toLowerCase().match(TOKEN_PATTERN) || [];
+
+  segments.forEach(segment => {
+    if (!CJK_PATTERN.test(segment[0])) {
+      tokens.push(segment);
+      return;
+    }
+    if (segment.length === 1) {
+      tokens.push(segment);
+      return;
+    }
+    for (let i = 0; i < segment.length - 1; i++) {
+      tokens.push(segment.slice(i, i + 2));
+    }
+  });
+
+  return tokens;
+}
+
+/**
+ * 为记录构建索引文档
+ */
+export function buildSearchDoc(content: string, aiResponse?: string): SearchDoc {
+  const terms: { [term: string]: number } = {};
+  let length = 0;
+
+  const addField = (text: string | undefined, weight: number) => {
+    if (!text) return;
+    tokenize(text).forEach(token => {
+      terms[token] = (terms[token] || 0) + weight;
+      length += weight;
+    });
+  };
+
+  addField(content, CONTENT_WEIGHT);
+  addField(aiResponse, AI_RESPONSE_WEIGHT);
+
+  return { length, terms };
+}
+
+/**
+ * 解析查询语句
+ * - 空格分隔的词为 AND
+ * - OR 或 | 分隔子句
+ * - "双引号" 包裹短语
+ * - #标签 或 tag:标签 限定标签范围
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const clauses: QueryItem[][] = [[]];
+  const tags: string[] = [];
+  const pattern = /"([^"]+)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query)) !== null) {
+    if (match[1] !== undefined) {
+      const text = match[1].trim().toLowerCase();
+      if (text) clauses[clauses.length - 1].push({ text, phrase: true });
+      continue;
+    }
+
+    const word = match[2];
+    if (word === 'OR' || word === '|') {
+      if (clauses[clauses.length - 1].length > 0) clauses.push([]);
+      continue;
+    }
+    if (word.startsWith('#') && word.length > 1) {
+      tags.push(word.slice(1));
+      continue;
+    }
+    if (word.toLowerCase().startsWith('tag:') && word.length > 4) {
+      tags.push(word.slice(4));
+      continue;
+    }
+    clauses[clauses.length - 1].push({ text: word.toLowerCase(), phrase: false });
+  }
+
+  return {
+    clauses: clauses.filter(clause => clause.length > 0),
+    tags,
+  };
+}
+
+/**
+ * 查询词对应的索引词项
+ * 中文二元组精确对应；单字和英文可能只是词的一部分（如“累”“happ”），对应所有包含它的词项
+ */
+export function expandQueryToken(token: string, indexTerms: string[]): string[] {
+  if (CJK_PATTERN.test(token[0]) && token.length > 1) return [token];
+  return indexTerms.filter(term => term.includes(token));
+}
+
+/**
+ * 通过倒排表找出可能命中的记录，结果仍需按原文精确校验
+ */
+export function findCandidates(
+  clauses: QueryItem[][],
+  postings: { [term: string]: Set<string> },
+  allIds: string[]
+): Set<string> {
+  const candidates = new Set<string>();
+  const indexTerms = Object.keys(postings);
+
+  clauses.forEach(clause => {
+    const clauseTokens = clause.flatMap(item => tokenize(item.text));
+    if (clauseTokens.length === 0) {
+      allIds.forEach(id => candidates.add(id));
+      return;
+    }
+    const tokenPostings = Array.from(new Set(clauseTokens)).map(token => {
+      const ids = new Set<string>();
+      expandQueryToken(token, indexTerms).forEach(term => postings[term]?.forEach(id => ids.add(id)));
+      return ids;
+    });
+    tokenPostings.sort((a, b) => a.size - b.size);
+    tokenPostings[0].forEach(id => {
+      if (tokenPostings.every(posting => posting.has(id))) candidates.add(id);
+    });
+  });
+
+  return candidates;
+}
+
+/**
+ * 检查文本是否满足子句中的所有检索单元
+ */
+export function matchesClause(text: string, clause: QueryItem[]): boolean {
+  const lowerText = text.toLowerCase();
+  return clause.every(item => lowerText.includes(item.text));
+}
+
+/**
+ * BM25 打分
+ */
+export function scoreDoc(
+  doc: SearchDoc,
+  queryTerms: string[],
+  documentFrequency: (term: string) => number,
+  totalDocs: number,
+  averageLength: number
+): number {
+  let score = 0;
+  const uniqueTerms = Array.from(new Set(queryTerms));
+
+  uniqueTerms.forEach(term => {
+    const tf = doc.terms[term];
+    if (!tf) return;
+    const df = documentFrequency(term);
+    const idf = Math.log(1 + (totalDocs - df + 0.5) / (df + 0.5));
+    const norm = 1 - BM25_B + BM25_B * (doc.length / (averageLength || 1));
+    score += idf * ((tf * (BM25_K1 + 1)) / (tf + BM25_K1 * norm));
+  });
+
+  return score;
+}
+
+/**
+ * 生成带高亮的摘要片段
+ */
+export function buildSnippet(text: string, needles: string[]): SnippetSegment[] {
+  const lowerText = text.toLowerCase();
+  const validNeedles = needles.filter(Boolean);
+
+  // 以第一个命中位置为中心截取
+  let firstHit = -1;
+  validNeedles.forEach(needle => {
+    const position = lowerText.indexOf(needle);
+    if (position !== -1 && (firstHit === -1 || position < firstHit)) {
+      firstHit = position;
+    }
+  });
+
+  const start = firstHit === -1 ? 0 : Math.max(0, firstHit - SNIPPET_RADIUS);
+  const end = Math.min(text.length, (firstHit === -1 ? 0 : firstHit) + SNIPPET_RADIUS * 2);
+  const window = text.slice(start, end);
+  const lowerWindow = window.toLowerCase();
+
+  // 标记窗口内所有命中区间
+  const marks = new Array(window.length).fill(false);
+  validNeedles.forEach(needle => {
+    let from = 0;
+    let position: number;
+    while ((position = lowerWindow.indexOf(needle, from)) !== -1) {
+      for (let i = position; i < position + needle.length; i++) marks[i] = true;
+      from = position + needle.length;
+    }
+  });
+
+  const segments: SnippetSegment[] = [];
+  for (let i = 0; i < window.length; i++) {
+    const last = segments[segments.length - 1];
+    if (last && last.highlight === marks[i]) {
+      last.text += window[i];
+    } else {
+      segments.push({ text: window[i], highlight: marks[i] });
+    }
+  }
+
+  if (start > 0) segments.unshift({ text: '...', highlight: false });
+  if (end < text.length) segments.push({ text: '...', highlight: false });
+
+  return segments;
+}
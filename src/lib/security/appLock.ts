@@ -0,0 +1,217 @@
+import localforage from 'localforage';
+import { CryptoUtils } from './cryptoUtils';
+import { SECURITY_CONSTANTS } from './index';
+
+/**
+ * 应用锁
+ * 打开应用或空闲、切到后台后需要输入PIN或口令，口令只以加盐哈希形式保存在本地
+ */
+
+export type AppLockMethod = 'pin' | 'passphrase';
+
+export interface AppLockConfig {
+  enabled: boolean;
+  method: AppLockMethod;
+  salt: string; // Base64
+  iterations: number;
+  hash: string; // Base64
+  idleTimeoutMinutes: number; // 0 表示不按空闲时间锁定
+  lockOnBackground: boolean;
+}
+
+const lockStore = localforage.createInstance({
+  name: 'daily-reflection',
+  storeName: 'app-lock',
+});
+
+// 输错次数和冷却截止时间与哈希一起保存，刷新页面不会重置
+interface AppLockAttempts {
+  failedAttempts: number;
+  cooldownUntil: number;
+}
+
+const ATTEMPTS_KEY = 'attempts';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart', 'scroll'];
+// 连续输错后的冷却
+const MAX_FAILED_ATTEMPTS = 5;
+const COOLDOWN_MS = 30 * 1000;
+
+function fromBase64(value: string): Uint8Array {
+  return new Uint8Array(atob(value).split('').map(char => char.charCodeAt(0)));
+}
+
+// 等长比较，避免按字符提前返回
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export class AppLock {
+  private static instance: AppLock;
+  private readonly crypto = CryptoUtils.getInstance();
+  private config: AppLockConfig | null = null;
+  private locked = false;
+  private lastActivity = Date.now();
+  private failedAttempts = 0;
+  private cooldownUntil = 0;
+
+  static getInstance(): AppLock {
+    if (!this.instance) {
+      this.instance = new AppLock();
+    }
+    return this.instance;
+  }
+
+  private constructor() {
+    this.handleActivity = this.handleActivity.bind(this);
+    this.handleVisibilityChange = this.handleVisibilityChange.bind(this);
+  }
+
+  /**
+   * 读取配置；启用时应用启动即处于锁定状态
+   */
+  async init(): Promise<void> {
+    this.config = await lockStore.getItem<AppLockConfig>('config');
+    this.locked = Boolean(this.config?.enabled);
+    const attempts = await lockStore.getItem<AppLockAttempts>(ATTEMPTS_KEY);
+    this.failedAttempts = attempts?.failedAttempts || 0;
+    this.cooldownUntil = attempts?.cooldownUntil || 0;
+  }
+
+  private async saveAttempts(failedAttempts: number, cooldownUntil: number): Promise<void> {
+    this.failedAttempts = failedAttempts;
+    this.cooldownUntil = cooldownUntil;
+    await lockStore.setItem<AppLockAttempts>(ATTEMPTS_KEY, { failedAttempts, cooldownUntil });
+  }
+
+  getConfig(): AppLockConfig | null {
+    return this.config;
+  }
+
+  isEnabled(): boolean {
+    return Boolean(this.config?.enabled);
+  }
+
+  isLocked(): boolean {
+    return this.locked;
+  }
+
+  /**
+   * 设置或更换PIN/口令并启用应用锁
+   */
+  async setSecret(secret: string, method: AppLockMethod): Promise<void> {
+    const { salt, saltBase64 } = this.crypto.generateKeyDerivationSalt();
+    const iterations = SECURITY_CONSTANTS.KEY_DERIVATION.ITERATIONS;
+    this.config = {
+      idleTimeoutMinutes: 5,
+      lockOnBackground: true,
+      ...this.config,
+      enabled: true,
+      method,
+      salt: saltBase64,
+      iterations,
+      hash: await this.crypto.deriveHash(secret, salt, iterations),
+    };
+    await lockStore.setItem('config', this.config);
+    await this.saveAttempts(0, 0);
+    this.touch();
+  }
+
+  async disable(): Promise<void> {
+    await lockStore.removeItem('config');
+    await lockStore.removeItem(ATTEMPTS_KEY);
+    this.config = null;
+    this.locked = false;
+    this.failedAttempts = 0;
+    this.cooldownUntil = 0;
+  }
+
+  async updateConfig(updates: Partial<Pick<AppLockConfig, 'idleTimeoutMinutes' | 'lockOnBackground'>>): Promise<void> {
+    if (!this.config) return;
+    this.config = { ...this.config, ...updates };
+    await lockStore.setItem('config', this.config);
+  }
+
+  /**
+   * 校验PIN/口令（不改变锁定状态）
+   */
+  async verify(secret: string): Promise<boolean> {
+    if (!this.config) return false;
+    const hash = await this.crypto.deriveHash(secret, fromBase64(this.config.salt), this.config.iterations);
+    return constantTimeEqual(hash, this.config.hash);
+  }
+
+  /**
+   * 剩余冷却时间（毫秒）
+   */
+  getCooldownRemaining(): number {
+    return Math.max(0, this.cooldownUntil - Date.now());
+  }
+
+  async unlock(secret: string): Promise<boolean> {
+    if (this.getCooldownRemaining() > 0) return false;
+
+    // 校验前先按失败计数并保存，校验期间刷新页面也不能绕过
+    const failedAttempts = this.failedAttempts + 1;
+    if (failedAttempts >= MAX_FAILED_ATTEMPTS) {
+      await this.saveAttempts(0, Date.now() + COOLDOWN_MS);
+    } else {
+      await this.saveAttempts(failedAttempts, this.cooldownUntil);
+    }
+
+    const success = await this.verify(secret);
+    if (!success) return false;
+
+    await this.saveAttempts(0, 0);
+    this.locked = false;
+    this.touch();
+    window.dispatchEvent(new CustomEvent('app-unlocked'));
+    return true;
+  }
+
+  lock(): void {
+    if (!this.isEnabled() || this.locked) return;
+    this.locked = true;
+    window.dispatchEvent(new CustomEvent('app-locked'));
+  }
+
+  touch(): void {
+    this.lastActivity = Date.now();
+  }
+
+  private handleActivity(): void {
+    this.touch();
+  }
+
+  private handleVisibilityChange(): void {
+    if (document.visibilityState === 'hidden' && this.config?.lockOnBackground) {
+      this.lock();
+    }
+  }
+
+  /**
+   * 启动空闲和切到后台时的自动锁定监听
+   */
+  startWatch(): () => void {
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, this.handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    const timer = setInterval(() => {
+      if (this.locked) return;
+      const timeout = (this.config?.idleTimeoutMinutes || 0) * 60 * 1000;
+      if (timeout > 0 && Date.now() - this.lastActivity > timeout) {
+        this.lock();
+      }
+    }, 15 * 1000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, this.handleActivity));
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+      clearInterval(timer);
+    };
+  }
+}
@@ -47,6 +47,37 @@ export class CryptoUtils {
     );
   }
 
+  /**
+   * 从密码派生哈希（Base64），用于本地校验口令而不保存明文
+   */
+  async deriveHash(
+    password: string,
+    salt: Uint8Array,
+    iterations: number = 100000
+  ): Promise<string> {
+    const encoder = new TextEncoder();
+    const keyMaterial = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(password),
+      'PBKDF2',
+      false,
+      ['deriveBits']
+    );
+
+    const bits = await crypto.subtle.deriveBits(
+      {
+        name: 'PBKDF2',
+        salt,
+        iterations,
+        hash: 'SHA-256'
+      },
+      keyMaterial,
+      this.KEY_LENGTH
+    );
+
+    return btoa(String.fromCharCode(...new Uint8Array(bits)));
+  }
+
   /**
    * 生成随机盐值
    */
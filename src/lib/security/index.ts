@@ -5,6 +5,10 @@
 export { DeviceFingerprint } from './deviceFingerprint';
 export { CryptoUtils } from './cryptoUtils';
 export { AntiDebug } from './antiDebug';
+export { JournalVault } from './journalVault';
+export type { VaultConfig, VaultScope } from './journalVault';
+export { AppLock } from './appLock';
+export type { AppLockConfig, AppLockMethod } from './appLock';
 
 // 安全模块常量
 export const SECURITY_CONSTANTS = {
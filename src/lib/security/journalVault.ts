@@ -0,0 +1,241 @@
+import localforage from 'localforage';
+import { CryptoUtils } from './cryptoUtils';
+import { SECURITY_CONSTANTS } from './index';
+
+/**
+ * 日记加密保险库
+ * 使用用户口令派生的AES-GCM密钥加密记录内容，密钥只保存在内存中，按会话解锁
+ */
+
+// 加密范围：仅私密记录 或 全部记录
+export type VaultScope = 'private' | 'all';
+
+export interface VaultConfig {
+  enabled: boolean;
+  scope: VaultScope;
+  salt: string; // Base64
+  iterations: number;
+  verifier: string; // 用派生密钥加密的固定文本，用于校验口令
+  idleTimeoutMinutes: number; // 0 表示不自动锁定
+}
+
+const vaultStore = localforage.createInstance({
+  name: 'daily-reflection',
+  storeName: 'vault',
+});
+
+const VERIFIER_TEXT = 'heart-trace-vault';
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart', 'scroll'];
+
+function fromBase64(value: string): Uint8Array {
+  return new Uint8Array(atob(value).split('').map(char => char.charCodeAt(0)));
+}
+
+export class JournalVault {
+  private static instance: JournalVault;
+  private readonly crypto = CryptoUtils.getInstance();
+  private key: CryptoKey | null = null;
+  private config: VaultConfig | null = null;
+  private lastActivity = Date.now();
+  private idleTimer: ReturnType<typeof setInterval> | null = null;
+
+  static getInstance(): JournalVault {
+    if (!this.instance) {
+      this.instance = new JournalVault();
+    }
+    return this.instance;
+  }
+
+  private constructor() {
+    this.handleActivity = this.handleActivity.bind(this);
+  }
+
+  /**
+   * 读取保险库配置
+   */
+  async getConfig(): Promise<VaultConfig | null> {
+    if (!this.config) {
+      this.config = await vaultStore.getItem<VaultConfig>('config');
+    }
+    return this.config;
+  }
+
+  async isEnabled(): Promise<boolean> {
+    const config = await this.getConfig();
+    return Boolean(config?.enabled);
+  }
+
+  isUnlocked(): boolean {
+    return this.key !== null;
+  }
+
+  /**
+   * 判断记录是否需要加密，传入 config 时按该配置判断（重新加密时使用目标配置）
+   */
+  async shouldEncrypt(isPrivate: boolean, config?: VaultConfig | null): Promise<boolean> {
+    const target = config === undefined ? await this.getConfig() : config;
+    if (!target?.enabled) return false;
+    return target.scope === 'all' || isPrivate;
+  }
+
+  /**
+   * 用口令创建保险库配置并解锁（不处理已有记录）
+   */
+  async create(passphrase: string, scope: VaultScope, idleTimeoutMinutes = 5): Promise<void> {
+    const { salt, saltBase64 } = this.crypto.generateKeyDerivationSalt();
+    const iterations = SECURITY_CONSTANTS.KEY_DERIVATION.ITERATIONS;
+    const key = await this.crypto.deriveKey(passphrase, salt, iterations);
+
+    const config: VaultConfig = {
+      enabled: true,
+      scope,
+      salt: saltBase64,
+      iterations,
+      verifier: await this.crypto.encryptToBase64(VERIFIER_TEXT, key),
+      idleTimeoutMinutes,
+    };
+    await vaultStore.setItem('config', config);
+    this.config = config;
+    this.key = key;
+    this.touch();
+    window.dispatchEvent(new CustomEvent('vault-unlocked'));
+  }
+
+  /**
+   * 删除保险库配置并锁定
+   */
+  async destroy(): Promise<void> {
+    await vaultStore.removeItem('config');
+    this.config = null;
+    this.key = null;
+  }
+
+  /**
+   * 整体保存配置（重新加密完成后切换到目标配置）
+   */
+  async saveConfig(config: VaultConfig): Promise<void> {
+    await vaultStore.setItem('config', config);
+    this.config = config;
+  }
+
+  async updateConfig(updates: Partial<Pick<VaultConfig, 'enabled' | 'scope' | 'idleTimeoutMinutes'>>): Promise<void> {
+    const config = await this.getConfig();
+    if (!config) return;
+    this.config = { ...config, ...updates };
+    await vaultStore.setItem('config', this.config);
+  }
+
+  /**
+   * 校验口令并派生密钥（不改变当前解锁状态）
+   */
+  async deriveVerifiedKey(passphrase: string): Promise<CryptoKey | null> {
+    const config = await this.getConfig();
+    if (!config) return null;
+    const key = await this.crypto.deriveKey(passphrase, fromBase64(config.salt), config.iterations);
+    try {
+      const text = await this.crypto.decryptFromBase64(config.verifier, key);
+      return text === VERIFIER_TEXT ? key : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 使用口令解锁
+   */
+  async unlock(passphrase: string): Promise<boolean> {
+    const key = await this.deriveVerifiedKey(passphrase);
+    if (!key) return false;
+    this.key = key;
+    this.touch();
+    window.dispatchEvent(new CustomEvent('vault-unlocked'));
+    return true;
+  }
+
+  /**
+   * 锁定：丢弃内存中的密钥
+   */
+  lock(): void {
+    if (!this.key) return;
+    this.key = null;
+    window.dispatchEvent(new CustomEvent('vault-locked'));
+  }
+
+  /**
+   * 更换口令：校验旧口令并生成新密钥和对应的新配置，由调用方用新旧密钥重新加密数据后保存配置
+   */
+  async prepareRekey(
+    oldPassphrase: string,
+    newPassphrase: string
+  ): Promise<{ oldKey: CryptoKey; newKey: CryptoKey; config: VaultConfig } | null> {
+    const oldKey = await this.deriveVerifiedKey(oldPassphrase);
+    const config = await this.getConfig();
+    if (!oldKey || !config) return null;
+
+    const { salt, saltBase64 } = this.crypto.generateKeyDerivationSalt();
+    const newKey = await this.crypto.deriveKey(newPassphrase, salt, config.iterations);
+    return {
+      oldKey,
+      newKey,
+      config: {
+        ...config,
+        salt: saltBase64,
+        verifier: await this.crypto.encryptToBase64(VERIFIER_TEXT, newKey),
+      },
+    };
+  }
+
+  /**
+   * 更换口令完成后切换到新密钥（新配置已由调用方保存）
+   */
+  commitRekey(newKey: CryptoKey): void {
+    this.key = newKey;
+    this.touch();
+  }
+
+  async encrypt(plaintext: string, key: CryptoKey | null = this.key): Promise<string> {
+    if (!key) throw new Error('日记库已锁定');
+    this.touch();
+    return this.crypto.encryptToBase64(plaintext, key);
+  }
+
+  async decrypt(ciphertext: string, key: CryptoKey | null = this.key): Promise<string> {
+    if (!key) throw new Error('日记库已锁定');
+    this.touch();
+    return this.crypto.decryptFromBase64(ciphertext, key);
+  }
+
+  /**
+   * 记录用户活动，重置空闲计时
+   */
+  touch(): void {
+    this.lastActivity = Date.now();
+  }
+
+  private handleActivity(): void {
+    this.touch();
+  }
+
+  /**
+   * 启动空闲自动锁定监听
+   */
+  startIdleWatch(): () => void {
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, this.handleActivity, { passive: true }));
+    this.idleTimer = setInterval(async () => {
+      if (!this.key) return;
+      const config = await this.getConfig();
+      const timeout = (config?.idleTimeoutMinutes || 0) * 60 * 1000;
+      if (timeout > 0 && Date.now() - this.lastActivity > timeout) {
+        this.lock();
+      }
+    }, 15 * 1000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, this.handleActivity));
+      if (this.idleTimer) {
+        clearInterval(this.idleTimer);
+        this.idleTimer = null;
+      }
+    };
+  }
+}
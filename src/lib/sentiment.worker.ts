@@ -0,0 +1,15 @@
+import { analyzeSentiment } from './sentimentEngine';
+
+/**
+ * 离线情绪分析 Worker：在后台线程运行词典分析，避免长文本阻塞界面
+ */
+
+interface SentimentRequest {
+  id: number;
+  text: string;
+}
+
+self.onmessage = (event: MessageEvent<SentimentRequest>) => {
+  const { id, text } = event.data;
+  self.postMessage({ id, result: analyzeSentiment(text) });
+};
@@ -0,0 +1,222 @@
+import type { EmotionAnalysis } from '../types';
+
+/**
+ * 离线情绪分析引擎：词典 + 规则，不依赖网络
+ * - 情绪词给出 [积极度, 能量, 平静度] 三个方向的权重
+ * - 否定词翻转情绪（否定消极词时减弱更多），双重否定抵消
+ * - 程度副词放大或减弱，"很不开心" 与 "不太开心" 的语序会得到不同强度
+ * - 转折词（但是、不过）之后的分句权重更高，感叹号加强所在分句
+ */
+
+type Weights = [number, number, number]; // [积极度, 能量, 平静度]
+
+const SENTIMENT_WORDS: { [word: string]: Weights } = {
+  // 积极
+  开心: [2, 1, 0], 高兴: [2, 1, 0], 快乐: [2, 1, 0], 幸福: [2, 0, 1], 满足: [1.5, 0, 1],
+  愉快: [1.5, 0.5, 0.5], 美好: [1.5, 0, 0.5], 喜欢: [1.5, 0.5, 0], 爱: [1.5, 0.5, 0], 棒: [1.5, 1, 0],
+  不错: [1, 0, 0.5], 顺利: [1, 0, 0.5], 感恩: [1.5, 0, 1], 感激: [1.5, 0, 1], 感动: [1.5, 0.5, 0],
+  温暖: [1.5, 0, 1], 欣慰: [1.5, 0, 1], 满意: [1.5, 0, 0.5], 骄傲: [1.5, 1, 0], 成就感: [2, 1, 0.5],
+  充实: [1.5, 1, 0.5], 期待: [1.5, 1, 0], 希望: [1, 0.5, 0], 惊喜: [2, 1.5, 0], 爽: [1, 1, 0],
+  好: [1, 0, 0], 哈哈: [1.5, 1, 0], 笑: [1, 0.5, 0], 甜: [1.5, 0.5, 0.5], 治愈: [1.5, 0, 1.5],
+  // 平静
+  平静: [0.5, -1, 2], 安宁: [0.5, -1, 2], 宁静: [0.5, -1, 2], 平和: [0.5, -0.5, 2], 放松: [1, -0.5, 2],
+  轻松: [1, 0, 1.5], 舒服: [1, -0.5, 1.5], 安心: [1, -0.5, 1.5], 踏实: [1, 0, 1.5], 自在: [1, 0, 1.5],
+  淡定: [0.5, -0.5, 2], 释然: [1, 0, 2], 惬意: [1.5, -0.5, 1.5], 悠闲: [1, -1, 1.5], 没事: [0.5, 0, 1],
+  // 有活力
+  兴奋: [1.5, 2, -1], 激动: [1, 2, -1], 活力: [1.5, 2, 0], 精神: [0.5, 1.5, 0], 精力充沛: [1.5, 2, 0],
+  努力: [0.5, 1.5, 0], 加油: [1, 1.5, 0], 奋斗: [0.5, 2, 0], 动力: [1, 1.5, 0], 热情: [1.5, 1.5, 0],
+  // 消极
+  难过: [-2, -0.5, -0.5], 伤心: [-2, -0.5, -1], 痛苦: [-2, 0, -1.5], 失望: [-1.5, -0.5, -0.5],
+  焦虑: [-1.5, 1, -2], 担心: [-1, 0.5, -1.5], 害怕: [-1.5, 1, -1.5], 紧张: [-1, 1, -2],
+  生气: [-1.5, 1.5, -2], 愤怒: [-2, 2, -2], 烦: [-1, 1, -1.5], 烦躁: [-1.5, 1, -2], 糟糕: [-1.5, 0, -0.5],
+  累: [-1, -1.5, 0], 疲惫: [-1, -2, 0], 困: [-0.5, -1.5, 0], 无聊: [-1, -1.5, 0], 孤独: [-1.5, -1, -0.5],
+  寂寞: [-1.5, -1, -0.5], 沮丧: [-2, -1.5, -0.5], 郁闷: [-1.5, -0.5, -1], 压力: [-1, 0.5, -1.5],
+  崩溃: [-2, 1, -2], 委屈: [-1.5, 0, -1], 后悔: [-1.5, 0, -1], 迷茫: [-1, -0.5, -1], 无力: [-1, -2, 0],
+  哭: [-1.5, 0.5, -1], 心累: [-1.5, -2, -0.5], 难受: [-1.5, 0, -1], 失眠: [-1, -1, -1.5], 不安: [-1, 0.5, -1.5],
+  讨厌: [-1.5, 1, -1], 抑郁: [-2, -2, -1], 绝望: [-2, -1.5, -1.5], 慌: [-1, 1, -2], 想哭: [-1.5, 0, -1],
+};
+
+// 程度副词
+const DEGREE_WORDS: { [word: string]: number } = {
+  极其: 2, 非常: 1.8, 特别: 1.8, 超级: 1.8, 超: 1.6, 十分: 1.8, 太: 1.6, 最: 2, 好好: 1.2,
+  很: 1.5, 真: 1.3, 真的: 1.3, 挺: 1.2, 蛮: 1.2, 更: 1.3, 越来越: 1.5, 格外: 1.6,
+  比较: 0.8, 还算: 0.7, 有点: 0.6, 有点儿: 0.6, 有些: 0.6, 稍微: 0.5, 略: 0.5, 一点: 0.5,
+};
+
+const NEGATION_WORDS = new Set(['不', '没', '没有', '别', '未', '无', '并不', '从不', '毫不', '不是', '不再', '一点也不', '一点都不']);
+
+const CONTRAST_WORDS = new Set(['但是', '但', '可是', '不过', '然而', '只是']);
+
+// 含情绪字但本身不表达情绪的词，整体匹配后跳过
+const NEUTRAL_WORDS = new Set(['好像', '好多', '好几', '只好', '爱好', '不好意思', '没关系', '不管', '无论']);
+
+const CLAUSE_BREAKS = new Set(['，', ',', '。', '.', '！', '!', '？', '?', '；', ';', '、', '\n', '~', '～']);
+const EXCLAMATIONS = new Set(['！', '!']);
+
+const MAX_WORD_LENGTH = Math.max(
+  ...[...Object.keys(SENTIMENT_WORDS), ...Object.keys(DEGREE_WORDS), ...NEGATION_WORDS, ...CONTRAST_WORDS, ...NEUTRAL_WORDS]
+    .map(word => word.length)
+);
+
+// 否定积极词比否定消极词更接近反义（"不开心" 约等于难过，"不难过" 只是没那么糟）
+const NEGATE_POSITIVE = -0.8;
+const NEGATE_NEGATIVE = -0.5;
+// 先否定再程度（"不太开心"）只是轻微的反向
+const NEGATE_THEN_DEGREE = -0.4;
+const DOUBLE_NEGATION = 0.8;
+const CONTRAST_DISCOUNT = 0.5;
+const EXCLAMATION_BOOST = 1.3;
+// 饱和系数，越大分数越不容易接近两端
+const SATURATION = 3;
+
+type TokenBody =
+  | { type: 'sentiment'; word: string; weights: Weights }
+  | { type: 'degree'; value: number }
+  | { type: 'negation' }
+  | { type: 'contrast' }
+  | { type: 'break'; exclamation: boolean }
+  | { type: 'neutral' };
+
+// gap：与上一个词之间跳过的字数，相隔太远的修饰词不再作用于情绪词
+export type Token = TokenBody & { gap: number };
+
+// 修饰词与情绪词之间最多允许隔开的字数（如 "没有那么开心"）
+const MAX_MODIFIER_GAP = 2;
+
+function matchAt(text: string, index: number): { token: TokenBody; length: number } | null {
+  for (let length = Math.min(MAX_WORD_LENGTH, text.length - index); length > 0; length--) {
+    const word = text.slice(index, index + length);
+    if (NEUTRAL_WORDS.has(word)) return { token: { type: 'neutral' }, length };
+    if (SENTIMENT_WORDS[word]) return { token: { type: 'sentiment', word, weights: SENTIMENT_WORDS[word] }, length };
+    if (DEGREE_WORDS[word]) return { token: { type: 'degree', value: DEGREE_WORDS[word] }, length };
+    if (NEGATION_WORDS.has(word)) return { token: { type: 'negation' }, length };
+    if (CONTRAST_WORDS.has(word)) return { token: { type: 'contrast' }, length };
+  }
+  return null;
+}
+
+/**
+ * 最长匹配切词，只保留与情绪相关的词
+ */
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let gap = 0;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (CLAUSE_BREAKS.has(char)) {
+      tokens.push({ type: 'break', exclamation: EXCLAMATIONS.has(char), gap });
+      gap = 0;
+      i++;
+      continue;
+    }
+
+    const match = matchAt(text, i);
+    if (!match) {
+      gap++;
+      i++;
+      continue;
+    }
+
+    let token = match.token;
+    // "好开心"、"好累" 中的 "好" 是程度副词
+    if (token.type === 'sentiment' && token.word === '好') {
+      const next = matchAt(text, i + 1);
+      if (next && next.token.type !== 'break' && next.token.type !== 'neutral') {
+        token = { type: 'degree', value: 1.5 };
+      }
+    }
+    tokens.push({ ...token, gap });
+    gap = 0;
+    i += match.length;
+  }
+
+  return tokens;
+}
+
+// 根据情绪词前的修饰词（否定、程度）计算系数
+function modifierFactor(modifiers: Token[], valence: number): number {
+  let negations = 0;
+  let degree = 1;
+  let degreeAfterNegation = false;
+
+  modifiers.forEach(modifier => {
+    if (modifier.type === 'negation') {
+      negations++;
+    } else if (modifier.type === 'degree') {
+      degree *= modifier.value;
+      if (negations % 2 === 1) degreeAfterNegation = true;
+    }
+  });
+
+  if (negations === 0) return degree;
+  if (negations % 2 === 0) return degree * DOUBLE_NEGATION;
+  if (degreeAfterNegation) return NEGATE_THEN_DEGREE;
+  return degree * (valence >= 0 ? NEGATE_POSITIVE : NEGATE_NEGATIVE);
+}
+
+// 把累计权重映射到 0-100，50 为中性
+function toScore(sum: number): number {
+  return Math.round(50 + 50 * Math.tanh(sum / SATURATION));
+}
+
+/**
+ * 分析一段文本的情绪，输出与AI分析一致的三个维度
+ */
+export function analyzeSentiment(text: string): EmotionAnalysis {
+  const totals: Weights = [0, 0, 0];
+  let clause: Weights = [0, 0, 0];
+  let modifiers: Token[] = [];
+  let hits = 0;
+  const emotions: string[] = [];
+
+  const closeClause = (exclamation: boolean) => {
+    const boost = exclamation ? EXCLAMATION_BOOST : 1;
+    clause.forEach((value, index) => { totals[index] += value * boost; });
+    clause = [0, 0, 0];
+    modifiers = [];
+  };
+
+  tokenize(text).forEach(token => {
+    if (token.gap > MAX_MODIFIER_GAP) modifiers = [];
+
+    switch (token.type) {
+      case 'break':
+        closeClause(token.exclamation);
+        break;
+      case 'contrast':
+        // 转折之前的内容权重减半
+        closeClause(false);
+        totals.forEach((value, index) => { totals[index] = value * CONTRAST_DISCOUNT; });
+        break;
+      case 'negation':
+      case 'degree':
+        // 只看紧挨着情绪词的几个修饰词
+        modifiers = [...modifiers, token].slice(-3);
+        break;
+      case 'neutral':
+        modifiers = [];
+        break;
+      case 'sentiment': {
+        const factor = modifierFactor(modifiers, token.weights[0]);
+        token.weights.forEach((weight, index) => { clause[index] += weight * factor; });
+        modifiers = [];
+        hits++;
+        if (factor > 0 && !emotions.includes(token.word)) emotions.push(token.word);
+        break;
+      }
+    }
+  });
+  closeClause(false);
+
+  return {
+    positivity: toScore(totals[0]),
+    energy: toScore(totals[1]),
+    calmness: toScore(totals[2]),
+    // 匹配到的情绪词越多越可信，完全没有匹配时只是中性猜测
+    confidence: hits === 0 ? 0.2 : Math.min(0.9, 0.35 + hits * 0.15),
+    emotions: emotions.slice(0, 5),
+    source: 'local',
+  };
+}
@@ -1,10 +1,18 @@
 import localforage from 'localforage';
-import type { DailyRecord, Tag, UserStats, UserSettings, WeeklyStats } from '../types';
+import type { ConversationMessage, DailyRecord, RecordRevision, StreakSummary, Tag, UserStats, UserSettings, WeeklyStats } from '../types';
+import { tokenize, buildSearchDoc, parseQuery, expandQueryToken, findCandidates, matchesClause, scoreDoc, buildSnippet } from './search';
+import type { SearchDoc, SnippetSegment } from './search';
+import { toLocalDayKey, recordDayKey, addDays } from './dates';
+import { computeStreak } from './streaks';
+import { aggregateDay } from './dailyAggregate';
+import { JournalVault } from './security/journalVault';
+import type { VaultConfig, VaultScope } from './security/journalVault';
 
 // 导出相关类型定义
 export interface ExportData {
   exportInfo: {
     version: string;
+    schemaVersion?: number;
     exportDate: string;
     totalRecords: number;
     dateRange: {
@@ -13,6 +21,7 @@ export interface ExportData {
     };
   };
   records: DailyRecord[];
+  revisions?: RecordRevision[];
   tags: Tag[];
   settings: UserSettings;
   stats: UserStats;
@@ -39,11 +48,19 @@ export const tagStore = localforage.createInstance({
   storeName: 'tags',
 });
 
-const settingsStore = localforage.createInstance({
+export const settingsStore = localforage.createInstance({
   name: 'daily-reflection',
   storeName: 'settings',
 });
 
+// 存储元信息（数据结构版本等）
+export const metaStore = localforage.createInstance({
+  name: 'daily-reflection',
+  storeName: 'meta',
+});
+
+export const SCHEMA_VERSION_KEY = 'schemaVersion';
+
 // 默认情绪标签
 export const DEFAULT_TAGS: Tag[] = [
   { id: 'happy', name: '开心', color: 'linear-gradient(135deg, #FFE082, #FFB74D)', isCustom: false },
@@ -56,67 +73,911 @@ export const DEFAULT_TAGS: Tag[] = [
   { id: 'down', name: '失落', color: 'linear-gradient(135deg, #B0BEC5, #78909C)', isCustom: false },
 ];
 
+// 默认用户设置
+export const DEFAULT_SETTINGS: UserSettings = {
+  nickname: '朋友',
+  defaultPrivate: false,
+  dailyReminder: false,
+  reminderTime: '20:00',
+};
+
+// 记录修订历史：按记录ID保存修订列表
+const revisionStore = localforage.createInstance({
+  name: 'daily-reflection',
+  storeName: 'revisions',
+});
+
+// 需要保留修订历史的用户可编辑字段
+const REVISIONED_FIELDS: Array<keyof DailyRecord> = ['content', 'tags', 'isPrivate', 'date'];
+
+// 某个修订前后的完整记录快照
+export interface RecordVersion {
+  revision: RecordRevision;
+  before: DailyRecord;
+  after: DailyRecord;
+}
+
+// 日记加密：受保护记录的正文、AI回应和对话加密保存在 encryptedPayload
+const vault = JournalVault.getInstance();
+
+interface SealedPayload {
+  content: string;
+  aiResponse?: string;
+  thread?: ConversationMessage[];
+}
+
+/**
+ * 判断记录是否仍处于加密状态（日记库未解锁）
+ */
+export function isRecordLocked(record: DailyRecord): boolean {
+  return Boolean(record.encryptedPayload);
+}
+
+// 按当前加密范围加密记录，已加密或无需加密的记录原样返回
+async function sealRecord(record: DailyRecord, key?: CryptoKey, config?: VaultConfig | null): Promise<DailyRecord> {
+  if (record.encryptedPayload || !(await vault.shouldEncrypt(record.isPrivate, config))) return record;
+  const payload: SealedPayload = { content: record.content, aiResponse: record.aiResponse, thread: record.thread };
+  const encryptedPayload = await vault.encrypt(JSON.stringify(payload), key);
+  return { ...record, content: '', aiResponse: undefined, thread: undefined, encryptedPayload };
+}
+
+// 解密记录，日记库锁定或解密失败时原样返回
+async function unsealRecord(record: DailyRecord, key?: CryptoKey): Promise<DailyRecord> {
+  if (!record.encryptedPayload || (!key && !vault.isUnlocked())) return record;
+  try {
+    const payload = JSON.parse(await vault.decrypt(record.encryptedPayload, key)) as SealedPayload;
+    const { encryptedPayload: _sealed, ...rest } = record;
+    return { ...rest, content: payload.content, aiResponse: payload.aiResponse, thread: payload.thread };
+  } catch (error) {
+    console.error('记录解密失败:', error);
+    return record;
+  }
+}
+
+// 回收站：被删除的记录在保留期内可恢复
+const trashStore = localforage.createInstance({
+  name: 'daily-reflection',
+  storeName: 'trash',
+});
+
+export const TRASH_RETENTION_DAYS = 30;
+
+export interface TrashedRecord {
+  record: DailyRecord;
+  deletedAt: number;
+  batchId?: string; // 同一次批量删除（如覆盖导入）的记录共享批次ID
+}
+
+// 记录二级索引：按本地日期和标签映射到记录ID
+const recordIndexStore = localforage.createInstance({
+  name: 'daily-reflection',
+  storeName: 'record-index',
+});
+
+const RECORD_INDEX_VERSION = 2;
+
+interface RecordIndex {
+  version: number;
+  byDay: { [day: string]: string[] };
+  byTag: { [tagId: string]: string[] };
+}
+
+function addToBucket(buckets: { [key: string]: string[] }, key: string, id: string) {
+  const bucket = buckets[key] || (buckets[key] = []);
+  if (!bucket.includes(id)) bucket.push(id);
+}
+
+function removeFromBucket(buckets: { [key: string]: string[] }, key: string, id: string) {
+  const bucket = buckets[key];
+  if (!bucket) return;
+  const filtered = bucket.filter(existingId => existingId !== id);
+  if (filtered.length > 0) {
+    buckets[key] = filtered;
+  } else {
+    delete buckets[key];
+  }
+}
+
+let indexCache: RecordIndex | null = null;
+let indexLoading: Promise<RecordIndex> | null = null;
+// 串行化索引写入，避免并发的读-改-写互相覆盖
+let indexWriteQueue: Promise<void> = Promise.resolve();
+
+export const recordIndexDB = {
+  // 获取索引，缺失或版本不符时全量重建
+  async get(): Promise<RecordIndex> {
+    if (indexCache) return indexCache;
+    if (!indexLoading) {
+      indexLoading = (async () => {
+        const stored = await recordIndexStore.getItem<RecordIndex>('index');
+        indexCache = stored && stored.version === RECORD_INDEX_VERSION
+          ? stored
+          : await this.rebuild();
+        return indexCache;
+      })().finally(() => {
+        indexLoading = null;
+      });
+    }
+    return indexLoading;
+  },
+
+  // 扫描全部记录重建索引
+  async rebuild(): Promise<RecordIndex> {
+    const index: RecordIndex = { version: RECORD_INDEX_VERSION, byDay: {}, byTag: {} };
+    await recordStore.iterate<DailyRecord, void>((record) => {
+      if (!record) return;
+      addToBucket(index.byDay, recordDayKey(record), record.id);
+      record.tags.forEach(tag => addToBucket(index.byTag, tag, record.id));
+    });
+    await recordIndexStore.setItem('index', index);
+    indexCache = index;
+    return index;
+  },
+
+  // 记录写入后更新索引（previous为写入前的记录）
+  async sync(previous: DailyRecord | null, next: DailyRecord | null): Promise<void> {
+    const task = indexWriteQueue.then(async () => {
+      const index = await this.get();
+      if (previous) {
+        removeFromBucket(index.byDay, recordDayKey(previous), previous.id);
+        previous.tags.forEach(tag => removeFromBucket(index.byTag, tag, previous.id));
+      }
+      if (next) {
+        addToBucket(index.byDay, recordDayKey(next), next.id);
+        next.tags.forEach(tag => addToBucket(index.byTag, tag, next.id));
+      }
+      await recordIndexStore.setItem('index', index);
+    });
+    indexWriteQueue = task.catch(() => undefined);
+    return task;
+  },
+
+  // 清空索引（记录全部清除时使用）
+  async clear(): Promise<void> {
+    indexCache = { version: RECORD_INDEX_VERSION, byDay: {}, byTag: {} };
+    await recordIndexStore.setItem('index', indexCache);
+  },
+
+  // 获取有记录的本地日期（升序）
+  async getDays(): Promise<string[]> {
+    const index = await this.get();
+    return Object.keys(index.byDay).sort();
+  },
+
+  // 获取日期范围内（含端点）的记录ID
+  async getIdsByDayRange(startDay: string, endDay: string): Promise<string[]> {
+    const index = await this.get();
+    return Object.keys(index.byDay)
+      .filter(day => day >= startDay && day <= endDay)
+      .flatMap(day => index.byDay[day]);
+  },
+
+  async getIdsByTag(tagId: string): Promise<string[]> {
+    const index = await this.get();
+    return [...(index.byTag[tagId] || [])];
+  },
+};
+
+// 全文检索倒排索引
+const searchIndexStore = localforage.createInstance({
+  name: 'daily-reflection',
+  storeName: 'search-index',
+});
+
+const SEARCH_INDEX_VERSION = 1;
+
+interface StoredSearchIndex {
+  version: number;
+  docs: { [id: string]: SearchDoc };
+}
+
+// 内存中的倒排表由持久化的文档词表派生
+interface SearchIndex {
+  docs: { [id: string]: SearchDoc };
+  postings: { [term: string]: Set<string> };
+  totalLength: number;
+}
+
+export interface SearchResult {
+  record: DailyRecord;
+  score: number;
+  snippet: SnippetSegment[];
+}
+
+function addDocToPostings(index: SearchIndex, id: string, doc: SearchDoc) {
+  Object.keys(doc.terms).forEach(term => {
+    (index.postings[term] || (index.postings[term] = new Set())).add(id);
+  });
+  index.totalLength += doc.length;
+}
+
+function removeDocFromPostings(index: SearchIndex, id: string, doc: SearchDoc) {
+  Object.keys(doc.terms).forEach(term => {
+    const posting = index.postings[term];
+    if (!posting) return;
+    posting.delete(id);
+    if (posting.size === 0) delete index.postings[term];
+  });
+  index.totalLength -= doc.length;
+}
+
+function createSearchIndex(docs: { [id: string]: SearchDoc }): SearchIndex {
+  const index: SearchIndex = { docs, postings: {}, totalLength: 0 };
+  Object.entries(docs).forEach(([id, doc]) => addDocToPostings(index, id, doc));
+  return index;
+}
+
+let searchCache: SearchIndex | null = null;
+let searchLoading: Promise<SearchIndex> | null = null;
+let searchWriteQueue: Promise<void> = Promise.resolve();
+
+// 加密记录的检索文档只在日记库解锁期间保存在内存中，锁定时丢弃，从不写入 search-index
+let sealedSearchCache: SearchIndex | null = null;
+let sealedSearchLoading: Promise<SearchIndex | null> | null = null;
+// 持久化索引与加密记录索引合并后的检索用索引，任一方变化时失效
+let combinedSearchCache: SearchIndex | null = null;
+
+function dropSealedSearchIndex() {
+  sealedSearchCache = null;
+  combinedSearchCache = null;
+}
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('vault-locked', dropSealedSearchIndex);
+}
+
+export const searchIndexDB = {
+  async get(): Promise<SearchIndex> {
+    if (searchCache) return searchCache;
+    if (!searchLoading) {
+      searchLoading = (async () => {
+        const stored = await searchIndexStore.getItem<StoredSearchIndex>('index');
+        searchCache = stored && stored.version === SEARCH_INDEX_VERSION
+          ? createSearchIndex(stored.docs)
+          : await this.rebuild();
+        return searchCache;
+      })().finally(() => {
+        searchLoading = null;
+      });
+    }
+    return searchLoading;
+  },
+
+  async persist(index: SearchIndex): Promise<void> {
+    await searchIndexStore.setItem<StoredSearchIndex>('index', {
+      version: SEARCH_INDEX_VERSION,
+      docs: index.docs,
+    });
+  },
+
+  async rebuild(): Promise<SearchIndex> {
+    const docs: { [id: string]: SearchDoc } = {};
+    await recordStore.iterate<DailyRecord, void>((record) => {
+      // 加密记录不进入全文索引，避免明文落盘
+      if (!record || record.encryptedPayload) return;
+      docs[record.id] = buildSearchDoc(record.content, record.aiResponse);
+    });
+    const index = createSearchIndex(docs);
+    await this.persist(index);
+    searchCache = index;
+    dropSealedSearchIndex();
+    return index;
+  },
+
+  // 解锁期间在内存中为加密记录建立索引，锁定时返回 null
+  async getSealed(): Promise<SearchIndex | null> {
+    if (!vault.isUnlocked()) {
+      dropSealedSearchIndex();
+      return null;
+    }
+    if (sealedSearchCache) return sealedSearchCache;
+    if (!sealedSearchLoading) {
+      sealedSearchLoading = (async () => {
+        const sealed: DailyRecord[] = [];
+        await recordStore.iterate<DailyRecord, void>((record) => {
+          if (record?.encryptedPayload) sealed.push(record);
+        });
+        const docs: { [id: string]: SearchDoc } = {};
+        for (const record of sealed) {
+          const plain = await unsealRecord(record);
+          if (!plain.encryptedPayload) docs[plain.id] = buildSearchDoc(plain.content, plain.aiResponse);
+        }
+        // 建立期间被锁定时丢弃结果
+        if (!vault.isUnlocked()) return null;
+        sealedSearchCache = createSearchIndex(docs);
+        combinedSearchCache = null;
+        return sealedSearchCache;
+      })().finally(() => {
+        sealedSearchLoading = null;
+      });
+    }
+    return sealedSearchLoading;
+  },
+
+  // 检索用索引：解锁时合并加密记录的内存索引
+  async getSearchable(): Promise<SearchIndex> {
+    const index = await this.get();
+    const sealed = await this.getSealed();
+    if (!sealed || Object.keys(sealed.docs).length === 0) return index;
+    if (!combinedSearchCache) {
+      combinedSearchCache = createSearchIndex({ ...index.docs, ...sealed.docs });
+    }
+    return combinedSearchCache;
+  },
+
+  async sync(previous: DailyRecord | null, next: DailyRecord | null): Promise<void> {
+    const task = searchWriteQueue.then(async () => {
+      const index = await this.get();
+      if (previous && index.docs[previous.id]) {
+        removeDocFromPostings(index, previous.id, index.docs[previous.id]);
+        delete index.docs[previous.id];
+      }
+      if (next && !next.encryptedPayload) {
+        const doc = buildSearchDoc(next.content, next.aiResponse);
+        index.docs[next.id] = doc;
+        addDocToPostings(index, next.id, doc);
+      }
+      await this.persist(index);
+
+      // 加密记录只更新内存中的索引；正在建立时等它完成，避免漏掉这条记录
+      if (sealedSearchLoading) await sealedSearchLoading;
+      if (sealedSearchCache) {
+        [previous?.id, next?.id].forEach(id => {
+          if (!id || !sealedSearchCache.docs[id]) return;
+          removeDocFromPostings(sealedSearchCache, id, sealedSearchCache.docs[id]);
+          delete sealedSearchCache.docs[id];
+        });
+        const plain = next?.encryptedPayload ? await unsealRecord(next) : null;
+        if (plain && !plain.encryptedPayload && sealedSearchCache) {
+          const doc = buildSearchDoc(plain.content, plain.aiResponse);
+          sealedSearchCache.docs[plain.id] = doc;
+          addDocToPostings(sealedSearchCache, plain.id, doc);
+        }
+      }
+      combinedSearchCache = null;
+    });
+    searchWriteQueue = task.catch(() => undefined);
+    return task;
+  },
+
+  async clear(): Promise<void> {
+    searchCache = createSearchIndex({});
+    dropSealedSearchIndex();
+    await this.persist(searchCache);
+  },
+
+  /**
+   * 检索记录，返回按相关度排序的结果和高亮摘要
+   * knownTags 用于将查询中的标签名解析为标签ID
+   */
+  async search(query: string, knownTags: Tag[] = DEFAULT_TAGS): Promise<SearchResult[]> {
+    const parsed = parseQuery(query);
+    if (parsed.clauses.length === 0 && parsed.tags.length === 0) return [];
+
+    const index = await this.getSearchable();
+    const allIds = Object.keys(index.docs);
+
+    const tagIds = parsed.tags.map(tag => {
+      const lower = tag.toLowerCase();
+      const found = knownTags.find(t => t.id.toLowerCase() === lower || t.name.toLowerCase() === lower);
+      return found ? found.id : tag;
+    });
+
+    // 通过倒排表找出候选记录
+    const candidates = parsed.clauses.length === 0
+      ? new Set(allIds)
+      : findCandidates(parsed.clauses, index.postings, allIds);
+
+    const records = await loadRecords(Array.from(candidates));
+    const indexTerms = Object.keys(index.postings);
+    const queryTerms = parsed.clauses.flat()
+      .flatMap(item => tokenize(item.text))
+      .flatMap(token => expandQueryToken(token, indexTerms));
+    const needles = parsed.clauses.flat().map(item => item.text);
+    const totalDocs = allIds.length;
+    const averageLength = totalDocs > 0 ? index.totalLength / totalDocs : 0;
+
+    const results: SearchResult[] = [];
+    records.forEach(record => {
+      if (!tagIds.every(tagId => record.tags.includes(tagId))) return;
+
+      // 倒排表只是近似匹配，这里按原文精确校验
+      const text = `${record.content}\n${record.aiResponse || ''}`;
+      const matchedClauses = parsed.clauses.filter(clause => matchesClause(text, clause));
+      if (parsed.clauses.length > 0 && matchedClauses.length === 0) return;
+
+      const doc = index.docs[record.id];
+      let score = doc
+        ? scoreDoc(doc, queryTerms, term => index.postings[term]?.size || 0, totalDocs, averageLength)
+        : 0;
+      // 短语完整命中额外加分
+      matchedClauses.flat().forEach(item => {
+        if (item.phrase) score += 1;
+      });
+
+      const snippetSource = needles.some(needle => record.content.toLowerCase().includes(needle))
+        ? record.content
+        : record.aiResponse || record.content;
+
+      results.push({
+        record,
+        score,
+        snippet: buildSnippet(snippetSource, needles),
+      });
+    });
+
+    return results.sort((a, b) => b.score - a.score || b.record.createdAt - a.record.createdAt);
+  },
+};
+
+// 记录写入后同步所有索引
+async function syncIndexes(previous: DailyRecord | null, next: DailyRecord | null): Promise<void> {
+  await Promise.all([
+    recordIndexDB.sync(previous, next),
+    searchIndexDB.sync(previous, next),
+  ]);
+}
+
+function compareByDateDesc(a: DailyRecord, b: DailyRecord): number {
+  return new Date(b.date).getTime() - new Date(a.date).getTime() || b.createdAt - a.createdAt;
+}
+
+async function loadRecords(ids: string[]): Promise<DailyRecord[]> {
+  const records = await Promise.all(
+    ids.map(id => recordStore.getItem<DailyRecord>(id))
+  );
+  const unsealed = await Promise.all(
+    (records.filter(Boolean) as DailyRecord[]).map(record => unsealRecord(record))
+  );
+  // 按记录的逻辑日期排序，补记的记录排在它所属的那一天
+  return unsealed.sort((a, b) => compareByDateDesc(a, b));
+}
+
 // 记录相关操作
 export const recordsDB = {
   async getAll(): Promise<DailyRecord[]> {
-    const keys = await recordStore.keys();
-    const records = await Promise.all(
-      keys.map(key => recordStore.getItem<DailyRecord>(key))
-    );
-    return records.filter(Boolean).sort((a, b) => b!.createdAt - a!.createdAt);
+    return loadRecords(await recordStore.keys());
   },
 
   async getById(id: string): Promise<DailyRecord | null> {
-    return await recordStore.getItem<DailyRecord>(id);
+    const record = await recordStore.getItem<DailyRecord>(id);
+    return record ? unsealRecord(record) : null;
   },
 
-  async create(record: Omit<DailyRecord, 'id' | 'createdAt' | 'date'>): Promise<DailyRecord> {
+  // date 为记录所属的逻辑时间，可用于补记或预写；不传时为当前时间
+  async create(record: Omit<DailyRecord, 'id' | 'createdAt' | 'date'> & { date?: string }): Promise<DailyRecord> {
+    const date = record.date || new Date().toISOString();
     const newRecord: DailyRecord = {
       ...record,
       id: `record_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       createdAt: Date.now(),
-      date: new Date().toISOString(), // 设置date字段为当前日期的ISO字符串
+      date,
+      timezoneOffset: new Date(date).getTimezoneOffset(),
     };
-    await recordStore.setItem(newRecord.id, newRecord);
+    const sealed = await sealRecord(newRecord);
+    await recordStore.setItem(newRecord.id, sealed);
+    await syncIndexes(null, sealed);
     return newRecord;
   },
 
+  // 按原ID和时间直接写入记录（导入和恢复时使用）
+  async put(record: DailyRecord): Promise<DailyRecord> {
+    const previous = await recordStore.getItem<DailyRecord>(record.id);
+    const sealed = await sealRecord(record);
+    await recordStore.setItem(record.id, sealed);
+    await syncIndexes(previous, sealed);
+    return record;
+  },
+
   async update(id: string, updates: Partial<DailyRecord>): Promise<DailyRecord | null> {
-    const record = await recordStore.getItem<DailyRecord>(id);
-    if (!record) return null;
+    const stored = await recordStore.getItem<DailyRecord>(id);
+    if (!stored) return null;
     
+    // 日记库锁定时，加密记录只允许修改不涉及正文、也不记修订的字段（如收藏）
+    // 修订中的旧值需要加密保存，锁定时无法记录，因此标签、日期等也要先解锁
+    if (stored.encryptedPayload && !vault.isUnlocked()) {
+      const sealedFields: Array<keyof DailyRecord> = [...REVISIONED_FIELDS, 'aiResponse', 'thread'];
+      if (sealedFields.some(field => field in updates)) {
+        throw new Error('日记库已锁定，请先解锁');
+      }
+      const updatedSealed = { ...stored, ...updates };
+      await recordStore.setItem(id, updatedSealed);
+      await syncIndexes(stored, updatedSealed);
+      return updatedSealed;
+    }
+    
+    const record = await unsealRecord(stored);
     const updated = { ...record, ...updates };
-    await recordStore.setItem(id, updated);
+    // 修改日期时按当前时区重新确定所属日期
+    if (updates.date && updates.timezoneOffset === undefined) {
+      updated.timezoneOffset = new Date(updates.date).getTimezoneOffset();
+    }
+    await revisionsDB.track(record, updated);
+    const sealed = await sealRecord(updated);
+    await recordStore.setItem(id, sealed);
+    await syncIndexes(stored, sealed);
     return updated;
   },
 
-  async delete(id: string): Promise<void> {
+  // 删除记录：移入回收站，保留期内可恢复
+  async delete(id: string, batchId?: string): Promise<void> {
+    const record = await recordStore.getItem<DailyRecord>(id);
+    if (!record) return;
+    await trashStore.setItem<TrashedRecord>(id, { record, deletedAt: Date.now(), batchId });
     await recordStore.removeItem(id);
+    await syncIndexes(record, null);
+  },
+
+  // 将全部记录移入回收站，返回批次ID用于整体撤销
+  async trashAll(): Promise<string> {
+    const batchId = `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const deletedAt = Date.now();
+    // 直接移动存储中的原始记录，保持加密状态
+    const records: DailyRecord[] = [];
+    await recordStore.iterate<DailyRecord, void>((record) => {
+      if (record) records.push(record);
+    });
+    await Promise.all(records.map(record =>
+      trashStore.setItem<TrashedRecord>(record.id, { record, deletedAt, batchId })
+    ));
+    await this.clear();
+    return batchId;
+  },
+
+  // 永久清空全部记录（不经过回收站）
+  async clear(): Promise<void> {
+    await recordStore.clear();
+    await Promise.all([recordIndexDB.clear(), searchIndexDB.clear()]);
   },
 
   async getTodayRecords(): Promise<DailyRecord[]> {
-    const all = await this.getAll();
-    const today = new Date().toDateString();
-    return all.filter(r => new Date(r.date).toDateString() === today);
+    const today = toLocalDayKey(new Date());
+    return loadRecords(await recordIndexDB.getIdsByDayRange(today, today));
   },
 
   async getByDateRange(startDate: string, endDate: string): Promise<DailyRecord[]> {
-    const all = await this.getAll();
     const start = new Date(startDate).getTime();
     const end = new Date(endDate).getTime();
-    return all.filter(r => {
+    // 先用日期索引缩小范围（前后各放宽一天，兼容按其他时区归日的记录），再按精确时间过滤
+    const ids = await recordIndexDB.getIdsByDayRange(
+      addDays(toLocalDayKey(start), -1),
+      addDays(toLocalDayKey(end), 1)
+    );
+    const records = await loadRecords(ids);
+    return records.filter(r => {
       const date = new Date(r.date).getTime();
       return date >= start && date <= end;
     });
   },
 
+  // 获取某个本地日历日（YYYY-MM-DD）的全部记录，按时间先后排列
+  async getByDay(day: string): Promise<DailyRecord[]> {
+    const records = await loadRecords(await recordIndexDB.getIdsByDayRange(day, day));
+    return records.reverse();
+  },
+
+  async getByTag(tagId: string): Promise<DailyRecord[]> {
+    return loadRecords(await recordIndexDB.getIdsByTag(tagId));
+  },
+
+  async count(): Promise<number> {
+    return await recordStore.length();
+  },
+
   async searchByKeyword(keyword: string): Promise<DailyRecord[]> {
-    const all = await this.getAll();
-    const lowerKeyword = keyword.toLowerCase();
-    return all.filter(r => 
-      r.content.toLowerCase().includes(lowerKeyword) ||
-      r.aiResponse?.toLowerCase().includes(lowerKeyword)
+    const results = await searchIndexDB.search(keyword);
+    return results.map(result => result.record);
+  },
+};
+
+// 修订历史相关操作
+export const revisionsDB = {
+  // 获取记录的修订（按时间倒序）
+  async getForRecord(recordId: string): Promise<RecordRevision[]> {
+    const revisions = await revisionStore.getItem<RecordRevision[]>(recordId);
+    const unsealed = await Promise.all((revisions || []).map(revision => this.unseal(revision)));
+    return unsealed.sort((a, b) => b.timestamp - a.timestamp);
+  },
+
+  // 解密修订中的旧值，锁定时原样返回
+  async unseal(revision: RecordRevision, key?: CryptoKey): Promise<RecordRevision> {
+    if (!revision.encryptedPrevious || (!key && !vault.isUnlocked())) return revision;
+    try {
+      const previous = JSON.parse(await vault.decrypt(revision.encryptedPrevious, key));
+      const { encryptedPrevious: _sealed, ...rest } = revision;
+      return { ...rest, previous };
+    } catch (error) {
+      console.error('修订解密失败:', error);
+      return revision;
+    }
+  },
+
+  async seal(revision: RecordRevision, isPrivate: boolean, key?: CryptoKey, config?: VaultConfig | null): Promise<RecordRevision> {
+    if (revision.encryptedPrevious || !(await vault.shouldEncrypt(isPrivate, config))) return revision;
+    return {
+      ...revision,
+      previous: {},
+      encryptedPrevious: await vault.encrypt(JSON.stringify(revision.previous), key),
+    };
+  },
+
+  // 按目标加密设置重新处理某条记录的全部修订，只返回结果不写入（启用、停用加密或更换口令时使用）
+  async reseal(
+    recordId: string,
+    isPrivate: boolean,
+    config: VaultConfig | null,
+    oldKey?: CryptoKey,
+    newKey?: CryptoKey
+  ): Promise<RecordRevision[] | null> {
+    const revisions = await revisionStore.getItem<RecordRevision[]>(recordId);
+    if (!revisions || revisions.length === 0) return null;
+    const resealed: RecordRevision[] = [];
+    for (const revision of revisions) {
+      const plain = await this.unseal(revision, oldKey);
+      if (plain.encryptedPrevious) {
+        throw new Error('修订解密失败，已停止重新加密');
+      }
+      resealed.push(await this.seal(plain, isPrivate, newKey, config));
+    }
+    return resealed;
+  },
+
+  async getAll(): Promise<RecordRevision[]> {
+    const all: RecordRevision[] = [];
+    await revisionStore.iterate<RecordRevision[], void>((revisions) => {
+      if (revisions) all.push(...revisions);
+    });
+    return all;
+  },
+
+  // 比较更新前后的记录，被编辑字段有变化时保存修订
+  async track(previous: DailyRecord, next: DailyRecord): Promise<RecordRevision | null> {
+    const changedFields = REVISIONED_FIELDS.filter(
+      field => JSON.stringify(previous[field]) !== JSON.stringify(next[field])
+    );
+    if (changedFields.length === 0) return null;
+
+    const revision: RecordRevision = {
+      id: `rev_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      recordId: previous.id,
+      timestamp: Date.now(),
+      changedFields,
+      previous: changedFields.reduce((acc, field) => ({ ...acc, [field]: previous[field] }), {}),
+    };
+    const revisions = (await revisionStore.getItem<RecordRevision[]>(previous.id)) || [];
+    revisions.push(await this.seal(revision, previous.isPrivate || next.isPrivate));
+    await revisionStore.setItem(previous.id, revisions);
+    return revision;
+  },
+
+  // 从当前记录逐步回退，还原每个修订前后的完整快照
+  async getVersions(record: DailyRecord): Promise<RecordVersion[]> {
+    const revisions = await this.getForRecord(record.id);
+    const versions: RecordVersion[] = [];
+    let after = record;
+    revisions.forEach(revision => {
+      const before = { ...after, ...revision.previous };
+      versions.push({ revision, before, after });
+      after = before;
+    });
+    return versions;
+  },
+
+  // 将记录恢复到某个修订之前的版本（恢复本身也会产生一条修订）
+  async restore(recordId: string, revisionId: string): Promise<DailyRecord | null> {
+    const record = await recordsDB.getById(recordId);
+    if (!record) return null;
+    const versions = await this.getVersions(record);
+    const target = versions.find(v => v.revision.id === revisionId);
+    if (!target) return null;
+    const restored = REVISIONED_FIELDS.reduce(
+      (acc, field) => ({ ...acc, [field]: target.before[field] }),
+      {} as Partial<DailyRecord>
+    );
+    return recordsDB.update(recordId, restored);
+  },
+
+  // 导入修订，按ID去重合并
+  async importMany(revisions: RecordRevision[]): Promise<number> {
+    const byRecord: { [recordId: string]: RecordRevision[] } = {};
+    revisions.forEach(revision => {
+      (byRecord[revision.recordId] || (byRecord[revision.recordId] = [])).push(revision);
+    });
+
+    let imported = 0;
+    for (const [recordId, incoming] of Object.entries(byRecord)) {
+      const existing = (await revisionStore.getItem<RecordRevision[]>(recordId)) || [];
+      const existingIds = new Set(existing.map(r => r.id));
+      const merged = [...existing, ...incoming.filter(r => !existingIds.has(r.id))];
+      imported += merged.length - existing.length;
+      await revisionStore.setItem(recordId, merged);
+    }
+    return imported;
+  },
+
+  async deleteForRecord(recordId: string): Promise<void> {
+    await revisionStore.removeItem(recordId);
+  },
+};
+
+// 回收站相关操作
+export const trashDB = {
+  // 获取回收站记录（按删除时间倒序），同时清理过期记录
+  async getAll(): Promise<TrashedRecord[]> {
+    await this.purgeExpired();
+    const items: TrashedRecord[] = [];
+    await trashStore.iterate<TrashedRecord, void>((item) => {
+      if (item) items.push(item);
+    });
+    // 仅在内存中解密用于展示，存储保持加密状态
+    const unsealed = await Promise.all(
+      items.map(async item => ({ ...item, record: await unsealRecord(item.record) }))
     );
+    return unsealed.sort((a, b) => b.deletedAt - a.deletedAt);
+  },
+
+  // 剩余保留天数
+  getDaysLeft(item: TrashedRecord): number {
+    const expiresAt = item.deletedAt + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    return Math.max(0, Math.ceil((expiresAt - Date.now()) / (24 * 60 * 60 * 1000)));
+  },
+
+  async restore(id: string): Promise<DailyRecord | null> {
+    const item = await trashStore.getItem<TrashedRecord>(id);
+    if (!item) return null;
+    await recordsDB.put(item.record);
+    await trashStore.removeItem(id);
+    return item.record;
+  },
+
+  // 恢复同一批次删除的全部记录
+  async restoreBatch(batchId: string): Promise<number> {
+    await this.purgeExpired();
+    const items: TrashedRecord[] = [];
+    await trashStore.iterate<TrashedRecord, void>((item) => {
+      if (item && item.batchId === batchId) items.push(item);
+    });
+    for (const item of items) {
+      await this.restore(item.record.id);
+    }
+    return items.length;
+  },
+
+  // 永久删除（连同修订历史）
+  async purge(id: string): Promise<void> {
+    await trashStore.removeItem(id);
+    await revisionsDB.deleteForRecord(id);
+  },
+
+  async purgeAll(): Promise<void> {
+    const keys = await trashStore.keys();
+    await Promise.all(keys.map(key => revisionsDB.deleteForRecord(key)));
+    await trashStore.clear();
+  },
+
+  async purgeExpired(): Promise<void> {
+    const expired: string[] = [];
+    await trashStore.iterate<TrashedRecord, void>((item, key) => {
+      if (item && this.getDaysLeft(item) === 0) expired.push(key);
+    });
+    await Promise.all(expired.map(key => this.purge(key)));
+  },
+};
+
+// 重新加密的暂存区：新数据先全部写入这里，写入提交日志后再替换正式数据，中途中断时下次启动继续完成
+const resealStore = localforage.createInstance({
+  name: 'daily-reflection',
+  storeName: 'vault-reseal',
+});
+
+const RESEAL_JOURNAL_KEY = 'journal';
+
+interface ResealJournal {
+  config: VaultConfig | null; // 完成后的日记库配置，null 表示停用加密
+}
+
+// 暂存数据的键：`${目标存储}:${记录ID}`
+const RESEAL_TARGETS: { [prefix: string]: LocalForage } = {
+  record: recordStore,
+  trash: trashStore,
+  revisions: revisionStore,
+};
+
+// 日记加密库相关操作：启用、停用、切换范围和更换口令时批量重新加密
+export const vaultDB = {
+  // 用给定密钥解密、再按目标配置加密全部记录（含回收站和修订）
+  // 先在内存中全部处理完，任何一条失败都不改动数据；之后经暂存区提交，最后才切换配置
+  async resealAll(config: VaultConfig | null, oldKey?: CryptoKey, newKey?: CryptoKey): Promise<void> {
+    const staged = new Map<string, unknown>();
+    const reseal = async (record: DailyRecord) => {
+      const plain = await unsealRecord(record, oldKey);
+      if (plain.encryptedPayload) {
+        throw new Error('记录解密失败，已停止重新加密');
+      }
+      const revisions = await revisionsDB.reseal(record.id, plain.isPrivate, config, oldKey, newKey);
+      if (revisions) staged.set(`revisions:${record.id}`, revisions);
+      return sealRecord(plain, newKey, config);
+    };
+
+    const records: DailyRecord[] = [];
+    await recordStore.iterate<DailyRecord, void>((record) => {
+      if (record) records.push(record);
+    });
+    for (const record of records) {
+      staged.set(`record:${record.id}`, await reseal(record));
+    }
+
+    const trashed: TrashedRecord[] = [];
+    await trashStore.iterate<TrashedRecord, void>((item) => {
+      if (item) trashed.push(item);
+    });
+    for (const item of trashed) {
+      staged.set(`trash:${item.record.id}`, { ...item, record: await reseal(item.record) });
+    }
+
+    await resealStore.clear();
+    for (const [key, value] of staged) {
+      await resealStore.setItem(key, value);
+    }
+    // 写入日志即为提交，此后中断也会在下次启动时继续完成
+    await resealStore.setItem<ResealJournal>(RESEAL_JOURNAL_KEY, { config });
+    await this.finishReseal();
+  },
+
+  // 把已提交的暂存数据写入正式存储并切换配置，未提交的暂存数据直接丢弃
+  // 启动时调用，用于完成上次中断的重新加密
+  async finishReseal(): Promise<void> {
+    const journal = await resealStore.getItem<ResealJournal>(RESEAL_JOURNAL_KEY);
+    if (!journal) {
+      await resealStore.clear();
+      return;
+    }
+
+    const entries: Array<[string, unknown]> = [];
+    await resealStore.iterate<unknown, void>((value, key) => {
+      if (key !== RESEAL_JOURNAL_KEY) entries.push([key, value]);
+    });
+    for (const [key, value] of entries) {
+      const separator = key.indexOf(':');
+      const target = RESEAL_TARGETS[key.slice(0, separator)];
+      if (target) await target.setItem(key.slice(separator + 1), value);
+    }
+
+    if (journal.config) {
+      await vault.saveConfig(journal.config);
+    } else {
+      await vault.destroy();
+    }
+    await resealStore.clear();
+    await searchIndexDB.rebuild();
+  },
+
+  async enable(passphrase: string, scope: VaultScope, idleTimeoutMinutes?: number): Promise<void> {
+    await vault.create(passphrase, scope, idleTimeoutMinutes);
+    await this.resealAll(await vault.getConfig());
+  },
+
+  // 停用加密：校验口令后解密全部数据，完成后才删除配置
+  async disable(passphrase: string): Promise<boolean> {
+    const key = await vault.deriveVerifiedKey(passphrase);
+    if (!key) return false;
+    await this.resealAll(null, key);
+    return true;
+  },
+
+  async setScope(scope: VaultScope): Promise<void> {
+    if (!vault.isUnlocked()) throw new Error('日记库已锁定，请先解锁');
+    const config = await vault.getConfig();
+    if (!config) return;
+    await this.resealAll({ ...config, scope });
+  },
+
+  async changePassphrase(oldPassphrase: string, newPassphrase: string): Promise<boolean> {
+    const prepared = await vault.prepareRekey(oldPassphrase, newPassphrase);
+    if (!prepared) return false;
+    await this.resealAll(prepared.config, prepared.oldKey, prepared.newKey);
+    vault.commitRekey(prepared.newKey);
+    return true;
   },
 };
 
@@ -191,6 +1052,11 @@ export const statsDB = {
     return updated;
   },
 
+  // 连续记录统计（按记录所属日期）
+  async getStreak(): Promise<StreakSummary> {
+    return computeStreak(await recordIndexDB.getDays());
+  },
+
   async calculateStats(): Promise<UserStats> {
     const records = await recordsDB.getAll();
     const emotionDistribution: { [key: string]: number } = {};
@@ -201,34 +1067,20 @@ export const statsDB = {
       });
     });
 
-    // 计算连续天数
-    let continuousDays = 0;
-    const sortedRecords = [...records].sort((a, b) => b.createdAt - a.createdAt);
-    
-    if (sortedRecords.length > 0) {
-      const currentDate = new Date();
-      currentDate.setHours(0, 0, 0, 0);
-      
-      for (const record of sortedRecords) {
-        const recordDate = new Date(record.date);
-        recordDate.setHours(0, 0, 0, 0);
-        
-        const daysDiff = Math.floor((currentDate.getTime() - recordDate.getTime()) / (1000 * 60 * 60 * 24));
-        
-        if (daysDiff === continuousDays) {
-          continuousDays++;
-        } else {
-          break;
-        }
-      }
-    }
+    const streak = await this.getStreak();
+
+    // 预写的未来记录不计入最近记录时间
+    const now = Date.now();
+    const pastRecords = records.filter(record => new Date(record.date).getTime() <= now);
 
     const stats: UserStats = {
       totalRecords: records.length,
-      continuousDays,
+      continuousDays: streak.current,
+      longestStreak: streak.longest,
+      streakFreezes: streak.freezesAvailable,
       startDate: records.length > 0 ? records[records.length - 1].date : new Date().toISOString(),
       emotionDistribution,
-      lastRecordDate: records.length > 0 ? records[0].date : undefined,
+      lastRecordDate: pastRecords.length > 0 ? pastRecords[0].date : undefined,
     };
 
     await this.update(stats);
@@ -241,12 +1093,7 @@ export const settingsDB = {
   async get(): Promise<UserSettings> {
     const settings = await settingsStore.getItem<UserSettings>('settings');
     if (!settings) {
-      const defaultSettings: UserSettings = {
-        nickname: '朋友',
-        defaultPrivate: false,
-        dailyReminder: false,
-        reminderTime: '20:00',
-      };
+      const defaultSettings: UserSettings = { ...DEFAULT_SETTINGS };
       await settingsStore.setItem('settings', defaultSettings);
       return defaultSettings;
     }
@@ -263,7 +1110,7 @@ export const settingsDB = {
 
 // 数据导出相关操作
 export const exportDB = {
-  // 获取导出数据
+  // 获取导出数据；日记库锁定时加密记录没有正文，调用方需先提示解锁
   async getExportData(options: ExportOptions = { format: 'json' }): Promise<ExportData> {
     // 获取记录
     let records = await recordsDB.getAll();
@@ -278,6 +1125,10 @@ export const exportDB = {
       });
     }
 
+    // 获取导出记录的修订历史
+    const recordIds = new Set(records.map(record => record.id));
+    const revisions = (await revisionsDB.getAll()).filter(revision => recordIds.has(revision.recordId));
+
     // 获取其他数据
     const tags = await tagsDB.getAll();
     const settings = await settingsDB.get();
@@ -292,11 +1143,13 @@ export const exportDB = {
     return {
       exportInfo: {
         version: '1.0.0',
+        schemaVersion: (await metaStore.getItem<number>(SCHEMA_VERSION_KEY)) ?? 0,
         exportDate: new Date().toISOString(),
         totalRecords: records.length,
         dateRange
       },
       records,
+      revisions,
       tags: options.includeSettings !== false ? tags : [],
       settings: options.includeSettings !== false ? settings : {
         nickname: '',
@@ -328,6 +1181,7 @@ export const exportDB = {
       '正向度',
       '能量值',
       'AI回应',
+      '后续对话',
       '是否收藏',
       '创建时间'
     ];
@@ -342,6 +1196,7 @@ export const exportDB = {
         record.emotionAnalysis?.positivity || '',
         record.emotionAnalysis?.energy || '',
         `"${this.escapeCsvField(record.aiResponse || '')}"`,
+        `"${this.escapeCsvField(this.formatThread(record.thread))}"`,
         record.isFavorite ? '是' : '否',
         new Date(record.createdAt).toLocaleString('zh-CN')
       ])
@@ -350,6 +1205,13 @@ export const exportDB = {
     return '\uFEFF' + csvRows.join('\n'); // 添加BOM以支持中文
   },
 
+  // 对话转为 "我：…/AI：…" 的逐行文本
+  formatThread(thread?: ConversationMessage[]): string {
+    return (thread || [])
+      .map(message => `${message.role === 'user' ? '我' : 'AI'}：${message.content}`)
+      .join('\n');
+  },
+
   // CSV字段转义
   escapeCsvField(field: string): string {
     return field.replace(/"/g, '""').replace(/\n/g, '\\n').replace(/\r/g, '\\r');
@@ -455,87 +1317,31 @@ export const weeklyStatsDB = {
     };
 
   
-    // 计算每日分布
+    // 计算每日分布（按本地日历日汇总当天所有记录）
     const dayDistribution = [];
     for (let i = 0; i < 7; i++) {
       const currentDate = new Date(start);
       currentDate.setDate(start.getDate() + i);
-      const dateStr = currentDate.toISOString().split('T')[0];
+      const dateStr = toLocalDayKey(currentDate);
       
       const dayRecords = thisWeekRecords.filter(record => 
-        record.date.split('T')[0] === dateStr
+        recordDayKey(record) === dateStr
       );
-      
-      // 找出当天的主要情绪
-      const dayEmotions: { [key: string]: number } = {};
-      dayRecords.forEach(record => {
-        record.tags.forEach(tag => {
-          dayEmotions[tag] = (dayEmotions[tag] || 0) + 1;
-        });
-      });
-      
-      const primaryEmotion = Object.entries(dayEmotions)
-        .sort(([, a], [, b]) => b - a)[0]?.[0];
-
-      // 计算当天的平均情绪分析数据
-      let dayCalmness: number | undefined;
-      let dayPositivity: number | undefined;
-      let dayEnergy: number | undefined;
-      
-      const recordsWithEmotionAnalysis = dayRecords.filter(r => r.emotionAnalysis);
-      if (recordsWithEmotionAnalysis.length > 0) {
-        dayCalmness = Math.round(
-          recordsWithEmotionAnalysis.reduce((sum, r) => sum + (r.emotionAnalysis!.calmness || 0), 0) / 
-          recordsWithEmotionAnalysis.length
-        );
-        dayPositivity = Math.round(
-          recordsWithEmotionAnalysis.reduce((sum, r) => sum + (r.emotionAnalysis!.positivity || 0), 0) / 
-          recordsWithEmotionAnalysis.length
-        );
-        dayEnergy = Math.round(
-          recordsWithEmotionAnalysis.reduce((sum, r) => sum + (r.emotionAnalysis!.energy || 0), 0) / 
-          recordsWithEmotionAnalysis.length
-        );
-      }
+      const aggregate = aggregateDay(dateStr, dayRecords);
 
       dayDistribution.push({
         date: dateStr,
-        count: dayRecords.length,
-        primaryEmotion,
-        calmness: dayCalmness,
-        positivity: dayPositivity,
-        energy: dayEnergy
+        count: aggregate.count,
+        primaryEmotion: aggregate.primaryEmotion,
+        calmness: aggregate.calmness,
+        positivity: aggregate.positivity,
+        energy: aggregate.energy,
+        swing: aggregate.swing
       });
     }
 
-    // 计算连续记录天数（使用全局记录，不局限于本周）
-    let continuousDays = 0;
-    const allRecords = await recordsDB.getAll();
-    
-    if (allRecords.length > 0) {
-      // 按日期分组，获取每天是否有记录
-      const dailyRecords: { [date: string]: boolean } = {};
-      
-      allRecords.forEach(record => {
-        const dateStr = record.date.split('T')[0];
-        dailyRecords[dateStr] = true;
-      });
-      
-      const currentDate = new Date();
-      currentDate.setHours(0, 0, 0, 0);
-      
-      // 从今天开始向前检查连续天数
-      while (true) {
-        const dateStr = currentDate.toISOString().split('T')[0];
-        
-        if (dailyRecords[dateStr]) {
-          continuousDays++;
-          currentDate.setDate(currentDate.getDate() - 1);
-        } else {
-          break;
-        }
-      }
-    }
+    // 连续记录天数（使用全局日期索引，不局限于本周）
+    const { current: continuousDays } = await statsDB.getStreak();
 
     return {
       weekRange: {
@@ -0,0 +1,73 @@
+import type { DailyRecord, StreakSummary } from '../types';
+import { addDays, daysBetween, recordDayKey, toLocalDayKey } from './dates';
+
+/**
+ * 连续记录统计
+ *
+ * 按本地日历日计算，同一天多条记录只算一天。规则：
+ * - 今天还没记录时，截至昨天的连续仍然有效
+ * - 每连续记录 FREEZE_EARN_INTERVAL 天获得一次保护（最多 MAX_FREEZES 次），
+ *   漏记一天时自动消耗一次保护，连续不中断但保护日不计入天数
+ * - 预写的未来记录不参与统计
+ */
+
+export const FREEZE_EARN_INTERVAL = 7;
+export const MAX_FREEZES = 2;
+
+/**
+ * 根据有记录的日期计算连续统计
+ */
+export function computeStreak(days: Iterable<string>, today: string = toLocalDayKey(new Date())): StreakSummary {
+  const recorded = new Set(Array.from(days).filter(day => day <= today));
+  const sorted = Array.from(recorded).sort();
+
+  const summary: StreakSummary = {
+    current: 0,
+    longest: 0,
+    todayRecorded: recorded.has(today),
+    freezesAvailable: 0,
+    frozenDays: [],
+    lastRecordedDay: sorted[sorted.length - 1],
+  };
+  if (sorted.length === 0) return summary;
+
+  let streak = 0;
+  let freezes = 0;
+  let sinceEarned = 0;
+  let frozenDays: string[] = [];
+  const totalDays = daysBetween(sorted[0], today);
+
+  for (let offset = 0, day = sorted[0]; offset <= totalDays; offset++, day = addDays(day, 1)) {
+    if (recorded.has(day)) {
+      streak++;
+      sinceEarned++;
+      if (sinceEarned === FREEZE_EARN_INTERVAL) {
+        freezes = Math.min(MAX_FREEZES, freezes + 1);
+        sinceEarned = 0;
+      }
+      summary.longest = Math.max(summary.longest, streak);
+    } else if (day === today) {
+      // 今天还可以补上
+    } else if (streak > 0 && freezes > 0) {
+      freezes--;
+      frozenDays.push(day);
+    } else {
+      streak = 0;
+      freezes = 0;
+      sinceEarned = 0;
+      frozenDays = [];
+    }
+  }
+
+  summary.current = streak;
+  summary.freezesAvailable = freezes;
+  summary.frozenDays = frozenDays;
+  return summary;
+}
+
+/**
+ * 根据记录列表计算连续统计
+ */
+export function computeStreakFromRecords(records: DailyRecord[]): StreakSummary {
+  return computeStreak(records.map(recordDayKey));
+}
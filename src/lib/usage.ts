@@ -0,0 +1,259 @@
+import localforage from 'localforage';
+import type { AIModelPricing, AIProvider, AIUsageCategory, AIUsageLimits, AIUsageRecord, ProxyQuota } from '../types';
+import { getProviderAdapter } from './aiProviders';
+import { addDays, toLocalDayKey } from './dates';
+
+/**
+ * AI用量统计：在本地记录每次调用的模型、tokens、耗时和结果，估算费用并检查软上限
+ * 记录只保存在本机，不随数据导出
+ */
+
+const usageStore = localforage.createInstance({
+  name: 'daily-reflection',
+  storeName: 'ai-usage',
+});
+
+const RECORDS_KEY = 'records';
+const LIMITS_KEY = 'limits';
+const PRICING_KEY = 'pricing';
+const QUOTA_KEY = 'quota';
+
+// 保留最近半年多的记录，够画月度图表
+const RETENTION_DAYS = 200;
+
+// 超出软上限时的错误文案，aiService 据此使用本地回应
+export const USAGE_LIMIT_ERROR = 'usage limit reached';
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  estimated?: boolean;
+}
+
+// 各服务商常用模型的参考单价（元/百万tokens），仅用于估算，可在用量面板中修改
+export const DEFAULT_PRICING: Record<AIProvider | 'proxy', AIModelPricing> = {
+  proxy: { input: 0, output: 0 },
+  deepseek: { input: 2, output: 8 },
+  kimi: { input: 12, output: 12 },
+  glm: { input: 0, output: 0 },
+  qwen: { input: 0.3, output: 0.6 },
+  wenxin: { input: 0, output: 0 },
+  spark: { input: 0, output: 0 },
+  local: { input: 0, output: 0 },
+  custom: { input: 0, output: 0 },
+};
+
+/**
+ * 读取OpenAI兼容格式的 usage 字段，没有时返回 undefined
+ */
+export function parseTokenUsage(data: any): TokenUsage | undefined {
+  const usage = data?.usage;
+  if (!usage || typeof usage !== 'object') return undefined;
+  const promptTokens = Number(usage.prompt_tokens);
+  const completionTokens = Number(usage.completion_tokens);
+  if (!Number.isFinite(promptTokens) || !Number.isFinite(completionTokens)) return undefined;
+  return { promptTokens, completionTokens };
+}
+
+// 中文约每字0.6个token，其他字符约每4个一个token
+function estimateTokens(text: string): number {
+  const cjk = (text.match(/[一-鿿]/g) || []).length;
+  return Math.ceil(cjk * 0.6 + (text.length - cjk) / 4);
+}
+
+/**
+ * 服务商未返回用量时按字数估算
+ */
+export function estimateTokenUsage(prompt: Array<{ content: string }>, completion: string): TokenUsage {
+  return {
+    promptTokens: prompt.reduce((sum, message) => sum + estimateTokens(message.content) + 4, 0),
+    completionTokens: estimateTokens(completion),
+    estimated: true,
+  };
+}
+
+/**
+ * 按错误文案归类调用结果
+ */
+export function classifyUsageError(error?: string, cancelled = false): AIUsageCategory {
+  if (cancelled) return 'cancelled';
+  if (!error) return 'success';
+  if (/rate limit|limit exceeded|\(429\)|次数/i.test(error)) return 'rate_limit';
+  if (/API key|\((401|403)\)/i.test(error)) return 'auth';
+  if (/Failed to fetch|NetworkError|Load failed|ECONNREFUSED|network/i.test(error)) return 'network';
+  if (/timeout|超时|aborted/i.test(error)) return 'timeout';
+  if (/unavailable|\(5\d\d\)/i.test(error)) return 'server';
+  if (/invalid request|\(4\d\d\)|格式/i.test(error)) return 'invalid';
+  return 'other';
+}
+
+export const USAGE_CATEGORY_LABELS: Record<AIUsageCategory, string> = {
+  success: '成功',
+  rate_limit: '限流',
+  auth: '密钥无效',
+  network: '网络错误',
+  timeout: '超时',
+  server: '服务异常',
+  invalid: '请求无效',
+  cancelled: '已取消',
+  other: '其他错误',
+};
+
+export function getModelPricing(
+  pricing: { [modelId: string]: AIModelPricing },
+  modelId: string,
+  provider?: AIProvider
+): AIModelPricing {
+  return pricing[modelId] || DEFAULT_PRICING[modelId === 'proxy' ? 'proxy' : provider || 'custom'];
+}
+
+export function estimateCost(record: Pick<AIUsageRecord, 'promptTokens' | 'completionTokens'>, price: AIModelPricing): number {
+  return (record.promptTokens * price.input + record.completionTokens * price.output) / 1_000_000;
+}
+
+function startOfMonth(date: Date): number {
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+}
+
+// 串行写入，避免并行调用时互相覆盖
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+export const usageDB = {
+  async getRecords(since = 0): Promise<AIUsageRecord[]> {
+    const records = (await usageStore.getItem<AIUsageRecord[]>(RECORDS_KEY)) || [];
+    return since > 0 ? records.filter(record => record.timestamp >= since) : records;
+  },
+
+  async record(entry: Omit<AIUsageRecord, 'id' | 'timestamp'>): Promise<void> {
+    const write = writeQueue.then(async () => {
+      const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+      const records = (await this.getRecords()).filter(record => record.timestamp >= cutoff);
+      records.push({
+        ...entry,
+        id: `usage_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        timestamp: Date.now(),
+      });
+      await usageStore.setItem(RECORDS_KEY, records);
+    });
+    writeQueue = write.catch(error => console.error('记录AI用量失败:', error));
+    return writeQueue as Promise<void>;
+  },
+
+  async clear(): Promise<void> {
+    await usageStore.removeItem(RECORDS_KEY);
+  },
+
+  async getLimits(): Promise<AIUsageLimits> {
+    return (await usageStore.getItem<AIUsageLimits>(LIMITS_KEY)) || {};
+  },
+
+  async saveLimits(limits: AIUsageLimits): Promise<void> {
+    await usageStore.setItem(LIMITS_KEY, limits);
+  },
+
+  async getPricing(): Promise<{ [modelId: string]: AIModelPricing }> {
+    return (await usageStore.getItem<{ [modelId: string]: AIModelPricing }>(PRICING_KEY)) || {};
+  },
+
+  async savePricing(modelId: string, price: AIModelPricing | null): Promise<void> {
+    const pricing = await this.getPricing();
+    if (price) {
+      pricing[modelId] = price;
+    } else {
+      delete pricing[modelId];
+    }
+    await usageStore.setItem(PRICING_KEY, pricing);
+  },
+
+  async getQuota(): Promise<ProxyQuota | null> {
+    return usageStore.getItem<ProxyQuota>(QUOTA_KEY);
+  },
+
+  async saveQuota(quota: Omit<ProxyQuota, 'updatedAt'>): Promise<void> {
+    await usageStore.setItem(QUOTA_KEY, { ...quota, updatedAt: Date.now() });
+  },
+
+  /**
+   * 检查软上限，超出时返回原因；providers 用于按服务商取默认单价
+   * 本地模型不产生费用，不计入调用次数、tokens 和费用
+   */
+  async checkLimits(providers: { [modelId: string]: AIProvider } = {}): Promise<string | null> {
+    const limits = await this.getLimits();
+    if (!limits.dailyCalls && !limits.monthlyTokens && !limits.monthlyCost) return null;
+
+    const now = new Date();
+    const monthRecords = (await this.getRecords(startOfMonth(now))).filter(record => {
+      const provider = providers[record.modelId];
+      return !provider || !getProviderAdapter(provider).isLocal;
+    });
+    const today = toLocalDayKey(now);
+
+    if (limits.dailyCalls) {
+      const todayCalls = monthRecords.filter(record => toLocalDayKey(record.timestamp) === today).length;
+      if (todayCalls >= limits.dailyCalls) return `今日调用已达 ${limits.dailyCalls} 次`;
+    }
+    if (limits.monthlyTokens) {
+      const tokens = monthRecords.reduce((sum, record) => sum + record.promptTokens + record.completionTokens, 0);
+      if (tokens >= limits.monthlyTokens) return `本月已用 ${tokens} tokens`;
+    }
+    if (limits.monthlyCost) {
+      const pricing = await this.getPricing();
+      const cost = monthRecords.reduce(
+        (sum, record) => sum + estimateCost(record, getModelPricing(pricing, record.modelId, providers[record.modelId])),
+        0
+      );
+      if (cost >= limits.monthlyCost) return `本月估算费用已达 ¥${cost.toFixed(2)}`;
+    }
+    return null;
+  },
+};
+
+export interface UsageBucket {
+  key: string; // 日：YYYY-MM-DD，月：YYYY-MM
+  label: string;
+  calls: number;
+  failures: number;
+  tokens: number;
+}
+
+/**
+ * 按日汇总最近若干天的调用
+ */
+export function groupUsageByDay(records: AIUsageRecord[], days: number): UsageBucket[] {
+  const today = toLocalDayKey(new Date());
+  const buckets = Array.from({ length: days }, (_, index) => {
+    const key = addDays(today, index - days + 1);
+    const [, month, day] = key.split('-').map(Number);
+    return { key, label: `${month}/${day}`, calls: 0, failures: 0, tokens: 0 };
+  });
+  const byKey = new Map(buckets.map(bucket => [bucket.key, bucket]));
+  records.forEach(record => {
+    const bucket = byKey.get(toLocalDayKey(record.timestamp));
+    if (!bucket) return;
+    bucket.calls++;
+    if (record.category !== 'success') bucket.failures++;
+    bucket.tokens += record.promptTokens + record.completionTokens;
+  });
+  return buckets;
+}
+
+/**
+ * 按月汇总最近若干个月的调用
+ */
+export function groupUsageByMonth(records: AIUsageRecord[], months: number): UsageBucket[] {
+  const now = new Date();
+  const buckets = Array.from({ length: months }, (_, index) => {
+    const date = new Date(now.getFullYear(), now.getMonth() - months + 1 + index, 1);
+    const key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    return { key, label: `${date.getMonth() + 1}月`, calls: 0, failures: 0, tokens: 0 };
+  });
+  const byKey = new Map(buckets.map(bucket => [bucket.key, bucket]));
+  records.forEach(record => {
+    const bucket = byKey.get(toLocalDayKey(record.timestamp).slice(0, 7));
+    if (!bucket) return;
+    bucket.calls++;
+    if (record.category !== 'success') bucket.failures++;
+    bucket.tokens += record.promptTokens + record.completionTokens;
+  });
+  return buckets;
+}
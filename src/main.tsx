@@ -1,15 +1,37 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import { ErrorBoundary } from './components/ErrorBoundary.tsx'
+import { migrationsDB } from './lib/migrations'
+import { vaultDB } from './lib/storage'
+import { AppLock } from './lib/security'
 import './index.css'
 import App from './App.tsx'
 
-
-
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <ErrorBoundary>
-      <App />
-    </ErrorBoundary>
-  </StrictMode>,
-)
+// 在任何视图读取数据之前完成上次中断的重新加密和本地数据结构迁移
+vaultDB.finishReseal()
+  .catch(error => {
+    console.error('完成重新加密失败:', error);
+  })
+  .then(() => migrationsDB.run())
+  .then(report => {
+    if (import.meta.env.DEV && report.steps.length > 0) {
+      console.log('数据迁移完成:', report);
+    }
+  })
+  .catch(error => {
+    console.error('数据迁移失败:', error);
+  })
+  // 读取应用锁配置，启用时首屏即为锁屏
+  .then(() => AppLock.getInstance().init())
+  .catch(error => {
+    console.error('读取应用锁配置失败:', error);
+  })
+  .finally(() => {
+    createRoot(document.getElementById('root')!).render(
+      <StrictMode>
+        <ErrorBoundary>
+          <App />
+        </ErrorBoundary>
+      </StrictMode>,
+    )
+  })
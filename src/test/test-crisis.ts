@@ -0,0 +1,80 @@
+// 危机语言识别测试语料
+import { assessRisk } from '../lib/crisisDetection';
+import type { RiskLevel } from '../types';
+
+interface CrisisCase {
+  text: string;
+  expected: RiskLevel;
+  note: string;
+}
+
+// 阳性语料：应识别为高风险或需要留意
+export const CRISIS_POSITIVE_CORPUS: CrisisCase[] = [
+  { text: '我真的不想活了', expected: 'high', note: '直接表达' },
+  { text: '有时候会想自杀', expected: 'high', note: '自杀' },
+  { text: '好想死，什么都没意思', expected: 'high', note: '想死' },
+  { text: '已经活不下去了', expected: 'high', note: '活不下去' },
+  { text: '想结束自己的生命', expected: 'high', note: '结束生命' },
+  { text: '今晚想从楼上跳楼', expected: 'high', note: '具体方式' },
+  { text: '偷偷攒了一堆安眠药', expected: 'high', note: '准备工具' },
+  { text: '写好了遗书', expected: 'high', note: '遗书' },
+  { text: '希望睡着了就不想再醒来', expected: 'high', note: '隐晦表达' },
+  { text: '我 不 想 活 了', expected: 'high', note: '中间有空格' },
+  { text: '累死了，真想死', expected: 'high', note: '夸张说法之后仍有真实表达' },
+  { text: '好绝望，撑不下去了，没人在乎我', expected: 'high', note: '多个绝望信号叠加' },
+  { text: '感觉很绝望', expected: 'elevated', note: '单个绝望信号' },
+  { text: '工作压力太大，快撑不下去了', expected: 'elevated', note: '撑不下去' },
+  { text: '活着好累', expected: 'elevated', note: '活着好累' },
+  { text: '我觉得自己就是家里的累赘', expected: 'elevated', note: '自我否定' },
+  { text: '又忍不住伤害自己了', expected: 'elevated', note: '自伤' },
+  { text: '我不会自杀的，只是很难受', expected: 'elevated', note: '否认仍需留意' },
+  { text: '从没想过轻生', expected: 'elevated', note: '否认仍需留意' },
+];
+
+// 阴性语料：日常夸张或无关表达，不应触发
+export const CRISIS_NEGATIVE_CORPUS: CrisisCase[] = [
+  { text: '今天笑死我了', expected: 'none', note: '笑死' },
+  { text: '加班累死了', expected: 'none', note: '累死' },
+  { text: '热得要死，空调坏了', expected: 'none', note: '得要死' },
+  { text: '好久没见，想死你了', expected: 'none', note: '想死你了' },
+  { text: '在全班面前读错字，社死现场', expected: 'none', note: '社死' },
+  { text: '商场在搞跳楼价大甩卖', expected: 'none', note: '跳楼价' },
+  { text: '今天不想活动，就在家躺着', expected: 'none', note: '不想活动' },
+  { text: '这种自杀式的排期谁受得了', expected: 'none', note: '自杀式' },
+  { text: '今天天气很好，心情不错', expected: 'none', note: '积极' },
+  { text: '有点难过，但明天会好的', expected: 'none', note: '普通低落' },
+  { text: '饿死了，去吃火锅', expected: 'none', note: '饿死' },
+  { text: '', expected: 'none', note: '空内容' },
+];
+
+export interface CrisisCaseResult {
+  text: string;
+  note: string;
+  expected: RiskLevel;
+  actual: RiskLevel;
+  matches: string[];
+  passed: boolean;
+}
+
+// 运行全部语料，返回每条的结果
+export const runCrisisCorpus = () => {
+  const results: CrisisCaseResult[] = [...CRISIS_POSITIVE_CORPUS, ...CRISIS_NEGATIVE_CORPUS].map(testCase => {
+    const { level, matches } = assessRisk(testCase.text);
+    return {
+      text: testCase.text,
+      note: testCase.note,
+      expected: testCase.expected,
+      actual: level,
+      matches,
+      passed: level === testCase.expected,
+    };
+  });
+
+  const failed = results.filter(result => !result.passed);
+  failed.forEach(result => console.warn(
+    `✗ ${result.text}（${result.note}）: 期望 ${result.expected}，实际 ${result.actual} [${result.matches.join('、')}]`
+  ));
+  console.log(`危机语言识别语料：${results.length - failed.length}/${results.length} 通过`);
+
+  return { success: failed.length === 0, passed: results.length - failed.length, total: results.length, results };
+};
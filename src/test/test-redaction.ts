@@ -0,0 +1,62 @@
+// 个人信息脱敏测试语料
+import { DEFAULT_REDACTION_SETTINGS, createRedactor } from '../lib/redaction';
+import type { RedactionSettings } from '../types';
+
+interface RedactionCase {
+  text: string;
+  expected: string;
+  note: string;
+}
+
+const SETTINGS: RedactionSettings = { ...DEFAULT_REDACTION_SETTINGS, names: ['王小明', '小明', '李华'] };
+
+export const REDACTION_CORPUS: RedactionCase[] = [
+  { text: '有事打我电话13812345678', expected: '有事打我电话[电话1]', note: '手机号' },
+  { text: '号码是 +86 138-1234-5678', expected: '号码是 [电话1]', note: '带区号和分隔符' },
+  { text: '公司座机010-82951332', expected: '公司座机[电话1]', note: '座机' },
+  { text: '身份证110101199003071234丢了', expected: '身份证[身份证1]丢了', note: '18位身份证' },
+  { text: '末位是X：11010119900307123X', expected: '末位是X：[身份证1]', note: '末位X' },
+  { text: '发到test.user@example.com吧', expected: '发到[邮箱1]吧', note: '邮箱' },
+  { text: '我住在朝阳区建国路88号3栋2单元', expected: '我住在[地址1]', note: '路和门牌号' },
+  { text: '搬到阳光花园12号楼501室了', expected: '搬到[地址1]了', note: '小区楼栋' },
+  { text: '王小明今天又来找小明的麻烦', expected: '[姓名1]今天又来找[姓名2]的麻烦', note: '长名字优先' },
+  { text: '李华说李华不会来', expected: '[姓名1]说[姓名1]不会来', note: '同一姓名同一占位符' },
+  { text: '今天走了12000步，花了35元', expected: '今天走了12000步，花了35元', note: '普通数字' },
+  { text: '2024年10月19日去公园散步', expected: '2024年10月19日去公园散步', note: '日期' },
+  { text: '我在路上走了好久', expected: '我在路上走了好久', note: '没有门牌号' },
+  { text: '', expected: '', note: '空内容' },
+];
+
+export interface RedactionCaseResult {
+  text: string;
+  note: string;
+  expected: string;
+  actual: string;
+  restored: string;
+  passed: boolean;
+}
+
+// 运行全部语料，同时检查占位符能否还原为原文
+export const runRedactionCorpus = () => {
+  const results: RedactionCaseResult[] = REDACTION_CORPUS.map(testCase => {
+    const redactor = createRedactor(SETTINGS);
+    const actual = redactor.redact(testCase.text);
+    const restored = redactor.restore(actual);
+    return {
+      text: testCase.text,
+      note: testCase.note,
+      expected: testCase.expected,
+      actual,
+      restored,
+      passed: actual === testCase.expected && restored === testCase.text,
+    };
+  });
+
+  const failed = results.filter(result => !result.passed);
+  failed.forEach(result => console.warn(
+    `✗ ${result.text}（${result.note}）: 期望 ${result.expected}，实际 ${result.actual}，还原 ${result.restored}`
+  ));
+  console.log(`个人信息脱敏语料：${results.length - failed.length}/${results.length} 通过`);
+
+  return { success: failed.length === 0, passed: results.length - failed.length, total: results.length, results };
+};
@@ -0,0 +1,76 @@
+// 全文检索测试语料
+import { buildSearchDoc, findCandidates, matchesClause, parseQuery } from '../lib/search';
+
+interface SearchCase {
+  query: string;
+  expected: string[];
+  note: string;
+}
+
+const DOCS: { [id: string]: string } = {
+  tired: '今天好累啊，加班到十点',
+  happy: 'Feeling happy after the walk',
+  unhappy: 'A bit unhappy with work today',
+  park: '周末和朋友去公园散步',
+  single: '累',
+};
+
+export const SEARCH_CORPUS: SearchCase[] = [
+  { query: '好累', expected: ['tired'], note: '二元组' },
+  { query: '累', expected: ['tired', 'single'], note: '单字' },
+  { query: '园', expected: ['park'], note: '单字在词尾' },
+  { query: 'happy', expected: ['happy', 'unhappy'], note: '完整单词' },
+  { query: 'happ', expected: ['happy', 'unhappy'], note: '部分单词' },
+  { query: 'walk', expected: ['happy'], note: '英文单词' },
+  { query: '累 加班', expected: ['tired'], note: '单字和二元组同时满足' },
+  { query: '公园 OR 累', expected: ['tired', 'park', 'single'], note: 'OR 子句' },
+  { query: '"今天好累"', expected: ['tired'], note: '短语' },
+  { query: '下雨', expected: [], note: '没有命中' },
+];
+
+export interface SearchCaseResult {
+  query: string;
+  note: string;
+  expected: string[];
+  actual: string[];
+  passed: boolean;
+}
+
+// 与 searchIndexDB.search 相同：倒排表找候选，再按原文精确校验
+function search(query: string): string[] {
+  const postings: { [term: string]: Set<string> } = {};
+  Object.keys(DOCS).forEach(id => {
+    Object.keys(buildSearchDoc(DOCS[id]).terms).forEach(term => {
+      (postings[term] || (postings[term] = new Set())).add(id);
+    });
+  });
+
+  const parsed = parseQuery(query);
+  const candidates = findCandidates(parsed.clauses, postings, Object.keys(DOCS));
+  return Object.keys(DOCS).filter(id =>
+    candidates.has(id) && parsed.clauses.some(clause => matchesClause(DOCS[id], clause))
+  );
+}
+
+// 运行全部语料
+export const runSearchCorpus = () => {
+  const results: SearchCaseResult[] = SEARCH_CORPUS.map(testCase => {
+    const actual = search(testCase.query);
+    const expected = Object.keys(DOCS).filter(id => testCase.expected.includes(id));
+    return {
+      query: testCase.query,
+      note: testCase.note,
+      expected,
+      actual,
+      passed: actual.join(',') === expected.join(','),
+    };
+  });
+
+  const failed = results.filter(result => !result.passed);
+  failed.forEach(result => console.warn(
+    `✗ ${result.query}（${result.note}）: 期望 [${result.expected.join(', ')}]，实际 [${result.actual.join(', ')}]`
+  ));
+  console.log(`全文检索语料：${results.length - failed.length}/${results.length} 通过`);
+
+  return { success: failed.length === 0, passed: results.length - failed.length, total: results.length, results };
+};
@@ -0,0 +1,70 @@
+// 离线情绪分析测试语料
+import { analyzeSentiment } from '../lib/sentimentEngine';
+
+type Range = [number, number];
+
+interface SentimentCase {
+  text: string;
+  note: string;
+  positivity?: Range;
+  energy?: Range;
+  calmness?: Range;
+}
+
+// 期望值为区间，50 为中性
+export const SENTIMENT_CORPUS: SentimentCase[] = [
+  { text: '今天很开心', note: '程度副词 + 积极', positivity: [70, 100], energy: [55, 100] },
+  { text: '今天开心', note: '单个积极词', positivity: [60, 85] },
+  { text: '今天非常非常开心！', note: '叠加程度 + 感叹', positivity: [85, 100] },
+  { text: '有点开心', note: '弱化程度', positivity: [55, 70] },
+  { text: '今天不开心', note: '否定积极词', positivity: [20, 45] },
+  { text: '很不开心', note: '程度在否定前，强烈消极', positivity: [0, 35] },
+  { text: '不太开心', note: '否定在程度前，轻微消极', positivity: [35, 49] },
+  { text: '也不是不开心', note: '双重否定', positivity: [51, 75] },
+  { text: '没有那么难过了', note: '否定消极词，隔字修饰', positivity: [51, 70] },
+  { text: '一点也不难过', note: '多字否定词', positivity: [51, 70] },
+  { text: '好累啊', note: '"好" 作程度副词', positivity: [25, 49], energy: [0, 35] },
+  { text: '心情好', note: '"好" 作积极词', positivity: [55, 75] },
+  { text: '好像有点累', note: '"好像" 不计入情绪', positivity: [40, 49], energy: [35, 49] },
+  { text: '不错的一天', note: '"不错" 整体匹配，不作否定', positivity: [55, 75] },
+  { text: '心里很平静，很放松', note: '平静', calmness: [80, 100], energy: [10, 45] },
+  { text: '焦虑得睡不着，好紧张', note: '焦虑', calmness: [0, 20], positivity: [0, 35] },
+  { text: '兴奋得停不下来！', note: '高能量', energy: [70, 100] },
+  { text: '疲惫又无力', note: '低能量', energy: [0, 25] },
+  { text: '虽然很累，但是很充实', note: '转折后的分句为主', positivity: [55, 85] },
+  { text: '本来挺开心的，可是后来很失望', note: '转折后转为消极', positivity: [15, 45] },
+  { text: '今天去超市买了菜', note: '无情绪词', positivity: [50, 50], energy: [50, 50], calmness: [50, 50] },
+  { text: '不好意思打扰了同事', note: '"不好意思" 不计入情绪', positivity: [50, 50] },
+];
+
+export interface SentimentCaseResult {
+  text: string;
+  note: string;
+  passed: boolean;
+  actual: { positivity: number; energy: number; calmness: number };
+  failures: string[];
+}
+
+// 运行全部语料，返回每条的结果
+export const runSentimentCorpus = () => {
+  const results: SentimentCaseResult[] = SENTIMENT_CORPUS.map(testCase => {
+    const { positivity, energy, calmness } = analyzeSentiment(testCase.text);
+    const actual = { positivity, energy, calmness };
+    const failures: string[] = [];
+
+    (['positivity', 'energy', 'calmness'] as const).forEach(key => {
+      const range = testCase[key];
+      if (range && (actual[key] < range[0] || actual[key] > range[1])) {
+        failures.push(`${key}=${actual[key]}，期望 ${range[0]}-${range[1]}`);
+      }
+    });
+
+    return { text: testCase.text, note: testCase.note, passed: failures.length === 0, actual, failures };
+  });
+
+  const failed = results.filter(result => !result.passed);
+  failed.forEach(result => console.warn(`✗ ${result.text}（${result.note}）: ${result.failures.join('；')}`));
+  console.log(`情绪分析语料：${results.length - failed.length}/${results.length} 通过`);
+
+  return { success: failed.length === 0, passed: results.length - failed.length, total: results.length, results };
+};
@@ -5,10 +5,43 @@ export interface DailyRecord {
   content: string;
   tags: string[];
   aiResponse?: string;
+  aiModel?: string; // 实际给出回应的模型名称，预设回应时为空
+  thread?: ConversationMessage[]; // 针对这条记录的后续对话
+  personaId?: string; // 单条记录指定的回应风格，为空时使用默认风格
+  aiPending?: boolean; // 离线时写下，等待联网后生成AI回应
   isPrivate: boolean;
   isFavorite: boolean;
   emotionAnalysis?: EmotionAnalysis;
   createdAt: number;
+  encryptedPayload?: string; // 加密后的正文、AI回应和对话（日记库锁定时 content 为空）
+  timezoneOffset?: number; // 写下记录时的时区偏移（分钟，同 Date.getTimezoneOffset），用于确定所属日期
+}
+
+// 记录下的对话消息
+export interface ConversationMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: number;
+  modelName?: string; // 回复消息的模型名称
+}
+
+// 离线队列中等待生成AI回应的记录的重试状态
+export interface PendingAIReply {
+  recordId: string;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+// 记录修订（保存每次编辑前被修改字段的旧值）
+export interface RecordRevision {
+  id: string;
+  recordId: string;
+  timestamp: number;
+  changedFields: Array<keyof DailyRecord>;
+  previous: Partial<DailyRecord>;
+  encryptedPrevious?: string; // 受加密保护的记录，旧值加密保存于此
 }
 
 // 情绪分析结果
@@ -16,6 +49,23 @@ export interface EmotionAnalysis {
   calmness: number;  // 平静度 0-100
   positivity: number; // 正向度 0-100
   energy: number;    // 能量值 0-100
+  confidence?: number; // AI分析的置信度 0-1
+  emotions?: string[]; // AI识别出的具体情绪
+  source?: 'ai' | 'local'; // 分析来源：AI结构化分析或本地评分
+}
+
+// 单日聚合：同一天多条记录汇总后的情绪状态
+export interface DailyAggregate {
+  date: string; // 本地日历日 YYYY-MM-DD
+  count: number;
+  recordIds: string[]; // 按时间先后排列
+  tagCounts: { [tagId: string]: number };
+  primaryEmotion?: string;
+  calmness?: number;
+  positivity?: number;
+  energy?: number;
+  // 当天各项情绪的波动幅度（最大值 - 最小值），至少两条带情绪分析的记录时才有
+  swing?: EmotionAnalysis;
 }
 
 // 标签对象类型
@@ -31,11 +81,23 @@ export interface Tag {
 export interface UserStats {
   totalRecords: number;
   continuousDays: number;
+  longestStreak?: number;
+  streakFreezes?: number; // 可用的连续记录保护次数
   startDate: string;
   emotionDistribution: { [key: string]: number };
   lastRecordDate?: string;
 }
 
+// 连续记录统计
+export interface StreakSummary {
+  current: number; // 当前连续天数（不含保护日）
+  longest: number;
+  todayRecorded: boolean; // 今天未记录时，截至昨天的连续仍然有效
+  freezesAvailable: number;
+  frozenDays: string[]; // 当前连续中由保护抵消的漏记日期
+  lastRecordedDay?: string;
+}
+
 // 用户设置
 export interface UserSettings {
   nickname: string;
@@ -48,6 +110,9 @@ export interface UserSettings {
 export interface AIResponseRequest {
   content: string;
   tags: string[];
+  isPrivate?: boolean; // 私密记录的情绪分析只在本地进行
+  personaId?: string; // 覆盖默认回应风格
+  date?: string; // 记录所属时间，用于提示词中的时段变量
 }
 
 // AI回应结果
@@ -55,10 +120,25 @@ export interface AIResponseResult {
   response: string;
   emotionAnalysis?: EmotionAnalysis;
   error?: string;
+  partial?: boolean; // 流式回应被取消或中断，只包含已收到的部分
+  modelId?: string; // 实际回应的模型，'proxy' 表示内置代理服务
+  modelName?: string;
+  riskLevel?: RiskLevel; // 本地危机语言识别结果，high 时使用安全回应
+}
+
+// 危机语言风险等级
+export type RiskLevel = 'none' | 'elevated' | 'high';
+
+// 求助热线
+export interface SafetyHotline {
+  id: string;
+  name: string;
+  number: string;
+  description?: string;
 }
 
 // AI模型提供商
-export type AIProvider = 'deepseek' | 'kimi' | 'glm' | 'qwen' | 'wenxin' | 'spark' | 'custom';
+export type AIProvider = 'deepseek' | 'kimi' | 'glm' | 'qwen' | 'wenxin' | 'spark' | 'local' | 'custom';
 
 // 模型状态
 export type ModelStatus = 'available' | 'maintenance' | 'disabled' | 'unknown';
@@ -75,6 +155,8 @@ export interface AIModelConfig {
   description?: string;
   status?: ModelStatus;
   lastChecked?: number;
+  latency?: number; // 最近一次检测的响应耗时（毫秒）
+  lastError?: string; // 最近一次检测失败的原因
   isFreeTier?: boolean; // 标记是否为免费额度模型
   isBuiltin?: boolean; // 标记是否为内置模型
   isEncrypted?: boolean; // 标记是否为加密模型
@@ -83,8 +165,48 @@ export interface AIModelConfig {
 // AI服务设置
 export interface AIServiceSettings {
   selectedModelId?: string;
-  models: AIModelConfig[];
+  models: AIModelConfig[]; // 顺序即备用模型的切换顺序
   isConfigured: boolean;
+  failoverEnabled?: boolean; // 所选模型失败时依次尝试其他模型，默认开启
+  selectedPersonaId?: string; // 默认回应风格，为空时使用温柔陪伴
+  personas?: AIPersona[]; // 用户自定义的回应风格
+  safetyHotlines?: SafetyHotline[]; // 高风险时展示的求助热线，为空时使用默认热线
+  redaction?: RedactionSettings; // 发送前隐去个人信息，为空时使用默认设置
+}
+
+// 发送前可隐去的个人信息类型
+export type RedactionKind = 'name' | 'phone' | 'idCard' | 'email' | 'address';
+
+// 个人信息脱敏设置
+export interface RedactionSettings {
+  enabled: boolean;
+  kinds: RedactionKind[]; // 启用识别的类型，name 使用 names 列表
+  names: string[]; // 用户维护的姓名列表
+}
+
+// AI记忆条目：auto 为根据记录自动汇总，user 为用户添加或修改过的
+export interface MemoryEntry {
+  key: string;
+  text: string;
+  source: 'auto' | 'user';
+}
+
+// AI记忆：附加到提示词中的用户近况
+export interface AIMemory {
+  entries: MemoryEntry[];
+  enabled: boolean;
+  dismissedKeys: string[]; // 用户删除的自动条目，不再生成
+  clearedAt?: number; // 清空记忆的时间，之前的记录不再参与汇总
+  updatedAt: number;
+}
+
+// AI回应风格：系统提示词模板，支持 {{nickname}} 等变量
+export interface AIPersona {
+  id: string;
+  name: string;
+  description: string;
+  template: string;
+  isBuiltin?: boolean;
 }
 
 // 周统计相关类型
@@ -111,8 +233,67 @@ export interface WeeklyStats {
     calmness?: number;
     positivity?: number;
     energy?: number;
+    swing?: EmotionAnalysis;
   }>;
 }
 
+// AI调用结果分类
+export type AIUsageCategory = 'success' | 'rate_limit' | 'auth' | 'network' | 'timeout' | 'server' | 'invalid' | 'cancelled' | 'other';
+
+// 单次AI调用的用量记录（每次HTTP请求一条，包括重试）
+export interface AIUsageRecord {
+  id: string;
+  timestamp: number;
+  modelId: string; // 'proxy' 表示内置代理服务
+  modelName: string;
+  promptTokens: number;
+  completionTokens: number;
+  estimated?: boolean; // 服务商未返回用量，按字数估算
+  latency: number; // 毫秒
+  category: AIUsageCategory;
+  error?: string;
+}
+
+// 用量软上限，任一项超出后只使用本地回应；为空表示不限制
+export interface AIUsageLimits {
+  dailyCalls?: number;
+  monthlyTokens?: number;
+  monthlyCost?: number; // 元
+}
+
+// 模型单价（元/百万tokens）
+export interface AIModelPricing {
+  input: number;
+  output: number;
+}
+
+// 内置代理服务最近一次返回的剩余额度
+export interface ProxyQuota {
+  globalRemaining?: number; // 今日全站剩余次数
+  ipRemaining?: number; // 本小时当前网络剩余次数
+  updatedAt: number;
+}
+
+// 回顾报告周期
+export type ReportPeriodType = 'week' | 'month';
+
+// AI回顾报告：由周期内的统计和记录摘录生成
+export interface NarrativeReport {
+  id: string;
+  periodType: ReportPeriodType;
+  periodKey: string; // 周报为周一的日期 YYYY-MM-DD，月报为 YYYY-MM
+  periodStart: string;
+  periodEnd: string;
+  summary: string;
+  themes: string[];
+  highs: string[];
+  lows: string[];
+  suggestions: string[];
+  recordCount: number;
+  source: 'ai' | 'local'; // AI不可用时根据统计在本地生成
+  modelName?: string;
+  createdAt: number;
+}
+
 // 视图类型
-export type View = 'home' | 'history' | 'insights' | 'settings' | 'ai-config';
+export type View = 'home' | 'history' | 'insights' | 'settings' | 'ai-config' | 'trash';
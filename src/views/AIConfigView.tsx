@@ -1,8 +1,18 @@
 import React, { useState, useEffect } from 'react';
 import { Settings, ChevronRight, Check, RefreshCw } from 'lucide-react';
 import { aiService } from '../lib/aiService';
+import { getProviderAdapter } from '../lib/aiProviders';
 import { Button } from '../components/Button';
 import { Toast } from '../components/Toast';
+import { AIModelSettingsPanel } from '../components/AIModelSettingsPanel';
+import { ModelStatusPanel } from '../components/ModelStatusPanel';
+import { LocalModelPanel } from '../components/LocalModelPanel';
+import { PersonaSettingsPanel } from '../components/PersonaSettingsPanel';
+import { MemoryPanel } from '../components/MemoryPanel';
+import { SafetyHotlinesPanel } from '../components/SafetyHotlinesPanel';
+import { RedactionSettingsPanel } from '../components/RedactionSettingsPanel';
+import { UsageDashboardPanel } from '../components/UsageDashboardPanel';
+import type { AIServiceSettings } from '../types';
 
 interface AIConfigViewProps {
   onBack: () => void;
@@ -11,6 +21,9 @@ interface AIConfigViewProps {
 export const AIConfigView: React.FC<AIConfigViewProps> = ({ onBack }) => {
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null);
   const [checkingStatus, setCheckingStatus] = useState(false);
+  const [settings, setSettings] = useState<AIServiceSettings | null>(null);
+
+  const selectedModel = settings?.models.find(m => m.id === settings.selectedModelId);
 
   useEffect(() => {
     // 组件加载时检查服务状态
@@ -53,13 +66,55 @@ export const AIConfigView: React.FC<AIConfigViewProps> = ({ onBack }) => {
           </h1>
         </div>
 
+        {/* 模型选择 */}
+        <AIModelSettingsPanel
+          onMessage={(message, type) => setToast({ message, type })}
+          onChange={setSettings}
+        />
+
+        {/* 本地模型 */}
+        <LocalModelPanel
+          models={settings?.models || []}
+          selectedModelId={settings?.selectedModelId}
+          onMessage={(message, type) => setToast({ message, type })}
+        />
+
+        {/* 模型状态 */}
+        <ModelStatusPanel
+          models={settings?.models || []}
+          selectedModelId={settings?.selectedModelId}
+          onMessage={(message, type) => setToast({ message, type })}
+        />
+
+        {/* 回应风格 */}
+        <PersonaSettingsPanel onMessage={(message, type) => setToast({ message, type })} />
+
+        {/* AI记忆 */}
+        <MemoryPanel onMessage={(message, type) => setToast({ message, type })} />
+
+        {/* 求助热线 */}
+        <SafetyHotlinesPanel onMessage={(message, type) => setToast({ message, type })} />
+
+        {/* 隐私保护 */}
+        <RedactionSettingsPanel onMessage={(message, type) => setToast({ message, type })} />
+
+        {/* AI用量 */}
+        <UsageDashboardPanel
+          models={settings?.models || []}
+          onMessage={(message, type) => setToast({ message, type })}
+        />
+
         {/* 当前状态说明 */}
         <div className="mb-32 p-24 rounded-xl bg-secondary-100/50 border border-secondary-300/30">
           <h3 className="text-h3 font-semibold text-neutral-dark mb-16">
-            🎯 当前使用代理服务
+            🎯 {selectedModel ? `当前使用 ${selectedModel.name}` : '当前使用代理服务'}
           </h3>
           <p className="text-body-small text-neutral-dark leading-relaxed mb-16">
-            现在使用后端代理服务，无需手动配置AI模型和API密钥。系统会自动使用智谱GLM-4-Flash模型提供温柔回应。
+            {selectedModel && getProviderAdapter(selectedModel.provider).isLocal
+              ? `回应、情绪分析和回顾报告都由本机运行的 ${selectedModel.model} 生成，记录内容不会离开这台设备。本地服务不可用时使用预设的温柔回应。`
+              : selectedModel
+              ? `记录内容将直接发送到 ${selectedModel.model}，调用失败时使用预设的温柔回应。`
+              : '现在使用后端代理服务，无需手动配置AI模型和API密钥。系统会自动使用智谱GLM-4-Flash模型提供温柔回应。'}
           </p>
           
           <div className="mt-16 p-16 bg-primary-50 border border-primary-200 rounded-lg">
@@ -142,7 +197,7 @@ export const AIConfigView: React.FC<AIConfigViewProps> = ({ onBack }) => {
         <div className="mt-32 p-16 bg-neutral-mist/30 rounded-lg">
           <h4 className="font-medium text-neutral-earth mb-8">技术信息</h4>
           <div className="space-y-4 text-body-small text-neutral-earth">
-            <p><strong>AI模型:</strong> 智谱GLM-4-Flash</p>
+            <p><strong>AI模型:</strong> {selectedModel ? selectedModel.model : '智谱GLM-4-Flash'}</p>
             <p><strong>部署方式:</strong> Netlify Functions</p>
             <p><strong>数据存储:</strong> 本地IndexedDB</p>
             <p><strong>限流策略:</strong> 100次/天，10次/小时/IP</p>
@@ -1,19 +1,56 @@
-import React, { useState, useEffect } from 'react';
-import { Search, Filter } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Search, Filter, Clock } from 'lucide-react';
 import { RecordCard } from '../components/RecordCard';
 import { EmotionTag } from '../components/EmotionTag';
-import { recordsDB, tagsDB, DEFAULT_TAGS } from '../lib/storage';
+import { Toast } from '../components/Toast';
+import { DayTimelineModal } from '../components/DayTimelineModal';
+import { recordsDB, tagsDB, trashDB, revisionsDB, statsDB, searchIndexDB, DEFAULT_TAGS } from '../lib/storage';
+import { recordDayKey, parseDayKey } from '../lib/dates';
+import type { SnippetSegment } from '../lib/search';
 import type { DailyRecord, Tag } from '../types';
 
 type TimeFilter = 'today' | 'week' | 'month' | 'all';
 
+// 根据时间筛选获取查询范围，'all' 不限制范围
+function getTimeRange(timeFilter: TimeFilter): { start: Date; end: Date } | null {
+  const now = new Date();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  
+  switch (timeFilter) {
+    case 'today': {
+      const end = new Date(today);
+      end.setHours(23, 59, 59, 999);
+      return { start: today, end };
+    }
+    case 'week': {
+      const weekAgo = new Date(now);
+      weekAgo.setDate(now.getDate() - 7);
+      return { start: weekAgo, end: now };
+    }
+    case 'month': {
+      // 当前月份的第一天到最后一天
+      const currentMonthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+      const nextMonthStart = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+      return { start: currentMonthStart, end: new Date(nextMonthStart.getTime() - 1) };
+    }
+    default:
+      return null;
+  }
+}
+
 export const HistoryView: React.FC = () => {
-  const [records, setRecords] = useState<DailyRecord[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
   const [filteredRecords, setFilteredRecords] = useState<DailyRecord[]>([]);
   const [tags, setTags] = useState<Tag[]>(DEFAULT_TAGS);
   const [timeFilter, setTimeFilter] = useState<TimeFilter>('all');
   const [selectedTag, setSelectedTag] = useState<string | null>(null);
   const [searchKeyword, setSearchKeyword] = useState('');
+  const [dataVersion, setDataVersion] = useState(0);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'info'; action?: { label: string; onClick: () => void } } | null>(null);
+  const [timelineDay, setTimelineDay] = useState<string | null>(null);
+  const [snippets, setSnippets] = useState<{ [id: string]: SnippetSegment[] }>({});
+  // 仅采用最新一次查询的结果，丢弃过期的异步结果
+  const latestQueryRef = useRef(0);
   
   useEffect(() => {
     loadData();
@@ -24,84 +61,69 @@ export const HistoryView: React.FC = () => {
     };
     
     window.addEventListener('data-imported', handleDataImported);
+    // 日记库锁定或解锁后重新读取，以显示或隐藏加密内容
+    window.addEventListener('vault-locked', handleDataImported);
+    window.addEventListener('vault-unlocked', handleDataImported);
     
     return () => {
       window.removeEventListener('data-imported', handleDataImported);
+      window.removeEventListener('vault-locked', handleDataImported);
+      window.removeEventListener('vault-unlocked', handleDataImported);
     };
-  // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
   
-  useEffect(() => {
-    filterRecords();
-  }, [records, timeFilter, selectedTag, searchKeyword]);
-  
   const loadData = async () => {
-    const allRecords = await recordsDB.getAll();
-    setRecords(allRecords);
+    setTotalCount(await recordsDB.count());
     
     const allTags = await tagsDB.getAll();
     setTags(allTags);
+    
+    setDataVersion(v => v + 1);
   };
   
-  const filterRecords = () => {
-    let filtered = [...records];
-    
-    // 时间筛选
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const filterRecords = useCallback(async () => {
+    const queryId = ++latestQueryRef.current;
+    const range = getTimeRange(timeFilter);
+    let filtered: DailyRecord[];
     
-    switch (timeFilter) {
-      case 'today':
-        filtered = filtered.filter(r => {
-          const recordDate = new Date(r.date);
-          return !isNaN(recordDate.getTime()) && recordDate.toDateString() === today.toDateString();
-        });
-        break;
-      case 'week': {
-        const weekAgo = new Date(now);
-        weekAgo.setDate(now.getDate() - 7);
-        filtered = filtered.filter(r => {
-          const recordDate = new Date(r.date);
-          return !isNaN(recordDate.getTime()) && recordDate >= weekAgo;
-        });
-        break;
+    // 优先使用索引查询，避免全量扫描
+    if (range) {
+      filtered = await recordsDB.getByDateRange(range.start.toISOString(), range.end.toISOString());
+      if (selectedTag) {
+        filtered = filtered.filter(r => r.tags.includes(selectedTag));
       }
-      case 'month': {
-        // 获取当前月份的第一天（0点0分0秒）
-        const currentMonthStart = new Date(now.getFullYear(), now.getMonth(), 1);
-        // 获取下一个月份的第一天（0点0分0秒）
-        const nextMonthStart = new Date(now.getFullYear(), now.getMonth() + 1, 1);
-        filtered = filtered.filter(r => {
-          const recordDate = new Date(r.date);
-          return !isNaN(recordDate.getTime()) && 
-                 recordDate >= currentMonthStart && 
-                 recordDate < nextMonthStart;
-        });
-        break;
-      }
-      default:
-        // 对于'all'和其他情况，过滤掉无效日期
-        filtered = filtered.filter(r => {
-          const recordDate = new Date(r.date);
-          return !isNaN(recordDate.getTime());
-        });
+    } else if (selectedTag) {
+      filtered = await recordsDB.getByTag(selectedTag);
+    } else {
+      filtered = await recordsDB.getAll();
     }
     
-    // 标签筛选
-    if (selectedTag) {
-      filtered = filtered.filter(r => r.tags.includes(selectedTag));
-    }
+    // 过滤掉无效日期
+    filtered = filtered.filter(r => !isNaN(new Date(r.date).getTime()));
     
-    // 关键词搜索
-    if (searchKeyword) {
-      filtered = filtered.filter(r =>
-        r.content.toLowerCase().includes(searchKeyword.toLowerCase()) ||
-        r.aiResponse?.toLowerCase().includes(searchKeyword.toLowerCase())
-      );
+    // 全文检索：按相关度排序，并保留命中摘要
+    const nextSnippets: { [id: string]: SnippetSegment[] } = {};
+    if (searchKeyword.trim()) {
+      const inScope = new Set(filtered.map(r => r.id));
+      const results = await searchIndexDB.search(searchKeyword, tags);
+      filtered = results
+        .filter(result => inScope.has(result.record.id))
+        .map(result => {
+          nextSnippets[result.record.id] = result.snippet;
+          return result.record;
+        });
     }
     
-    setFilteredRecords(filtered);
-  };
+    if (queryId === latestQueryRef.current) {
+      setFilteredRecords(filtered);
+      setSnippets(nextSnippets);
+    }
+  }, [timeFilter, selectedTag, searchKeyword, tags]);
+  
+  // 数据重新加载（dataVersion 变化）或筛选条件变化时重新查询
+  useEffect(() => {
+    filterRecords();
+  }, [dataVersion, filterRecords]);
   
   const handleToggleFavorite = async (id: string) => {
     const record = await recordsDB.getById(id);
@@ -111,6 +133,44 @@ export const HistoryView: React.FC = () => {
     }
   };
   
+  const handleEdit = async (id: string, updates: Partial<DailyRecord>) => {
+    await recordsDB.update(id, updates);
+    // 修改记录日期会影响连续天数
+    if (updates.date) await statsDB.calculateStats();
+    await loadData();
+  };
+  
+  const handleRestoreRevision = async (recordId: string, revisionId: string) => {
+    await revisionsDB.restore(recordId, revisionId);
+    await loadData();
+    setToast({ message: '已恢复到之前的版本', type: 'success' });
+  };
+  
+  const handleDelete = async (id: string) => {
+    await recordsDB.delete(id);
+    await statsDB.calculateStats();
+    await loadData();
+    setToast({
+      message: '记录已移至回收站',
+      type: 'info',
+      action: {
+        label: '撤销',
+        onClick: async () => {
+          await trashDB.restore(id);
+          await statsDB.calculateStats();
+          await loadData();
+        },
+      },
+    });
+  };
+  
+  // 每天的记录数（用于日期分组标题）
+  const dayCounts: { [day: string]: number } = {};
+  filteredRecords.forEach(record => {
+    const day = recordDayKey(record);
+    dayCounts[day] = (dayCounts[day] || 0) + 1;
+  });
+  
   const timeFilters: { id: TimeFilter; label: string }[] = [
     { id: 'today', label: '今天' },
     { id: 'week', label: '近7天' },
@@ -125,7 +185,7 @@ export const HistoryView: React.FC = () => {
         <div className="mb-32 animate-fade-in">
           <h1 className="text-h1 font-bold text-neutral-dark">历史回顾</h1>
           <p className="text-body-small text-neutral-stone mt-8">
-            共 {records.length} 条记录
+            共 {totalCount} 条记录
           </p>
         </div>
         
@@ -160,7 +220,7 @@ export const HistoryView: React.FC = () => {
               type="text"
               value={searchKeyword}
               onChange={(e) => setSearchKeyword(e.target.value)}
-              placeholder="搜索记录内容..."
+              placeholder='搜索记录内容，支持 "短语"、OR、#标签'
               className="w-full h-14 pl-48 pr-16 rounded-full bg-white border-2 border-neutral-mist text-body text-neutral-dark placeholder:text-neutral-stone focus:outline-none focus:border-primary-500 transition-colors"
             />
           </div>
@@ -199,13 +259,39 @@ export const HistoryView: React.FC = () => {
         {/* 记录列表 */}
         <div className="space-y-16 animate-slide-up" style={{ animationDelay: '0.2s' }}>
           {filteredRecords.length > 0 ? (
-            filteredRecords.map(record => (
-              <RecordCard
-                key={record.id}
-                record={record}
-                onToggleFavorite={handleToggleFavorite}
-              />
-            ))
+            filteredRecords.map((record, index) => {
+              // 按时间浏览时在每天的第一条记录前显示日期，搜索结果按相关度排列不分组
+              const day = recordDayKey(record);
+              const showDayHeader = !searchKeyword.trim() &&
+                (index === 0 || recordDayKey(filteredRecords[index - 1]) !== day);
+              return (
+                <React.Fragment key={record.id}>
+                  {showDayHeader && (
+                    <div className="flex items-center justify-between pt-8">
+                      <span className="text-body-small font-medium text-neutral-earth">
+                        {parseDayKey(day).toLocaleDateString('zh-CN', { month: 'long', day: 'numeric', weekday: 'short' })}
+                        <span className="text-caption text-neutral-stone ml-8">{dayCounts[day]} 条</span>
+                      </span>
+                      <button
+                        onClick={() => setTimelineDay(day)}
+                        className="flex items-center gap-4 text-caption text-primary-500 hover:text-primary-700 transition-colors"
+                      >
+                        <Clock className="w-4 h-4" />
+                        时间线
+                      </button>
+                    </div>
+                  )}
+                  <RecordCard
+                    record={record}
+                    onToggleFavorite={handleToggleFavorite}
+                    onDelete={handleDelete}
+                    onEdit={handleEdit}
+                    onRestoreRevision={handleRestoreRevision}
+                    snippet={snippets[record.id]}
+                  />
+                </React.Fragment>
+              );
+            })
           ) : (
             <div className="text-center py-64">
               <div className="mb-24">
@@ -223,6 +309,14 @@ export const HistoryView: React.FC = () => {
           )}
         </div>
       </div>
+      
+      <DayTimelineModal
+        isOpen={timelineDay !== null}
+        day={timelineDay}
+        onClose={() => setTimelineDay(null)}
+      />
+      
+      {toast && <Toast {...toast} duration={toast.action ? 5000 : 3000} onClose={() => setToast(null)} />}
     </div>
   );
 };
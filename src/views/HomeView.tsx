@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Sparkles, Lock, LockOpen, BarChart3 } from 'lucide-react';
+import { Sparkles, Lock, LockOpen, BarChart3, CalendarClock, Smile, Eye } from 'lucide-react';
 import { Button } from '../components/Button';
 import { EmotionTag } from '../components/EmotionTag';
 import { TextArea } from '../components/TextArea';
@@ -13,12 +13,22 @@ import { SuccessParticles } from '../components/ParticleEffect';
 import { AIResponseModal } from '../components/AIResponseModal';
 import { WeeklySummaryModal } from '../components/WeeklySummaryModal';
 import { WeeklyInsightSummary } from '../components/WeeklyInsightSummary';
+import { VaultUnlockModal } from '../components/VaultUnlockModal';
+import { RecordThreadModal } from '../components/RecordThreadModal';
+import { SafetyResourcesCard } from '../components/SafetyResourcesCard';
+import { SendPreviewModal } from '../components/SendPreviewModal';
 import { WeeklySummaryTestButton } from '../test/WeeklySummaryTestButton';
-import { recordsDB, tagsDB, statsDB, weeklyStatsDB, DEFAULT_TAGS } from '../lib/storage';
+import { recordsDB, tagsDB, statsDB, weeklyStatsDB, trashDB, revisionsDB, DEFAULT_TAGS } from '../lib/storage';
 import { aiService } from '../lib/aiService';
+import { aiSettingsDB } from '../lib/aiSettingsDB';
+import { aiQueue, isOfflineError } from '../lib/aiQueue';
+import { USAGE_LIMIT_ERROR } from '../lib/usage';
+import { getAllPersonas, resolvePersona } from '../lib/personas';
+import { JournalVault } from '../lib/security';
+import { toDateTimeLocalValue, toLocalDayKey, recordDayKey } from '../lib/dates';
 import { useAnimation } from '../contexts/AnimationContext';
 import { ANIMATIONS } from '../lib/animations';
-import type { DailyRecord, Tag } from '../types';
+import type { AIResponseRequest, AIServiceSettings, DailyRecord, Tag } from '../types';
 
 interface HomeViewProps {
   onNavigateToInsights?: () => void;
@@ -28,21 +38,36 @@ export const HomeView: React.FC<HomeViewProps> = ({ onNavigateToInsights }) => {
   const [content, setContent] = useState('');
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [isPrivate, setIsPrivate] = useState(false);
+  // 本条记录单独指定的回应风格，为空时使用默认风格
+  const [personaId, setPersonaId] = useState('');
+  const [sendPreview, setSendPreview] = useState<AIResponseRequest | null>(null);
+  const [aiSettings, setAiSettings] = useState<AIServiceSettings | null>(null);
+  // 记录所属时间，为空表示此刻（用于补记或预写）
+  const [entryDate, setEntryDate] = useState<string | null>(null);
   const [tags, setTags] = useState<Tag[]>(DEFAULT_TAGS);
   const [todayRecords, setTodayRecords] = useState<DailyRecord[]>([]);
   const [loading, setLoading] = useState(false);
   const [showThinking, setShowThinking] = useState(false);
+  // 流式回应已收到的内容
+  const [streamingResponse, setStreamingResponse] = useState('');
   const [currentAIResponse, setCurrentAIResponse] = useState<string>('');
   const [showAIMessage, setShowAIMessage] = useState(false);
   const [showAIResponseModal, setShowAIResponseModal] = useState(false);
   const [aiResponseForModal, setAiResponseForModal] = useState('');
+  // 刚保存的记录，用于从回应弹窗继续对话
+  const [latestRecord, setLatestRecord] = useState<DailyRecord | null>(null);
+  const [threadRecord, setThreadRecord] = useState<DailyRecord | null>(null);
+  // 识别到高风险表达时的安全回应，求助资源卡片一直显示到下一次提交
+  const [safetyResponse, setSafetyResponse] = useState<string | null>(null);
   const [showParticles, setShowParticles] = useState(false);
   const [showWeeklySummary, setShowWeeklySummary] = useState(false);
   const [showWeeklyReminder, setShowWeeklyReminder] = useState(false);
-  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null);
+  const [showVaultUnlock, setShowVaultUnlock] = useState(false);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'info'; action?: { label: string; onClick: () => void } } | null>(null);
   
   const { shouldAnimate } = useAnimation();
   const saveButtonRef = useRef<HTMLDivElement>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
   // 加载标签和今日记录，检查周总结提醒
   useEffect(() => {
     loadData();
@@ -54,9 +79,14 @@ export const HomeView: React.FC<HomeViewProps> = ({ onNavigateToInsights }) => {
     };
     
     window.addEventListener('data-imported', handleDataImported);
+    // 日记库锁定或解锁后重新读取，以显示或隐藏加密内容
+    window.addEventListener('vault-locked', handleDataImported);
+    window.addEventListener('vault-unlocked', handleDataImported);
     
     return () => {
       window.removeEventListener('data-imported', handleDataImported);
+      window.removeEventListener('vault-locked', handleDataImported);
+      window.removeEventListener('vault-unlocked', handleDataImported);
     };
   }, []);
 
@@ -89,6 +119,7 @@ export const HomeView: React.FC<HomeViewProps> = ({ onNavigateToInsights }) => {
     
     const records = await recordsDB.getTodayRecords();
     setTodayRecords(records);
+    setAiSettings(await aiSettingsDB.get());
   };
   
   const handleToggleTag = (tagId: string) => {
@@ -101,6 +132,15 @@ export const HomeView: React.FC<HomeViewProps> = ({ onNavigateToInsights }) => {
     );
   };
   
+  // 当前表单对应的AI请求，生成回应和发送预览共用
+  const buildAIRequest = (): AIResponseRequest => ({
+    content,
+    tags: selectedTags,
+    isPrivate,
+    personaId: personaId || undefined,
+    date: entryDate ? new Date(entryDate).toISOString() : undefined,
+  });
+
   const handleGenerateResponse = async () => {
     // 检查是否有内容或选择了标签
     if (content.trim().length === 0 && selectedTags.length === 0) {
@@ -108,35 +148,63 @@ export const HomeView: React.FC<HomeViewProps> = ({ onNavigateToInsights }) => {
       return;
     }
     
+    // 需要加密保存但日记库已锁定时，先解锁
+    const vault = JournalVault.getInstance();
+    if (!vault.isUnlocked() && await vault.shouldEncrypt(isPrivate)) {
+      setShowVaultUnlock(true);
+      return;
+    }
+    
     // 显示思考动画
+    setLatestRecord(null);
     setShowThinking(true);
+    setStreamingResponse('');
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
     
     try {
-      // 调用AI服务
-      const aiResult = await aiService.generateResponse({
-        content,
-        tags: selectedTags,
-      });
+      // 调用AI服务，回应内容随到达显示在思考气泡中
+      const aiResult = await aiService.streamResponse(
+        buildAIRequest(),
+        { onToken: setStreamingResponse, signal: controller.signal }
+      );
       
       // 隐藏思考动画
+      streamAbortRef.current = null;
       setShowThinking(false);
+      setStreamingResponse('');
       
-      // 显示AI回复弹窗
-      if (aiResult.response && !aiResult.error) {
-        setCurrentAIResponse(aiResult.response);
-        setAiResponseForModal(aiResult.response);
-        setShowAIResponseModal(true);
+      // 高风险时显示求助资源卡片，不使用会自动关闭的回复弹窗
+      if (aiResult.riskLevel === 'high') {
+        setSafetyResponse(aiResult.response);
+      } else {
+        setSafetyResponse(null);
+        if (aiResult.response && !aiResult.error) {
+          setCurrentAIResponse(aiResult.response);
+          setAiResponseForModal(aiResult.response);
+          setShowAIResponseModal(true);
+        }
       }
       
-      // 保存记录
+      // 保存记录（取消或中断时保存已生成的部分）
       const newRecord = await recordsDB.create({
         content,
         tags: selectedTags,
-        aiResponse: aiResult.response,
+        aiResponse: aiResult.response || undefined,
+        aiModel: aiResult.modelName,
         emotionAnalysis: aiResult.emotionAnalysis,
         isPrivate,
         isFavorite: false,
+        personaId: personaId || undefined,
+        date: entryDate ? new Date(entryDate).toISOString() : undefined,
       });
+      setLatestRecord(newRecord);
+
+      // 离线时先保存预设回应，联网后自动补上AI回应
+      const queued = !aiResult.partial && Boolean(aiResult.error) && isOfflineError(aiResult.error);
+      if (queued) {
+        await aiQueue.enqueue(newRecord.id, aiResult.error);
+      }
       
       // 更新统计
       await statsDB.calculateStats();
@@ -151,19 +219,39 @@ export const HomeView: React.FC<HomeViewProps> = ({ onNavigateToInsights }) => {
       setContent('');
       setSelectedTags([]);
       setIsPrivate(false);
+      setPersonaId('');
+      setEntryDate(null);
       setCurrentAIResponse('');
       setShowAIMessage(false);
       
       // 重新加载今日记录
       await loadData();
       
+      // 补记或预写的记录不在今日列表中，提示所属日期
+      if (recordDayKey(newRecord) !== toLocalDayKey(new Date())) {
+        const dayLabel = new Date(newRecord.date).toLocaleDateString('zh-CN', { month: 'long', day: 'numeric' });
+        setToast({ message: `已记录到 ${dayLabel}`, type: 'success' });
+      } else if (queued) {
+        setToast({ message: '网络不可用，联网后会自动生成AI回应', type: 'info' });
+      } else if (aiResult.error === USAGE_LIMIT_ERROR) {
+        setToast({ message: '已达到你设置的AI用量上限，本次使用本地回应', type: 'info' });
+      } else if (aiResult.partial) {
+        setToast({
+          message: aiResult.error ? '回应中断，已保存已生成的部分' : '已停止生成，记录已保存',
+          type: 'info',
+        });
+      }
+      
     } catch (error) {
       console.error('保存记录失败:', error);
+      streamAbortRef.current = null;
       setShowThinking(false);
+      setStreamingResponse('');
       
       // 即使出错也尝试保存用户输入
       try {
         const fallbackResult = aiService.getFallbackResponse({ content, tags: selectedTags });
+        setSafetyResponse(fallbackResult.riskLevel === 'high' ? fallbackResult.response : null);
         await recordsDB.create({
           content,
           tags: selectedTags,
@@ -171,6 +259,8 @@ export const HomeView: React.FC<HomeViewProps> = ({ onNavigateToInsights }) => {
           emotionAnalysis: fallbackResult.emotionAnalysis,
           isPrivate,
           isFavorite: false,
+          personaId: personaId || undefined,
+          date: entryDate ? new Date(entryDate).toISOString() : undefined,
         });
         
         setShowParticles(true);
@@ -181,6 +271,8 @@ export const HomeView: React.FC<HomeViewProps> = ({ onNavigateToInsights }) => {
         setContent('');
         setSelectedTags([]);
         setIsPrivate(false);
+        setPersonaId('');
+        setEntryDate(null);
         await loadData();
         
       } catch (saveError) {
@@ -197,6 +289,37 @@ export const HomeView: React.FC<HomeViewProps> = ({ onNavigateToInsights }) => {
     }
   };
   
+  const handleEdit = async (id: string, updates: Partial<DailyRecord>) => {
+    await recordsDB.update(id, updates);
+    // 修改记录日期会影响连续天数
+    if (updates.date) await statsDB.calculateStats();
+    await loadData();
+  };
+  
+  const handleRestoreRevision = async (recordId: string, revisionId: string) => {
+    await revisionsDB.restore(recordId, revisionId);
+    await loadData();
+    setToast({ message: '已恢复到之前的版本', type: 'success' });
+  };
+  
+  const handleDelete = async (id: string) => {
+    await recordsDB.delete(id);
+    await statsDB.calculateStats();
+    await loadData();
+    setToast({
+      message: '记录已移至回收站',
+      type: 'info',
+      action: {
+        label: '撤销',
+        onClick: async () => {
+          await trashDB.restore(id);
+          await statsDB.calculateStats();
+          await loadData();
+        },
+      },
+    });
+  };
+  
   const today = new Date();
   const dateStr = today.toLocaleDateString('zh-CN', { month: 'long', day: 'numeric' });
   const weekday = today.toLocaleDateString('zh-CN', { weekday: 'long' });
@@ -244,6 +367,25 @@ export const HomeView: React.FC<HomeViewProps> = ({ onNavigateToInsights }) => {
           />
         </div>
         
+        {/* 记录时间：默认为此刻，可补记或预写 */}
+        <div className="mb-16 flex flex-wrap items-center gap-8">
+          <button
+            onClick={() => setEntryDate(entryDate ? null : toDateTimeLocalValue(new Date()))}
+            className="flex items-center gap-8 text-body-small text-neutral-earth hover:text-neutral-dark transition-colors"
+          >
+            <CalendarClock className={`w-5 h-5 ${entryDate ? 'text-primary-500' : ''}`} />
+            <span>{entryDate ? '改回此刻' : '记录此刻'}</span>
+          </button>
+          {entryDate && (
+            <input
+              type="datetime-local"
+              value={entryDate}
+              onChange={(e) => setEntryDate(e.target.value || null)}
+              className="px-12 py-4 rounded-lg border border-neutral-mist text-body-small text-neutral-dark focus:outline-none focus:ring-2 focus:ring-primary-300"
+            />
+          )}
+        </div>
+        
         {/* 隐私开关 */}
         <div className="mb-24">
           <button
@@ -261,6 +403,31 @@ export const HomeView: React.FC<HomeViewProps> = ({ onNavigateToInsights }) => {
             {isPrivate ? '此记录仅保存在本地，不会上传' : '此记录可选择云端同步'}
           </p>
         </div>
+
+        {/* 本条记录的回应风格 */}
+        <div className="mb-24 flex items-center gap-8">
+          <Smile className="w-5 h-5 text-neutral-earth" />
+          <select
+            value={personaId}
+            onChange={(e) => setPersonaId(e.target.value)}
+            className="px-12 py-4 rounded-lg border border-neutral-mist bg-white text-body-small text-neutral-dark focus:outline-none focus:ring-2 focus:ring-primary-300"
+            aria-label="回应风格"
+          >
+            <option value="">默认风格（{resolvePersona(aiSettings).name}）</option>
+            {getAllPersonas(aiSettings).map(persona => (
+              <option key={persona.id} value={persona.id}>{persona.name}</option>
+            ))}
+          </select>
+          {/* 查看会发给AI的内容 */}
+          <button
+            onClick={() => setSendPreview(buildAIRequest())}
+            disabled={content.trim().length === 0 && selectedTags.length === 0}
+            className="ml-auto flex items-center gap-4 text-body-small text-neutral-earth hover:text-neutral-dark transition-colors disabled:opacity-30"
+          >
+            <Eye className="w-5 h-5" />
+            <span>发送预览</span>
+          </button>
+        </div>
         
         {/* 生成按钮 */}
         <div className="mb-24">
@@ -279,6 +446,9 @@ export const HomeView: React.FC<HomeViewProps> = ({ onNavigateToInsights }) => {
           </div>
         </div>
 
+        {/* 求助资源 */}
+        {safetyResponse !== null && <SafetyResourcesCard response={safetyResponse} />}
+
         {/* 本周数据摘要 */}
         {onNavigateToInsights && (
           <WeeklyInsightSummary onNavigateToInsights={onNavigateToInsights} />
@@ -292,7 +462,9 @@ export const HomeView: React.FC<HomeViewProps> = ({ onNavigateToInsights }) => {
                 isVisible={showThinking}
                 type="generating"
                 size="lg"
-                message="AI正在为你生成温柔回应..."
+                message={streamingResponse ? 'AI正在回应你...' : 'AI正在为你生成温柔回应...'}
+                streamingText={streamingResponse}
+                onCancel={() => streamAbortRef.current?.abort()}
               />
             </div>
           )}
@@ -351,8 +523,26 @@ export const HomeView: React.FC<HomeViewProps> = ({ onNavigateToInsights }) => {
             setShowAIResponseModal(false);
             setAiResponseForModal('');
           }}
+          onContinue={latestRecord ? () => {
+            setShowAIResponseModal(false);
+            setAiResponseForModal('');
+            setThreadRecord(latestRecord);
+          } : undefined}
         />
 
+        {/* 记录对话 */}
+        {threadRecord && (
+          <RecordThreadModal
+            isOpen={Boolean(threadRecord)}
+            record={threadRecord}
+            onClose={() => setThreadRecord(null)}
+            onSave={(thread) => handleEdit(threadRecord.id, { thread })}
+          />
+        )}
+
+        {/* 发送预览 */}
+        <SendPreviewModal request={sendPreview} onClose={() => setSendPreview(null)} />
+
         {/* 周总结提醒 */}
         <AnimatePresence>
           {showWeeklyReminder && (
@@ -418,6 +608,9 @@ export const HomeView: React.FC<HomeViewProps> = ({ onNavigateToInsights }) => {
                   key={record.id}
                   record={record}
                   onToggleFavorite={handleToggleFavorite}
+                  onDelete={handleDelete}
+                  onEdit={handleEdit}
+                  onRestoreRevision={handleRestoreRevision}
                   defaultExpanded={index === 0 && showAIMessage} // 只对第一个记录且刚获得AI回复时默认展开
                 />
               ))}
@@ -432,7 +625,13 @@ export const HomeView: React.FC<HomeViewProps> = ({ onNavigateToInsights }) => {
       </div>
       
       {loading && <LoadingOverlay />}
-      {toast && <Toast {...toast} onClose={() => setToast(null)} />}
+      <VaultUnlockModal
+        isOpen={showVaultUnlock}
+        onClose={() => setShowVaultUnlock(false)}
+        onUnlocked={() => setToast({ message: '日记库已解锁，可以保存了', type: 'success' })}
+      />
+      
+      {toast && <Toast {...toast} duration={toast.action ? 5000 : 3000} onClose={() => setToast(null)} />}
       
       {/* 开发测试工具 */}
       {import.meta.env.DEV && <WeeklySummaryTestButton />}
@@ -13,6 +13,9 @@ import {
 } from 'lucide-react';
 import { weeklyStatsDB } from '../lib/storage';
 import { WeeklySummaryModal } from '../components/WeeklySummaryModal';
+import { DayTimelineModal } from '../components/DayTimelineModal';
+import { NarrativeReportPanel } from '../components/NarrativeReportPanel';
+import { parseDayKey } from '../lib/dates';
 import { useAnimation } from '../contexts/AnimationContext';
 import { ANIMATIONS } from '../lib/animations';
 import type { WeeklyStats } from '../types';
@@ -22,6 +25,7 @@ export const InsightsView: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showWeeklySummary, setShowWeeklySummary] = useState(false);
+  const [timelineDay, setTimelineDay] = useState<string | null>(null);
   const { shouldAnimate } = useAnimation();
 
   useEffect(() => {
@@ -412,8 +416,8 @@ export const InsightsView: React.FC = () => {
                   {[...weeklyStats.dayDistribution]
                     .sort((a, b) => {
                       // 获取星期几（0是周日，1-6是周一到周六）
-                      const dayA = new Date(a.date).getDay();
-                      const dayB = new Date(b.date).getDay();
+                      const dayA = parseDayKey(a.date).getDay();
+                      const dayB = parseDayKey(b.date).getDay();
                       
                       // 将周日(0)转换为7，确保周一(1)到周日(7)的顺序
                       const sortA = dayA === 0 ? 7 : dayA;
@@ -422,13 +426,17 @@ export const InsightsView: React.FC = () => {
                       return sortA - sortB;
                     })
                     .map((day) => (
-                    <div key={day.date} className="flex items-center justify-between p-8">
+                    <div
+                      key={day.date}
+                      onClick={() => day.count > 0 && setTimelineDay(day.date)}
+                      className={`flex items-center justify-between p-8 rounded-lg ${day.count > 0 ? 'cursor-pointer hover:bg-primary-50' : ''}`}
+                    >
                       <div className="flex items-center gap-8">
                         <div className="text-caption text-neutral-stone w-12">
-                          {new Date(day.date).toLocaleDateString('zh-CN', { weekday: 'short' })}
+                          {parseDayKey(day.date).toLocaleDateString('zh-CN', { weekday: 'short' })}
                         </div>
                         <div className="text-body-small text-neutral-dark">
-                          {new Date(day.date).toLocaleDateString('zh-CN', { month: 'short', day: 'numeric' })}
+                          {parseDayKey(day.date).toLocaleDateString('zh-CN', { month: 'short', day: 'numeric' })}
                         </div>
                       </div>
                       <div className="flex items-center gap-8">
@@ -446,6 +454,9 @@ export const InsightsView: React.FC = () => {
                             </span>
                           </div>
                         )}
+                        {day.swing && day.swing.positivity >= 30 && (
+                          <span className="text-caption text-orange-500">起伏较大</span>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -496,11 +507,20 @@ export const InsightsView: React.FC = () => {
           </motion.div>
         )}
 
+        {/* AI回顾报告（本周没有记录时也可查看以往的报告） */}
+        <NarrativeReportPanel />
+
         {/* 周总结弹窗 */}
         <WeeklySummaryModal
           isOpen={showWeeklySummary}
           onClose={() => setShowWeeklySummary(false)}
         />
+        
+        <DayTimelineModal
+          isOpen={timelineDay !== null}
+          day={timelineDay}
+          onClose={() => setTimelineDay(null)}
+        />
       </div>
     </div>
   );
@@ -8,7 +8,7 @@ import { DataExportModal } from '../components/DataExportModal';
 import { DataImportModal } from '../components/DataImportModal';
 import { EmotionDashboard } from '../components/EmotionDashboard';
 import { WeeklySummaryModal } from '../components/WeeklySummaryModal';
-import type { UserSettings, UserStats, Tag as TagType, DailyRecord } from '../types';
+import type { UserSettings, UserStats, Tag as TagType, DailyRecord, StreakSummary } from '../types';
 import { aiService } from '../lib/aiService';
 
 interface ProfileViewProps {
@@ -20,6 +20,7 @@ export const ProfileView: React.FC<ProfileViewProps> = ({ onNavigateToAIConfig }
   const [stats, setStats] = useState<UserStats | null>(null);
   const [tags, setTags] = useState<TagType[]>(DEFAULT_TAGS);
   const [recentRecords, setRecentRecords] = useState<DailyRecord[]>([]);
+  const [streak, setStreak] = useState<StreakSummary | undefined>(undefined);
   const [aiServiceStatus, setAiServiceStatus] = useState({
     available: false,
     checking: true,
@@ -81,6 +82,7 @@ export const ProfileView: React.FC<ProfileViewProps> = ({ onNavigateToAIConfig }
     
     const userStats = await statsDB.calculateStats();
     setStats(userStats);
+    setStreak(await statsDB.getStreak());
     
     const allTags = await tagsDB.getAll();
     setTags(allTags);
@@ -163,6 +165,7 @@ export const ProfileView: React.FC<ProfileViewProps> = ({ onNavigateToAIConfig }
               </h2>
               <p className="text-body-small text-neutral-stone">
                 坚持了 {stats?.continuousDays || 0} 天
+                {(stats?.longestStreak || 0) > 0 && ` · 最长 ${stats!.longestStreak} 天`}
               </p>
             </div>
           </div>
@@ -176,7 +179,7 @@ export const ProfileView: React.FC<ProfileViewProps> = ({ onNavigateToAIConfig }
           </h3>
           <div className="grid grid-cols-2 gap-16">
 
-            <EmotionDashboard records={recentRecords} tags={tags} />
+            <EmotionDashboard records={recentRecords} tags={tags} streak={streak} />
           </div>
         </div>
         
@@ -6,21 +6,31 @@ declare global {
     notificationTimer?: NodeJS.Timeout;
   }
 }
-import { User, Lock, Bell, Upload, Download, ChevronRight, Palette, Shield, Bot } from 'lucide-react';
+import { User, Lock, Bell, Upload, Download, ChevronRight, Palette, Shield, Bot, Trash2, Settings } from 'lucide-react';
 import { settingsDB, statsDB, tagsDB, recordsDB, DEFAULT_TAGS } from '../lib/storage';
 import { aiService } from '../lib/aiService';
 import { EmotionTag } from '../components/EmotionTag';
 import { Button } from '../components/Button';
 import { DataExportModal } from '../components/DataExportModal';
 import { DataImportModal } from '../components/DataImportModal';
+import { VaultSettingsPanel } from '../components/VaultSettingsPanel';
+import { AppLockSettingsPanel } from '../components/AppLockSettingsPanel';
+import { EmotionBackfillPanel } from '../components/EmotionBackfillPanel';
+import { Toast } from '../components/Toast';
 import type { UserSettings, UserStats, Tag as TagType, DailyRecord } from '../types';
 
-export const SettingsView: React.FC = () => {
+interface SettingsViewProps {
+  onNavigateToTrash?: () => void;
+  onNavigateToAIConfig?: () => void;
+}
+
+export const SettingsView: React.FC<SettingsViewProps> = ({ onNavigateToTrash, onNavigateToAIConfig }) => {
   const [settings, setSettings] = useState<UserSettings | null>(null);
   const [stats, setStats] = useState<UserStats | null>(null);
   const [tags, setTags] = useState<TagType[]>(DEFAULT_TAGS);
   const [showExportModal, setShowExportModal] = useState(false);
   const [showImportModal, setShowImportModal] = useState(false);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'info'; action?: { label: string; onClick: () => void } } | null>(null);
   const [aiServiceStatus, setAiServiceStatus] = useState({
     available: false,
     checking: true,
@@ -54,9 +64,25 @@ export const SettingsView: React.FC = () => {
     setTags(allTags);
   };
 
-  const handleImportComplete = () => {
+  const handleImportComplete = (undo?: () => Promise<void>) => {
     // 导入完成后刷新数据
     loadData();
+    
+    // 覆盖导入提供撤销入口
+    if (undo) {
+      setToast({
+        message: '已覆盖导入数据',
+        type: 'info',
+        action: {
+          label: '撤销',
+          onClick: async () => {
+            await undo();
+            window.dispatchEvent(new CustomEvent('data-imported', { detail: { undone: true } }));
+            await loadData();
+          },
+        },
+      });
+    }
   };
 
   // 检查AI服务状态
@@ -219,6 +245,8 @@ export const SettingsView: React.FC = () => {
                 </div>
                 <p className="text-body-small text-neutral-stone">
                   已坚持记录 {stats?.continuousDays || 0} 天
+                  {(stats?.longestStreak || 0) > 0 && ` · 最长 ${stats!.longestStreak} 天`}
+                  {(stats?.streakFreezes || 0) > 0 && ` · 🛡️ ${stats!.streakFreezes} 次漏记保护`}
                 </p>
               </div>
             </div>
@@ -255,7 +283,11 @@ export const SettingsView: React.FC = () => {
               </button>
             </div>
 
+            {/* 应用锁 */}
+            <AppLockSettingsPanel onMessage={(message, type) => setToast({ message, type })} />
 
+            {/* 日记加密 */}
+            <VaultSettingsPanel onMessage={(message, type) => setToast({ message, type })} />
           </div>
         </div>
 
@@ -341,6 +373,26 @@ export const SettingsView: React.FC = () => {
               </button>
             </div>
 
+            {/* 回收站 */}
+            {onNavigateToTrash && (
+              <button
+                onClick={onNavigateToTrash}
+                className="flex items-center justify-between p-24 w-full hover:bg-neutral-50 transition-colors border-b border-neutral-mist"
+              >
+                <div className="flex items-center gap-12">
+                  <Trash2 className="w-5 h-5 text-neutral-stone" />
+                  <div className="text-left">
+                    <div className="text-body text-neutral-dark">回收站</div>
+                    <div className="text-caption text-neutral-stone">恢复或永久删除已删除的记录</div>
+                  </div>
+                </div>
+                <ChevronRight className="w-5 h-5 text-neutral-stone" />
+              </button>
+            )}
+
+            {/* 历史情绪重新分析 */}
+            <EmotionBackfillPanel onMessage={(message, type) => setToast({ message, type })} />
+
             {/* 存储空间信息 */}
             <div className="p-24">
               <div className="flex items-center justify-between">
@@ -416,6 +468,23 @@ export const SettingsView: React.FC = () => {
                 )}
               </div>
             </div>
+
+            {/* AI模型设置 */}
+            {onNavigateToAIConfig && (
+              <button
+                onClick={onNavigateToAIConfig}
+                className="flex items-center justify-between p-24 w-full hover:bg-neutral-50 transition-colors border-t border-neutral-mist"
+              >
+                <div className="flex items-center gap-12">
+                  <Settings className="w-5 h-5 text-neutral-stone" />
+                  <div className="text-left">
+                    <div className="text-body text-neutral-dark">AI模型设置</div>
+                    <div className="text-caption text-neutral-stone">选择回应模型、查看模型状态</div>
+                  </div>
+                </div>
+                <ChevronRight className="w-5 h-5 text-neutral-stone" />
+              </button>
+            )}
           </div>
         </div>
         
@@ -450,6 +519,8 @@ export const SettingsView: React.FC = () => {
         onClose={() => setShowImportModal(false)}
         onImportComplete={handleImportComplete}
       />
+      
+      {toast && <Toast {...toast} duration={toast.action ? 8000 : 3000} onClose={() => setToast(null)} />}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,150 @@
+import React, { useState, useEffect } from 'react';
+import { ChevronRight, Trash2, RotateCcw } from 'lucide-react';
+import { trashDB, statsDB, TRASH_RETENTION_DAYS } from '../lib/storage';
+import type { TrashedRecord } from '../lib/storage';
+import { Button } from '../components/Button';
+import { Toast } from '../components/Toast';
+import { ConfirmDialog } from '../components/Modal';
+
+interface TrashViewProps {
+  onBack: () => void;
+}
+
+export const TrashView: React.FC<TrashViewProps> = ({ onBack }) => {
+  const [items, setItems] = useState<TrashedRecord[]>([]);
+  const [showConfirmEmpty, setShowConfirmEmpty] = useState(false);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' | 'info' } | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    const trashed = await trashDB.getAll();
+    setItems(trashed);
+  };
+
+  const handleRestore = async (id: string) => {
+    await trashDB.restore(id);
+    await statsDB.calculateStats();
+    await loadData();
+    setToast({ message: '记录已恢复', type: 'success' });
+  };
+
+  const handlePurge = async (id: string) => {
+    await trashDB.purge(id);
+    await loadData();
+    setToast({ message: '记录已永久删除', type: 'info' });
+  };
+
+  const handleEmpty = async () => {
+    await trashDB.purgeAll();
+    setShowConfirmEmpty(false);
+    await loadData();
+    setToast({ message: '回收站已清空', type: 'info' });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-calm overflow-y-auto pb-[120px]">
+      <div className="max-w-[800px] mx-auto px-24 pt-24">
+        {/* 标题栏 */}
+        <div className="flex items-center gap-16 mb-32">
+          <button
+            onClick={onBack}
+            className="p-8 rounded-full hover:bg-white/50 transition-colors"
+          >
+            <ChevronRight className="w-6 h-6 text-neutral-dark rotate-180" />
+          </button>
+          <div>
+            <h1 className="text-h1 font-bold text-neutral-dark flex items-center gap-12">
+              <Trash2 className="w-8 h-8" />
+              回收站
+            </h1>
+            <p className="text-body-small text-neutral-stone mt-8">
+              删除的记录会保留 {TRASH_RETENTION_DAYS} 天，之后自动永久删除
+            </p>
+          </div>
+        </div>
+
+        {items.length > 0 && (
+          <div className="flex justify-end mb-16">
+            <Button
+              size="sm"
+              variant="secondary"
+              icon={<Trash2 className="w-4 h-4" />}
+              onClick={() => setShowConfirmEmpty(true)}
+            >
+              清空回收站
+            </Button>
+          </div>
+        )}
+
+        {/* 记录列表 */}
+        <div className="space-y-16">
+          {items.length > 0 ? (
+            items.map(item => (
+              <div
+                key={item.record.id}
+                className="w-full p-24 rounded-xl bg-white/80 border border-white/50 shadow-md"
+              >
+                <div className="flex items-center justify-between mb-12">
+                  <span className="text-caption text-neutral-stone">
+                    {new Date(item.record.date).toLocaleString('zh-CN', {
+                      month: '2-digit',
+                      day: '2-digit',
+                      hour: '2-digit',
+                      minute: '2-digit',
+                      hour12: false,
+                    })}
+                  </span>
+                  <span className="text-caption text-neutral-stone">
+                    {trashDB.getDaysLeft(item)} 天后永久删除
+                  </span>
+                </div>
+                <div className="text-body text-neutral-dark leading-relaxed mb-16">
+                  {`${item.record.content.slice(0, 80)}${item.record.content.length > 80 ? '...' : ''}`}
+                </div>
+                <div className="flex gap-12">
+                  <button
+                    onClick={() => handleRestore(item.record.id)}
+                    className="flex items-center gap-4 px-16 py-8 rounded-full bg-primary-50 text-primary-700 text-body-small hover:bg-primary-100 transition-colors"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    恢复
+                  </button>
+                  <button
+                    onClick={() => handlePurge(item.record.id)}
+                    className="flex items-center gap-4 px-16 py-8 rounded-full bg-red-50 text-red-600 text-body-small hover:bg-red-100 transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    永久删除
+                  </button>
+                </div>
+              </div>
+            ))
+          ) : (
+            <div className="text-center py-64">
+              <div className="w-32 h-32 mx-auto rounded-full bg-primary-50 flex items-center justify-center mb-24">
+                <Trash2 className="w-16 h-16 text-primary-500" />
+              </div>
+              <h3 className="text-h3 font-semibold text-neutral-dark mb-8">回收站是空的</h3>
+              <p className="text-body-small text-neutral-stone">删除的记录会出现在这里</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={showConfirmEmpty}
+        onClose={() => setShowConfirmEmpty(false)}
+        onConfirm={handleEmpty}
+        title="清空回收站"
+        description="回收站中的记录将被永久删除，无法恢复。"
+        confirmText="清空"
+        variant="danger"
+      />
+
+      {toast && <Toast {...toast} onClose={() => setToast(null)} />}
+    </div>
+  );
+};